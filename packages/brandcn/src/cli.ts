@@ -1,7 +1,30 @@
 import { updateSettings } from "@clack/core"
 
 import { addCommand, parseAddArgs, runAddCommand } from "./commands/add.js"
+import { diffCommand, parseDiffArgs, runDiffCommand } from "./commands/diff.js"
+import {
+  exportCommand,
+  parseExportArgs,
+  runExportCommand,
+} from "./commands/export.js"
+import { infoCommand, parseInfoArgs, runInfoCommand } from "./commands/info.js"
+import { initCommand, parseInitArgs, runInitCommand } from "./commands/init.js"
 import { listCommand, parseListArgs, runListCommand } from "./commands/list.js"
+import {
+  parsePreviewArgs,
+  previewCommand,
+  runPreviewCommand,
+} from "./commands/preview.js"
+import {
+  parseRemoveArgs,
+  removeCommand,
+  runRemoveCommand,
+} from "./commands/remove.js"
+import {
+  parseUpdateArgs,
+  runUpdateCommand,
+  updateCommand,
+} from "./commands/update.js"
 import {
   getPackageVersion,
   parseVersionArgs,
@@ -24,7 +47,18 @@ interface CommandDefinition {
   usage: string
 }
 
-const commands: CommandDefinition[] = [addCommand, listCommand, versionCommand]
+const commands: CommandDefinition[] = [
+  initCommand,
+  addCommand,
+  removeCommand,
+  updateCommand,
+  diffCommand,
+  listCommand,
+  infoCommand,
+  previewCommand,
+  exportCommand,
+  versionCommand,
+]
 
 const getCommand = (name: string): CommandDefinition | undefined => {
   return commands.find((command) => command.name === name)
@@ -123,6 +157,24 @@ export const runCli = async (
     return runHelpCommand(restArgs)
   }
 
+  if (commandName === initCommand.name) {
+    try {
+      const parsed = parseInitArgs(restArgs)
+
+      if (parsed.help) {
+        printCommandHelp(initCommand)
+        return 0
+      }
+
+      return await runInitCommand(parsed.flags)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid options"
+      displayError(message)
+      printCommandHelp(initCommand)
+      return 1
+    }
+  }
+
   if (commandName === addCommand.name) {
     try {
       const parsed = parseAddArgs(restArgs)
@@ -141,6 +193,60 @@ export const runCli = async (
     }
   }
 
+  if (commandName === removeCommand.name) {
+    try {
+      const parsed = parseRemoveArgs(restArgs)
+
+      if (parsed.help) {
+        printCommandHelp(removeCommand)
+        return 0
+      }
+
+      return await runRemoveCommand(parsed.logoNames, parsed.flags)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid options"
+      displayError(message)
+      printCommandHelp(removeCommand)
+      return 1
+    }
+  }
+
+  if (commandName === updateCommand.name) {
+    try {
+      const parsed = parseUpdateArgs(restArgs)
+
+      if (parsed.help) {
+        printCommandHelp(updateCommand)
+        return 0
+      }
+
+      return await runUpdateCommand(parsed.logoNames, parsed.flags)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid options"
+      displayError(message)
+      printCommandHelp(updateCommand)
+      return 1
+    }
+  }
+
+  if (commandName === diffCommand.name) {
+    try {
+      const parsed = parseDiffArgs(restArgs)
+
+      if (parsed.help) {
+        printCommandHelp(diffCommand)
+        return 0
+      }
+
+      return await runDiffCommand(parsed.logoNames, parsed.flags)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid options"
+      displayError(message)
+      printCommandHelp(diffCommand)
+      return 1
+    }
+  }
+
   if (commandName === listCommand.name) {
     try {
       const parsed = parseListArgs(restArgs)
@@ -159,6 +265,60 @@ export const runCli = async (
     }
   }
 
+  if (commandName === infoCommand.name) {
+    try {
+      const parsed = parseInfoArgs(restArgs)
+
+      if (parsed.help) {
+        printCommandHelp(infoCommand)
+        return 0
+      }
+
+      return await runInfoCommand(parsed.logoName, parsed.flags)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid options"
+      displayError(message)
+      printCommandHelp(infoCommand)
+      return 1
+    }
+  }
+
+  if (commandName === previewCommand.name) {
+    try {
+      const parsed = parsePreviewArgs(restArgs)
+
+      if (parsed.help) {
+        printCommandHelp(previewCommand)
+        return 0
+      }
+
+      return await runPreviewCommand(parsed.logoName, parsed.flags)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid options"
+      displayError(message)
+      printCommandHelp(previewCommand)
+      return 1
+    }
+  }
+
+  if (commandName === exportCommand.name) {
+    try {
+      const parsed = parseExportArgs(restArgs)
+
+      if (parsed.help) {
+        printCommandHelp(exportCommand)
+        return 0
+      }
+
+      return await runExportCommand(parsed.logoName, parsed.flags)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid options"
+      displayError(message)
+      printCommandHelp(exportCommand)
+      return 1
+    }
+  }
+
   if (commandName === versionCommand.name) {
     try {
       const parsed = parseVersionArgs(restArgs)
@@ -1,4 +1,5 @@
-import { log, outro } from "@clack/prompts"
+import { cancel, confirm, isCancel, log, outro, select } from "@clack/prompts"
+import path from "node:path"
 import { parseArgs } from "node:util"
 
 import type {
@@ -6,24 +7,103 @@ import type {
   ProcessLogosOptions,
 } from "../types/logos.js"
 
-import { processLogos } from "../utils/fs.js"
-import { LogoSpinner, displayError, displayUsage } from "../utils/log.js"
+import {
+  applyConfigDefaults,
+  applyVariantDefaults,
+  loadConfig,
+} from "../utils/config.js"
+import {
+  getAvailableLogos,
+  getTargetLogosPath,
+  processLogos,
+} from "../utils/fs.js"
+import {
+  LogoSpinner,
+  createConflictPrompt,
+  displayError,
+  displayJson,
+  displaySanitizerWarnings,
+  displayUsage,
+  formatBytes,
+  isInteractive,
+} from "../utils/log.js"
+import { pickLogos } from "../utils/picker.js"
+import { findBrand, getLogoDisplayName } from "../utils/registry.js"
 import { color } from "../utils/style.js"
-import { validateLogoNames } from "../utils/validate.js"
+import {
+  parseColor,
+  parseColorMap,
+  parseFramework,
+  parseOutputFormat,
+  parsePadding,
+  validateLogoNames,
+} from "../utils/validate.js"
 
 const addOptions = {
+  color: {
+    short: "C",
+    type: "string",
+  },
+  "current-color": {
+    short: "c",
+    type: "boolean",
+  },
   dark: {
     short: "d",
     type: "boolean",
   },
+  force: {
+    short: "f",
+    type: "boolean",
+  },
+  format: {
+    short: "O",
+    type: "string",
+  },
+  framework: {
+    short: "F",
+    type: "string",
+  },
   help: {
     short: "h",
     type: "boolean",
   },
+  inline: {
+    short: "i",
+    type: "boolean",
+  },
+  json: {
+    short: "j",
+    type: "boolean",
+  },
   light: {
     short: "l",
     type: "boolean",
   },
+  map: {
+    short: "m",
+    type: "string",
+  },
+  optimize: {
+    short: "o",
+    type: "boolean",
+  },
+  padding: {
+    short: "p",
+    type: "string",
+  },
+  sprite: {
+    short: "S",
+    type: "boolean",
+  },
+  square: {
+    short: "s",
+    type: "boolean",
+  },
+  trim: {
+    short: "t",
+    type: "boolean",
+  },
   wordmark: {
     short: "w",
     type: "boolean",
@@ -33,36 +113,114 @@ const addOptions = {
 export const addCommand = {
   description: "Add brand logos to your project",
   examples: [
+    "$ brandcn add",
     "$ brandcn add vercel",
     "$ brandcn add vercel neon react",
     "$ brandcn add vercel --dark --light",
     "$ brandcn add github --wordmark",
+    "$ brandcn add vercel --force",
+    "$ brandcn add vercel --inline",
+    "$ brandcn add vercel --framework vue",
+    "$ brandcn add vercel --optimize",
+    "$ brandcn add github_dark --current-color",
+    "$ brandcn add vercel stripe --color #6b7280",
+    '$ brandcn add vercel --map "#000=#111,#fff=#fafafa"',
+    "$ brandcn add vercel --trim",
+    "$ brandcn add vercel --square --padding 10",
+    "$ brandcn add vercel github --format css",
+    "$ brandcn add vercel github --format tailwind",
+    "$ brandcn add vercel github stripe --sprite",
+    "$ brandcn add vercel neon --json",
     "$ bunx brandcn@latest add nextjs tailwindcss",
   ],
   flags: {
+    color: {
+      char: "C",
+      description:
+        "Paint every color with one hex color, as a _mono copy such as vercel_mono",
+    },
+    "current-color": {
+      char: "c",
+      description:
+        "Paint single-color logos with currentColor, as inline components with a color prop",
+    },
     dark: {
       char: "d",
       description: "Add only dark variant of the logo",
     },
+    force: {
+      char: "f",
+      description: "Overwrite existing files that differ from the library",
+    },
+    format: {
+      char: "O",
+      description:
+        "Install logos as components (default), classes in logos.css (css) or a Tailwind plugin (tailwind)",
+    },
+    framework: {
+      char: "F",
+      description:
+        "Component framework: react (default), vue, svelte, solid, astro or angular",
+    },
     help: {
       char: "h",
       description: "Show help for the add command",
     },
+    inline: {
+      char: "i",
+      description: "Generate components that inline the SVG markup",
+    },
+    json: {
+      char: "j",
+      description: "Print the results as JSON, with absolute file paths",
+    },
     light: {
       char: "l",
       description: "Add only light variant of the logo",
     },
+    map: {
+      char: "m",
+      description:
+        'Swap colors, e.g. "#000=#111,#fff=#fafafa", as a _custom copy such as vercel_custom_dark',
+    },
+    optimize: {
+      char: "o",
+      description:
+        "Optimize SVGs before writing them (default: brandcn.json or off)",
+    },
+    padding: {
+      char: "p",
+      description:
+        "Trim, leaving padding as a percentage of the longer side, e.g. 10",
+    },
+    sprite: {
+      char: "S",
+      description:
+        "Install logos as symbols in logos.sprite.svg, drawn by one <Logo name> component",
+    },
+    square: {
+      char: "s",
+      description: "Trim and center the logo in a square, for icons",
+    },
+    trim: {
+      char: "t",
+      description: "Fit the viewBox to the logo, removing whitespace around it",
+    },
     wordmark: {
       char: "w",
       description: "Add only wordmark variant of the logo",
     },
   },
   name: "add",
-  usage: "brandcn add <logo-name> [logo-names...] [options]",
+  usage: "brandcn add [logo-names...] [options]",
 } as const
 
+export interface AddCommandFlags extends ProcessLogosOptions {
+  json?: boolean
+}
+
 export interface AddParsedArgs {
-  flags: ProcessLogosOptions
+  flags: AddCommandFlags
   help: boolean
   logoNames: string[]
 }
@@ -74,11 +232,48 @@ export const parseAddArgs = (args: string[]): AddParsedArgs => {
     options: addOptions,
     strict: true,
   })
+  const recolorFlags = [
+    parsed.values.color && "--color",
+    parsed.values["current-color"] && "--current-color",
+    parsed.values.map && "--map",
+  ].filter(Boolean)
+
+  if (1 < recolorFlags.length) {
+    throw new Error(`Use only one of ${recolorFlags.join(", ")}`)
+  }
+
+  if (parsed.values.sprite && parsed.values.format) {
+    throw new Error("Use either --sprite or --format")
+  }
 
   return {
     flags: {
+      color: parseColor(parsed.values.color),
+      colorMap: parseColorMap(parsed.values.map),
+      // currentColor only reaches SVGs inlined into the page, not <img>s
+      componentStyle:
+        parsed.values.inline || parsed.values["current-color"]
+          ? "inline"
+          : undefined,
+      currentColor: parsed.values["current-color"] ? true : undefined,
       dark: Boolean(parsed.values.dark),
+      force: Boolean(parsed.values.force),
+      format: parsed.values.sprite
+        ? "sprite"
+        : parseOutputFormat(parsed.values.format),
+      framework: parseFramework(parsed.values.framework),
+      json: Boolean(parsed.values.json),
       light: Boolean(parsed.values.light),
+      optimize: parsed.values.optimize ? true : undefined,
+      trim:
+        parsed.values.trim ||
+        parsed.values.square ||
+        undefined !== parsed.values.padding
+          ? {
+              padding: parsePadding(parsed.values.padding),
+              square: Boolean(parsed.values.square),
+            }
+          : undefined,
       wordmark: Boolean(parsed.values.wordmark),
     },
     help: Boolean(parsed.values.help),
@@ -86,12 +281,18 @@ export const parseAddArgs = (args: string[]): AddParsedArgs => {
   }
 }
 
+const formatSavedBytes = (result: LogoOperationResult): string =>
+  result.savedBytes
+    ? ` ${color.dim(`(saved ${formatBytes(result.savedBytes)})`)}`
+    : ""
+
 const displayResults = (results: LogoOperationResult[]): void => {
   log.message("")
 
   const successful = results.filter(
-    (result) => result.success && !result.skipped,
+    (result) => result.success && !result.skipped && !result.updated,
   )
+  const updated = results.filter((result) => result.success && result.updated)
   const skipped = results.filter((result) => result.success && result.skipped)
   const failed = results.filter((result) => !result.success)
 
@@ -101,10 +302,25 @@ const displayResults = (results: LogoOperationResult[]): void => {
       const files =
         result.createdFiles?.join(", ") ??
         `${result.logoName}.svg, ${result.logoName}.tsx`
-      log.step(`${color.success("added")} ${files}`)
+      log.step(`${color.success("added")} ${files}${formatSavedBytes(result)}`)
     }
   }
 
+  if (0 < updated.length) {
+    log.success(color.success("Updated logos"))
+    for (const result of updated) {
+      const files = [
+        ...(result.updatedFiles ?? []),
+        ...(result.createdFiles ?? []),
+      ].join(", ")
+      log.step(
+        `${color.success("updated")} ${files}${formatSavedBytes(result)}`,
+      )
+    }
+  }
+
+  displaySanitizerWarnings([...successful, ...updated])
+
   if (0 < skipped.length) {
     log.info(color.warning("Skipped (already exists)"))
     for (const result of skipped) {
@@ -119,20 +335,137 @@ const displayResults = (results: LogoOperationResult[]): void => {
     log.error(color.error("Failed"))
     for (const result of failed) {
       log.step(`${color.error("error")} ${result.logoName}: ${result.error}`)
+
+      if (result.suggestions && 0 < result.suggestions.length) {
+        const names = result.suggestions.map((name) => color.command(name))
+        log.message(`    Did you mean ${names.join(", ")}?`)
+      }
     }
   }
 }
 
-export const runAddCommand = async (
+/**
+ * Asks which suggestion to add for every logo that was not found
+ * @returns The chosen suggestions keyed by the name that was not found
+ */
+const promptSuggestions = async (
+  results: LogoOperationResult[],
+): Promise<Map<string, string>> => {
+  const chosen = new Map<string, string>()
+
+  for (const result of results) {
+    if (result.success || !result.suggestions?.length) {
+      continue
+    }
+
+    const suggestion = await select<string>({
+      message: `Add a suggestion instead of "${result.logoName}"?`,
+      options: [
+        ...result.suggestions.map((name) => ({
+          hint: findBrand(name)?.name ?? getLogoDisplayName(name),
+          label: name,
+          value: name,
+        })),
+        { label: "Skip", value: "" },
+      ],
+    })
+
+    if (isCancel(suggestion)) {
+      break
+    }
+
+    if (suggestion) {
+      chosen.set(result.logoName, suggestion)
+    }
+  }
+
+  return chosen
+}
+
+/**
+ * Adds logos without prompts or progress output and prints the results as
+ * JSON, with file names resolved to absolute paths
+ */
+const runAddJsonCommand = async (
   logoNames: string[],
   flags: ProcessLogosOptions,
 ): Promise<number> => {
-  if (0 === logoNames.length) {
+  const validation = validateLogoNames(logoNames)
+
+  if (0 === logoNames.length || validation.hasErrors) {
+    displayJson({
+      error:
+        0 === logoNames.length
+          ? "No logo names provided"
+          : "Invalid logo names",
+      errors: validation.errors,
+    })
+    return 1
+  }
+
+  try {
+    const loaded = loadConfig()
+    const config = loaded?.config ?? null
+    const targetPath = getTargetLogosPath(loaded)
+    const results = await processLogos(
+      validation.validNames,
+      applyVariantDefaults(applyConfigDefaults(flags, config), config),
+      targetPath,
+    )
+    const toPaths = (files?: string[]) =>
+      files?.map((file) => path.join(targetPath, file))
+
+    displayJson(
+      results.map((result) => ({
+        ...result,
+        createdFiles: toPaths(result.createdFiles),
+        removedFiles: toPaths(result.removedFiles),
+        skippedFiles: toPaths(result.skippedFiles),
+        updatedFiles: toPaths(result.updatedFiles),
+      })),
+    )
+
+    const hasFailures = results.some((result) => !result.success)
+    const hasSuccesses = results.some((result) => result.success)
+    return hasFailures && !hasSuccesses ? 1 : 0
+  } catch (error) {
+    displayJson({
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return 1
+  }
+}
+
+export const runAddCommand = async (
+  logoNames: string[],
+  addFlags: AddCommandFlags,
+): Promise<number> => {
+  const { json, ...flags } = addFlags
+
+  if (json) {
+    return runAddJsonCommand(logoNames, flags)
+  }
+
+  if (0 === logoNames.length && !isInteractive()) {
     displayError("No logo names provided")
     displayUsage()
     return 1
   }
 
+  if (0 === logoNames.length) {
+    const picked = await pickLogos(await getAvailableLogos())
+    const confirmed =
+      null !== picked &&
+      true === (await confirm({ message: `Add ${picked.join(", ")}?` }))
+
+    if (!picked || !confirmed) {
+      cancel("No logos were added.")
+      return 1
+    }
+
+    return runAddCommand(picked, flags)
+  }
+
   const validation = validateLogoNames(logoNames)
 
   if (validation.hasErrors) {
@@ -151,23 +484,68 @@ export const runAddCommand = async (
     return 1
   }
 
+  let options: ProcessLogosOptions
+  let targetPath: string
+  try {
+    const loaded = loadConfig()
+    const config = loaded?.config ?? null
+    options = applyVariantDefaults(applyConfigDefaults(flags, config), config)
+    targetPath = getTargetLogosPath(loaded)
+  } catch (error) {
+    displayError(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+
   const spinner = new LogoSpinner(
     `Processing ${validation.validNames.length} logo(s)...`,
   )
   spinner.start()
 
   try {
-    const results = await processLogos(validation.validNames, flags)
+    const onConflict =
+      !options.force && isInteractive()
+        ? createConflictPrompt(spinner)
+        : undefined
+    let results = await processLogos(
+      validation.validNames,
+      { ...options, onConflict },
+      targetPath,
+    )
 
     spinner.stop()
     displayResults(results)
 
+    const suggestions = isInteractive()
+      ? await promptSuggestions(results)
+      : new Map<string, string>()
+
+    if (0 < suggestions.size) {
+      spinner.start()
+      const suggestionResults = await processLogos(
+        [...suggestions.values()],
+        { ...options, onConflict },
+        targetPath,
+      )
+
+      spinner.stop()
+      displayResults(suggestionResults)
+      results = [
+        ...results.filter((result) => !suggestions.has(result.logoName)),
+        ...suggestionResults,
+      ]
+    }
+
     const hasFailures = results.some((result) => !result.success)
     const hasSuccesses = results.some((result) => result.success)
-    const successfulCount = results.filter(
-      (result) => result.success && !result.skipped,
+    // Themed components wrap logos counted already
+    const logoResults = results.filter((result) => !result.themed)
+    const successfulCount = logoResults.filter(
+      (result) => result.success && !result.skipped && !result.updated,
+    ).length
+    const updatedCount = logoResults.filter(
+      (result) => result.success && result.updated,
     ).length
-    const skippedCount = results.filter(
+    const skippedCount = logoResults.filter(
       (result) => result.success && result.skipped,
     ).length
 
@@ -179,10 +557,11 @@ export const runAddCommand = async (
     }
 
     if (hasFailures && hasSuccesses) {
+      const updatedMessage = 0 < updatedCount ? `, ${updatedCount} updated` : ""
       const skippedMessage = 0 < skippedCount ? `, ${skippedCount} skipped` : ""
       outro(
         color.warning(
-          `Completed with warnings. ${successfulCount} logos added${skippedMessage}.`,
+          `Completed with warnings. ${successfulCount} logos added${updatedMessage}${skippedMessage}.`,
         ),
       )
       return 0
@@ -190,11 +569,22 @@ export const runAddCommand = async (
 
     if (0 < successfulCount) {
       const logoSuffix = 1 === successfulCount ? "" : "s"
+      const updatedMessage = 0 < updatedCount ? `, ${updatedCount} updated` : ""
       const skippedMessage =
         0 < skippedCount ? ` (${skippedCount} already existed)` : ""
       outro(
         color.success(
-          `Successfully added ${successfulCount} logo${logoSuffix}${skippedMessage}.`,
+          `Successfully added ${successfulCount} logo${logoSuffix}${updatedMessage}${skippedMessage}.`,
+        ),
+      )
+      return 0
+    }
+
+    if (0 < updatedCount) {
+      const logoSuffix = 1 === updatedCount ? "" : "s"
+      outro(
+        color.success(
+          `Successfully updated ${updatedCount} logo${logoSuffix}.`,
         ),
       )
       return 0
@@ -0,0 +1,229 @@
+import { log } from "@clack/prompts"
+import path from "node:path"
+import { parseArgs } from "node:util"
+
+import type { ComponentOptions } from "../types/logos.js"
+
+import { applyConfigDefaults, loadConfig } from "../utils/config.js"
+import { createUnifiedDiff } from "../utils/diff.js"
+import {
+  findBrandVariants,
+  getAvailableLogos,
+  getInstalledFileNames,
+  getTargetLogosPath,
+  readInstalledLogo,
+  readLogoSvg,
+} from "../utils/fs.js"
+import {
+  findRecoloredVariants,
+  getLockedLibraryLogo,
+  lockFileName,
+  readLockFile,
+} from "../utils/lock.js"
+import { displayError } from "../utils/log.js"
+import { color } from "../utils/style.js"
+import { validateLogoNames } from "../utils/validate.js"
+
+const diffOptions = {
+  help: {
+    short: "h",
+    type: "boolean",
+  },
+  "name-only": {
+    short: "n",
+    type: "boolean",
+  },
+} as const
+
+export const diffCommand = {
+  description: "Show how installed logos differ from the library",
+  examples: [
+    "$ brandcn diff",
+    "$ brandcn diff vercel",
+    "$ brandcn diff github_dark",
+    "$ brandcn diff vercel github --name-only",
+  ],
+  flags: {
+    help: {
+      char: "h",
+      description: "Show help for the diff command",
+    },
+    "name-only": {
+      char: "n",
+      description: "Only list installed files that differ from the library",
+    },
+  },
+  name: "diff",
+  usage: "brandcn diff [logo-names...] [options]",
+} as const
+
+export interface DiffCommandFlags {
+  nameOnly: boolean
+}
+
+export interface DiffParsedArgs {
+  flags: DiffCommandFlags
+  help: boolean
+  logoNames: string[]
+}
+
+export const parseDiffArgs = (args: string[]): DiffParsedArgs => {
+  const parsed = parseArgs({
+    allowPositionals: true,
+    args,
+    options: diffOptions,
+    strict: true,
+  })
+
+  return {
+    flags: {
+      nameOnly: Boolean(parsed.values["name-only"]),
+    },
+    help: Boolean(parsed.values.help),
+    logoNames: parsed.positionals,
+  }
+}
+
+export const runDiffCommand = async (
+  logoNames: string[],
+  flags: DiffCommandFlags,
+): Promise<number> => {
+  const validation = validateLogoNames(logoNames)
+
+  if (validation.hasErrors) {
+    displayError("Invalid logo names:")
+    for (const error of validation.errors) {
+      log.step(`${error.name}: ${error.error}`)
+    }
+
+    return 1
+  }
+
+  let options: ComponentOptions
+  let targetPath: string
+  try {
+    const loaded = loadConfig()
+    options = applyConfigDefaults({}, loaded?.config ?? null)
+    targetPath = getTargetLogosPath(loaded)
+  } catch (error) {
+    displayError(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+
+  try {
+    const availableLogos = await getAvailableLogos()
+    const displayPath = path.relative(process.cwd(), targetPath)
+    const lock = await readLockFile(targetPath)
+    const lockedVariants = Object.keys(lock.logos).sort()
+    let hasErrors = false
+    let driftCount = 0
+
+    if (0 === validation.validNames.length && 0 === lockedVariants.length) {
+      log.info(
+        color.info(
+          `No logos are recorded in ${lockFileName}. Logos are recorded when you add them.`,
+        ),
+      )
+      return 0
+    }
+
+    /**
+     * Prints how an installed variant differs from the library
+     * @returns Whether the variant is installed
+     */
+    const diffVariant = async (variant: string): Promise<boolean> => {
+      // Compare against what was installed: its colors, trimming and
+      // optimization, and the file naming it was installed under
+      const entry = lock.logos[variant]
+      const variantOptions = entry ? { ...options, ...entry.options } : options
+      const installed = await readInstalledLogo(
+        targetPath,
+        variant,
+        variantOptions,
+      )
+      if (null === installed) {
+        return false
+      }
+
+      const fileName = path.join(
+        displayPath,
+        getInstalledFileNames(variant, variantOptions).svg,
+      )
+      const library = await readLogoSvg(
+        entry ? getLockedLibraryLogo(entry) : variant,
+        variantOptions,
+      )
+      const changes = [
+        variantOptions.currentColor ? "currentColor" : "",
+        variantOptions.color || variantOptions.colorMap ? "recolored" : "",
+        variantOptions.trim ? "trimmed" : "",
+        variantOptions.optimize ? "optimized" : "",
+      ].filter(Boolean)
+      const lines = createUnifiedDiff(
+        installed,
+        library.content,
+        fileName,
+        0 < changes.length
+          ? `library/${library.file} (${changes.join(", ")})`
+          : `library/${library.file}`,
+      )
+
+      if (0 < lines.length) {
+        driftCount++
+        console.log(flags.nameOnly ? fileName : lines.join("\n"))
+      }
+
+      return true
+    }
+
+    // Without names, every variant recorded in the lock file is compared
+    if (0 === validation.validNames.length) {
+      for (const variant of lockedVariants) {
+        await diffVariant(variant)
+      }
+    }
+
+    for (const logoName of validation.validNames) {
+      const lockEntry = lock.logos[logoName]
+      const libraryVariants = findBrandVariants(logoName, availableLogos)
+      // Recolored copies are compared to the library logo they came from
+      const variants =
+        lockEntry && logoName !== getLockedLibraryLogo(lockEntry)
+          ? [logoName]
+          : [
+              ...libraryVariants,
+              ...findRecoloredVariants(libraryVariants, lock),
+            ]
+
+      if (0 === variants.length) {
+        displayError(`Logo "${logoName}" not found in library`)
+        hasErrors = true
+        continue
+      }
+
+      let installedCount = 0
+
+      for (const variant of variants) {
+        if (await diffVariant(variant)) {
+          installedCount++
+        }
+      }
+
+      if (0 === installedCount) {
+        displayError(`Logo "${logoName}" is not installed in ${targetPath}`)
+        hasErrors = true
+      }
+    }
+
+    if (0 === driftCount && !hasErrors && !flags.nameOnly) {
+      log.success(color.success("Installed logos match the library"))
+    }
+
+    return hasErrors ? 1 : 0
+  } catch (error) {
+    displayError(
+      error instanceof Error ? error.message : "An unexpected error occurred",
+    )
+    return 1
+  }
+}
@@ -0,0 +1,328 @@
+import { log } from "@clack/prompts"
+import fs from "fs-extra"
+const { outputFile } = fs
+import path from "node:path"
+import { parseArgs } from "node:util"
+
+import {
+  findBrandVariants,
+  getAvailableLogos,
+  getTargetLogosPath,
+  readLibraryLogo,
+} from "../utils/fs.js"
+import { displayError, formatBytes } from "../utils/log.js"
+import {
+  createCanvas,
+  drawImage,
+  encodeIco,
+  encodePng,
+  rasterizeSvg,
+} from "../utils/raster.js"
+import { color } from "../utils/style.js"
+import { suggestLogoNames } from "../utils/suggest.js"
+import { parseSizes, validateLogoNames } from "../utils/validate.js"
+import { encodeWebp } from "../utils/webp.js"
+
+const exportOptions = {
+  favicon: {
+    short: "i",
+    type: "boolean",
+  },
+  format: {
+    short: "f",
+    type: "string",
+  },
+  help: {
+    short: "h",
+    type: "boolean",
+  },
+  out: {
+    short: "o",
+    type: "string",
+  },
+  size: {
+    short: "s",
+    type: "string",
+  },
+} as const
+
+export const exportCommand = {
+  description: "Export a logo from the library as PNG, WebP or ICO",
+  examples: [
+    "$ brandcn export vercel",
+    "$ brandcn export vercel --format webp --size 64,512",
+    "$ brandcn export github_dark --format ico --size 16,32",
+    "$ brandcn export vercel_dark --favicon --out public",
+  ],
+  flags: {
+    favicon: {
+      char: "i",
+      description:
+        "Export favicon.ico, apple-touch-icon.png and the 192 and 512 pixel web manifest icons",
+    },
+    format: {
+      char: "f",
+      description: "Image format: png (default), webp or ico",
+    },
+    help: {
+      char: "h",
+      description: "Show help for the export command",
+    },
+    out: {
+      char: "o",
+      description:
+        "Directory to write the images to (default: the logos directory)",
+    },
+    size: {
+      char: "s",
+      description:
+        "Pixel sizes of the longer side, e.g. 16,32,64 (default: 512, or 16,32,48 for ico)",
+    },
+  },
+  name: "export",
+  usage: "brandcn export <logo-name> [options]",
+} as const
+
+export type ExportFormat = "ico" | "png" | "webp"
+
+const exportFormats: ExportFormat[] = ["png", "webp", "ico"]
+
+export interface ExportCommandFlags {
+  favicon: boolean
+  format: ExportFormat
+  // Output directory, the logos directory when unset
+  out?: string
+  sizes: number[]
+}
+
+export interface ExportParsedArgs {
+  flags: ExportCommandFlags
+  help: boolean
+  logoName?: string
+}
+
+/**
+ * Parses a `--format` value
+ * @throws When the format is not png, webp or ico
+ */
+export const parseFormat = (value: string | undefined): ExportFormat => {
+  if (undefined === value) {
+    return "png"
+  }
+
+  const format = exportFormats.find((name) => name === value.toLowerCase())
+  if (!format) {
+    throw new Error(`Unknown format "${value}". Use png, webp or ico`)
+  }
+
+  return format
+}
+
+export const parseExportArgs = (args: string[]): ExportParsedArgs => {
+  const parsed = parseArgs({
+    allowPositionals: true,
+    args,
+    options: exportOptions,
+    strict: true,
+  })
+
+  if (1 < parsed.positionals.length) {
+    throw new Error(
+      `Expected a single logo name, got: ${parsed.positionals.join(", ")}`,
+    )
+  }
+
+  if (parsed.values.favicon && (parsed.values.format || parsed.values.size)) {
+    throw new Error("Use either --favicon or --format and --size")
+  }
+
+  const format = parseFormat(parsed.values.format)
+  const sizes = "ico" === format ? "16,32,48" : "512"
+
+  return {
+    flags: {
+      favicon: Boolean(parsed.values.favicon),
+      format,
+      out: parsed.values.out,
+      // ICO stores sizes in a byte, with 0 standing for 256
+      sizes: parseSizes(
+        parsed.values.size ?? sizes,
+        "ico" === format ? 256 : undefined,
+      ),
+    },
+    help: Boolean(parsed.values.help),
+    logoName: parsed.positionals[0],
+  }
+}
+
+export interface ExportFile {
+  // File name in the output directory, e.g. "vercel-512.png"
+  file: string
+  format: ExportFormat
+  // Pixels of the longer side, one image per size
+  sizes: number[]
+  // Centers the logo on a transparent square, as icons need
+  square: boolean
+}
+
+// Icons browsers, iOS and web app manifests look for
+const faviconFiles: ExportFile[] = [
+  { file: "favicon.ico", format: "ico", sizes: [16, 32, 48], square: true },
+  { file: "apple-touch-icon.png", format: "png", sizes: [180], square: true },
+  { file: "icon-192.png", format: "png", sizes: [192], square: true },
+  { file: "icon-512.png", format: "png", sizes: [512], square: true },
+]
+
+/**
+ * Files an export writes: the favicon set, one ICO holding every size, or
+ * one PNG or WebP per size
+ */
+export function getExportFiles(
+  logoName: string,
+  flags: ExportCommandFlags,
+): ExportFile[] {
+  if (flags.favicon) {
+    return faviconFiles
+  }
+
+  if ("ico" === flags.format) {
+    return [
+      {
+        file: `${logoName}.ico`,
+        format: "ico",
+        sizes: flags.sizes,
+        square: true,
+      },
+    ]
+  }
+
+  return flags.sizes.map((size) => ({
+    file: `${logoName}-${size}.${flags.format}`,
+    format: flags.format,
+    sizes: [size],
+    square: false,
+  }))
+}
+
+/**
+ * Rasterizes an SVG into the images of a file and encodes them
+ * @param source - SVG markup
+ */
+export async function renderExportFile(
+  source: string,
+  exportFile: ExportFile,
+): Promise<Buffer> {
+  const images = await Promise.all(
+    exportFile.sizes.map(async (size) => {
+      const image = await rasterizeSvg(source, size, size)
+      if (!exportFile.square) {
+        return image
+      }
+
+      const canvas = createCanvas(size, size)
+      drawImage(
+        canvas,
+        image,
+        Math.floor((size - image.width) / 2),
+        Math.floor((size - image.height) / 2),
+      )
+      return canvas
+    }),
+  )
+
+  if ("ico" === exportFile.format) {
+    return encodeIco(images)
+  }
+
+  const [image] = images
+  if (!image) {
+    throw new Error(`No sizes given for ${exportFile.file}`)
+  }
+
+  return "webp" === exportFile.format
+    ? await encodeWebp(image)
+    : encodePng(image)
+}
+
+const displayFaviconTags = (): void => {
+  log.message(
+    [
+      "Link them from your <head>:",
+      color.dim('<link rel="icon" href="/favicon.ico" sizes="32x32" />'),
+      color.dim('<link rel="apple-touch-icon" href="/apple-touch-icon.png" />'),
+      "And list the manifest icons in your web app manifest:",
+      color.dim(
+        '{ "src": "/icon-192.png", "sizes": "192x192", "type": "image/png" },',
+      ),
+      color.dim(
+        '{ "src": "/icon-512.png", "sizes": "512x512", "type": "image/png" }',
+      ),
+    ].join("\n"),
+  )
+}
+
+export const runExportCommand = async (
+  logoName: string | undefined,
+  flags: ExportCommandFlags,
+): Promise<number> => {
+  if (!logoName) {
+    displayError("No logo name provided")
+    return 1
+  }
+
+  const validation = validateLogoNames([logoName])
+  const [slug] = validation.validNames
+
+  if (!slug) {
+    displayError(
+      `Invalid logo name: ${validation.errors[0]?.error ?? logoName}`,
+    )
+    return 1
+  }
+
+  try {
+    const availableLogos = await getAvailableLogos()
+    // A brand exports its first variant, like preview shows it
+    const logo = availableLogos.includes(slug)
+      ? slug
+      : findBrandVariants(slug, availableLogos)[0]
+
+    if (!logo) {
+      displayError(`Logo "${slug}" not found in library`)
+
+      const suggestions = suggestLogoNames(slug, availableLogos)
+      if (0 < suggestions.length) {
+        const names = suggestions.map((name) => color.command(name))
+        log.message(`Did you mean ${names.join(", ")}?`)
+      }
+
+      return 1
+    }
+
+    const source = await readLibraryLogo(logo)
+    const outDir = path.resolve(flags.out ?? getTargetLogosPath())
+
+    log.success(color.success(`Exported ${logo}`))
+
+    for (const exportFile of getExportFiles(logo, flags)) {
+      const content = await renderExportFile(source, exportFile)
+      const filePath = path.join(outDir, exportFile.file)
+
+      await outputFile(filePath, content)
+      log.step(
+        `${color.success("exported")} ${path.relative(process.cwd(), filePath)} ${color.dim(`(${formatBytes(content.length)})`)}`,
+      )
+    }
+
+    if (flags.favicon) {
+      displayFaviconTags()
+    }
+
+    return 0
+  } catch (error) {
+    displayError(
+      error instanceof Error ? error.message : "An unexpected error occurred",
+    )
+    return 1
+  }
+}
@@ -0,0 +1,251 @@
+import { intro, log, outro } from "@clack/prompts"
+import path from "node:path"
+import { parseArgs } from "node:util"
+
+import type { ComponentOptions } from "../types/logos.js"
+
+import { getComponentExport } from "../utils/components.js"
+import { applyConfigDefaults, loadConfig } from "../utils/config.js"
+import {
+  findBrandVariants,
+  getAvailableLogos,
+  getInstalledFileNames,
+  getLogosImportPath,
+  getTargetLogosPath,
+  getVariantType,
+  logoExistsInTarget,
+  readLibraryLogo,
+} from "../utils/fs.js"
+import { displayError, formatBytes } from "../utils/log.js"
+import { findBrand, findBrandByVariant } from "../utils/registry.js"
+import { color } from "../utils/style.js"
+import { suggestLogoNames } from "../utils/suggest.js"
+import {
+  getSvgColors,
+  getSvgViewBox,
+  isMonochromeSvg,
+  parseSvg,
+} from "../utils/svg.js"
+import { parseFramework, validateLogoNames } from "../utils/validate.js"
+
+const infoOptions = {
+  framework: {
+    short: "F",
+    type: "string",
+  },
+  help: {
+    short: "h",
+    type: "boolean",
+  },
+} as const
+
+export const infoCommand = {
+  description: "Show the variants and SVG details of a logo",
+  examples: [
+    "$ brandcn info vercel",
+    "$ brandcn info nextjs-logo_dark",
+    "$ brandcn info github --framework vue",
+  ],
+  flags: {
+    framework: {
+      char: "F",
+      description:
+        "Framework of the import line (default: brandcn.json or react)",
+    },
+    help: {
+      char: "h",
+      description: "Show help for the info command",
+    },
+  },
+  name: "info",
+  usage: "brandcn info <logo-name> [options]",
+} as const
+
+export interface InfoParsedArgs {
+  flags: Pick<ComponentOptions, "framework">
+  help: boolean
+  logoName?: string
+}
+
+export const parseInfoArgs = (args: string[]): InfoParsedArgs => {
+  const parsed = parseArgs({
+    allowPositionals: true,
+    args,
+    options: infoOptions,
+    strict: true,
+  })
+
+  if (1 < parsed.positionals.length) {
+    throw new Error(
+      `Expected a single logo name, got: ${parsed.positionals.join(", ")}`,
+    )
+  }
+
+  return {
+    flags: {
+      framework: parseFramework(parsed.values.framework),
+    },
+    help: Boolean(parsed.values.help),
+    logoName: parsed.positionals[0],
+  }
+}
+
+/**
+ * Width to height ratio of a view box, e.g. "4.93:1"
+ */
+const formatAspectRatio = (width: number, height: number): string => {
+  const ratio = Number((width / height).toFixed(2))
+  return `${ratio}:1`
+}
+
+/**
+ * The line that imports the component of a variant, e.g.
+ * `import { VercelLogo } from "@/components/ui/logos/vercel"`
+ */
+const getImportLine = (
+  variant: string,
+  options: ComponentOptions,
+  targetPath: string,
+): string => {
+  const componentExport = getComponentExport(variant, options)
+  const from = `${getLogosImportPath(targetPath)}/${componentExport.from.replace(/^\.\//, "")}`
+
+  if (componentExport.isDefault) {
+    return `import ${componentExport.name} from "${from}"`
+  }
+
+  return `import { ${componentExport.name} } from "${from}"`
+}
+
+const describeVariant = async (
+  variant: string,
+  options: ComponentOptions,
+  targetPath: string,
+): Promise<string[]> => {
+  const source = await readLibraryLogo(variant)
+  const root = parseSvg(source)
+  const viewBox = getSvgViewBox(root)
+  const colors = getSvgColors(root)
+  const installedFile = path.relative(
+    process.cwd(),
+    path.join(targetPath, getInstalledFileNames(variant, options).svg),
+  )
+
+  const rows: [string, string][] = [
+    [
+      "viewBox",
+      viewBox
+        ? `${viewBox.minX} ${viewBox.minY} ${viewBox.width} ${viewBox.height} (${formatAspectRatio(viewBox.width, viewBox.height)})`
+        : "none",
+    ],
+    ["size", formatBytes(Buffer.byteLength(source))],
+    ["colors", 0 < colors.length ? colors.join(", ") : "none"],
+    [
+      "monochrome",
+      isMonochromeSvg(root) ? "yes, works with currentColor" : "no",
+    ],
+    [
+      "installed",
+      (await logoExistsInTarget(targetPath, variant, options))
+        ? `yes (${installedFile})`
+        : "no",
+    ],
+    ["import", getImportLine(variant, options, targetPath)],
+  ]
+
+  return rows.map(([label, value]) => `${color.dim(label.padEnd(11))} ${value}`)
+}
+
+export const runInfoCommand = async (
+  logoName: string | undefined,
+  flags: Pick<ComponentOptions, "framework">,
+): Promise<number> => {
+  if (!logoName) {
+    displayError("No logo name provided")
+    return 1
+  }
+
+  const validation = validateLogoNames([logoName])
+  const [slug] = validation.validNames
+
+  if (!slug) {
+    displayError(
+      `Invalid logo name: ${validation.errors[0]?.error ?? logoName}`,
+    )
+    return 1
+  }
+
+  let options: ComponentOptions
+  let targetPath: string
+  try {
+    const loaded = loadConfig()
+    options = applyConfigDefaults(flags, loaded?.config ?? null)
+    targetPath = getTargetLogosPath(loaded)
+  } catch (error) {
+    displayError(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+
+  try {
+    const availableLogos = await getAvailableLogos()
+    const variants = findBrandVariants(slug, availableLogos)
+
+    if (0 === variants.length) {
+      displayError(`Logo "${slug}" not found in library`)
+
+      const suggestions = suggestLogoNames(slug, availableLogos)
+      if (0 < suggestions.length) {
+        const names = suggestions.map((name) => color.command(name))
+        log.message(`Did you mean ${names.join(", ")}?`)
+      }
+
+      return 1
+    }
+
+    const brand = findBrand(slug) ?? findBrandByVariant(slug)
+
+    intro(
+      brand
+        ? `${color.highlight(brand.name)} ${color.dim(`(${brand.id})`)}`
+        : color.highlight(slug),
+    )
+
+    if (brand) {
+      const details = [
+        ["categories", brand.categories.join(", ")],
+        ["aliases", brand.aliases.join(", ")],
+        ["website", brand.website ?? ""],
+      ].filter(([, value]) => value)
+
+      log.info(
+        details
+          .map(
+            ([label = "", value]) => `${color.dim(label.padEnd(11))} ${value}`,
+          )
+          .join("\n"),
+      )
+    }
+
+    for (const variant of variants) {
+      const variantType = getVariantType(variant, variant.split("_")[0])
+      log.step(
+        variantType
+          ? `${color.command(variant)} ${color.dim(`(${variantType})`)}`
+          : color.command(variant),
+      )
+      log.message(
+        (await describeVariant(variant, options, targetPath)).join("\n"),
+      )
+    }
+
+    outro(
+      `${color.dim("Tip:")} Use ${color.command(`brandcn add ${slug}`)} to add ${1 === variants.length ? "it" : "every variant"} to your project`,
+    )
+    return 0
+  } catch (error) {
+    displayError(
+      error instanceof Error ? error.message : "An unexpected error occurred",
+    )
+    return 1
+  }
+}
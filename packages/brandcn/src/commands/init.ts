@@ -0,0 +1,320 @@
+import {
+  cancel,
+  confirm,
+  isCancel,
+  log,
+  multiselect,
+  outro,
+  select,
+  text,
+} from "@clack/prompts"
+import fs from "fs-extra"
+import path from "node:path"
+import { parseArgs } from "node:util"
+
+import type { BrandcnConfig } from "../types/config.js"
+import type { ComponentStyle, FileNaming, Framework } from "../types/logos.js"
+
+import { configFileName, findConfigPath, writeConfig } from "../utils/config.js"
+import { getComponentsJsonOutputDir } from "../utils/fs.js"
+import { displayError, isInteractive } from "../utils/log.js"
+import { color } from "../utils/style.js"
+import { parseFramework } from "../utils/validate.js"
+
+const { pathExistsSync, readJSONSync } = fs
+
+const initOptions = {
+  force: {
+    short: "f",
+    type: "boolean",
+  },
+  framework: {
+    short: "F",
+    type: "string",
+  },
+  help: {
+    short: "h",
+    type: "boolean",
+  },
+  inline: {
+    short: "i",
+    type: "boolean",
+  },
+  "out-dir": {
+    short: "o",
+    type: "string",
+  },
+  yes: {
+    short: "y",
+    type: "boolean",
+  },
+} as const
+
+export const initCommand = {
+  description: "Create a brandcn.json config for your project",
+  examples: [
+    "$ brandcn init",
+    "$ brandcn init --yes",
+    "$ brandcn init --out-dir src/components/logos --framework vue",
+  ],
+  flags: {
+    force: {
+      char: "f",
+      description: "Overwrite an existing brandcn.json",
+    },
+    framework: {
+      char: "F",
+      description: "Component framework (detected from package.json)",
+    },
+    help: {
+      char: "h",
+      description: "Show help for the init command",
+    },
+    inline: {
+      char: "i",
+      description: "Generate components that inline the SVG markup",
+    },
+    "out-dir": {
+      char: "o",
+      description: "Directory logos are added to",
+    },
+    yes: {
+      char: "y",
+      description: "Skip prompts and use the defaults",
+    },
+  },
+  name: "init",
+  usage: "brandcn init [options]",
+} as const
+
+export interface InitCommandFlags {
+  componentStyle?: ComponentStyle
+  force: boolean
+  framework?: Framework
+  outDir?: string
+  yes: boolean
+}
+
+export interface InitParsedArgs {
+  flags: InitCommandFlags
+  help: boolean
+}
+
+export const parseInitArgs = (args: string[]): InitParsedArgs => {
+  const parsed = parseArgs({
+    allowPositionals: true,
+    args,
+    options: initOptions,
+    strict: true,
+  })
+
+  if (0 < parsed.positionals.length) {
+    throw new TypeError(
+      `Unexpected positional arguments: ${parsed.positionals.join(", ")}`,
+    )
+  }
+
+  return {
+    flags: {
+      componentStyle: parsed.values.inline ? "inline" : undefined,
+      force: Boolean(parsed.values.force),
+      framework: parseFramework(parsed.values.framework),
+      outDir: parsed.values["out-dir"],
+      yes: Boolean(parsed.values.yes),
+    },
+    help: Boolean(parsed.values.help),
+  }
+}
+
+// Checked in order, so meta-frameworks win over the UI library they wrap
+const frameworkPackages: [string, Framework][] = [
+  ["@angular/core", "angular"],
+  ["astro", "astro"],
+  ["svelte", "svelte"],
+  ["solid-js", "solid"],
+  ["vue", "vue"],
+  ["react", "react"],
+]
+
+/**
+ * Guesses the framework from the dependencies in the cwd's package.json
+ */
+export function detectFramework(): Framework | undefined {
+  const packagePath = path.join(process.cwd(), "package.json")
+  if (!pathExistsSync(packagePath)) {
+    return undefined
+  }
+
+  try {
+    const pkg = readJSONSync(packagePath) as {
+      dependencies?: { [name: string]: string }
+      devDependencies?: { [name: string]: string }
+    }
+    const dependencies = { ...pkg.devDependencies, ...pkg.dependencies }
+
+    return frameworkPackages.find(([name]) => name in dependencies)?.[1]
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Default logos directory: next to the shadcn ui components when
+ * components.json exists, otherwise components/logos
+ */
+export function getDefaultOutputDir(): string {
+  const fromComponentsJson = getComponentsJsonOutputDir()
+  if (!fromComponentsJson) {
+    return path.join("components", "logos")
+  }
+
+  return path.relative(process.cwd(), fromComponentsJson) || "."
+}
+
+const promptForConfig = async (
+  defaults: BrandcnConfig,
+): Promise<BrandcnConfig | null> => {
+  const outDir = await text({
+    defaultValue: defaults.outDir,
+    message: "Where should logos be added?",
+    placeholder: defaults.outDir,
+  })
+  if (isCancel(outDir)) {
+    return null
+  }
+
+  const framework = await select<Framework>({
+    initialValue: defaults.framework,
+    message: "Which framework should components be generated for?",
+    options: [
+      { label: "React", value: "react" },
+      { label: "Vue", value: "vue" },
+      { label: "Svelte", value: "svelte" },
+      { label: "Solid", value: "solid" },
+      { label: "Astro", value: "astro" },
+      { label: "Angular", value: "angular" },
+    ],
+  })
+  if (isCancel(framework)) {
+    return null
+  }
+
+  const componentStyle = await select<ComponentStyle>({
+    initialValue: defaults.componentStyle,
+    message: "How should components render the logo?",
+    options: [
+      { hint: "references the SVG file", label: "<img>", value: "img" },
+      {
+        hint: "inherits currentColor",
+        label: "Inline SVG",
+        value: "inline",
+      },
+    ],
+  })
+  if (isCancel(componentStyle)) {
+    return null
+  }
+
+  const fileNaming = await select<FileNaming>({
+    initialValue: defaults.fileNaming,
+    message: "How should files be named?",
+    options: [
+      {
+        hint: "github_dark.svg",
+        label: "As in the library",
+        value: "original",
+      },
+      { hint: "github-dark.svg", label: "kebab-case", value: "kebab-case" },
+      { hint: "GithubDarkLogo.svg", label: "PascalCase", value: "PascalCase" },
+    ],
+  })
+  if (isCancel(fileNaming)) {
+    return null
+  }
+
+  const optimize = await confirm({
+    initialValue: defaults.optimize,
+    message: "Optimize SVGs when adding logos?",
+  })
+  if (isCancel(optimize)) {
+    return null
+  }
+
+  const variants = await multiselect<"dark" | "light" | "wordmark">({
+    message:
+      "Which variants should be added when no variant flag is given? (none adds every variant)",
+    options: [
+      { label: "Dark", value: "dark" },
+      { label: "Light", value: "light" },
+      { label: "Wordmark", value: "wordmark" },
+    ],
+    required: false,
+  })
+  if (isCancel(variants)) {
+    return null
+  }
+
+  return {
+    componentStyle,
+    fileNaming,
+    framework,
+    optimize,
+    outDir: outDir.trim() || defaults.outDir,
+    variants: {
+      dark: variants.includes("dark"),
+      light: variants.includes("light"),
+      wordmark: variants.includes("wordmark"),
+    },
+  }
+}
+
+export const runInitCommand = async (
+  flags: InitCommandFlags,
+): Promise<number> => {
+  const existingPath = findConfigPath()
+  const existingHere =
+    existingPath && path.dirname(existingPath) === process.cwd()
+
+  if (existingHere && !flags.force) {
+    displayError(
+      `${configFileName} already exists. Use --force to overwrite it.`,
+    )
+    return 1
+  }
+
+  const defaults: BrandcnConfig = {
+    componentStyle: flags.componentStyle ?? "img",
+    fileNaming: "original",
+    framework: flags.framework ?? detectFramework() ?? "react",
+    optimize: false,
+    outDir: flags.outDir ?? getDefaultOutputDir(),
+    variants: { dark: false, light: false, wordmark: false },
+  }
+
+  let config: BrandcnConfig | null = defaults
+  if (!flags.yes && isInteractive()) {
+    config = await promptForConfig(defaults)
+  }
+
+  if (!config) {
+    cancel("No config was written.")
+    return 1
+  }
+
+  try {
+    const filePath = await writeConfig(config)
+
+    log.step(`${color.success("created")} ${filePath}`)
+    outro(
+      color.success(
+        `Logos will be added to ${color.highlight(config.outDir)} as ${config.framework} components.`,
+      ),
+    )
+    return 0
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "An unexpected error occurred"
+    displayError(message)
+    return 1
+  }
+}
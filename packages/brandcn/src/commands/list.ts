@@ -1,15 +1,27 @@
 import { intro, log, outro } from "@clack/prompts"
 import { parseArgs } from "node:util"
 
+import type { LogoBrand } from "../utils/registry.js"
+
+import { logoCategories } from "../types/registry.js"
 import { getAvailableLogos, getVariantType } from "../utils/fs.js"
-import { displayError } from "../utils/log.js"
+import { displayError, displayJson } from "../utils/log.js"
+import { brandMatches, getBrands, isLogoCategory } from "../utils/registry.js"
 import { color } from "../utils/style.js"
 
 const listOptions = {
+  category: {
+    short: "c",
+    type: "string",
+  },
   help: {
     short: "h",
     type: "boolean",
   },
+  json: {
+    short: "j",
+    type: "boolean",
+  },
   search: {
     short: "s",
     type: "string",
@@ -25,16 +37,27 @@ export const listCommand = {
   examples: [
     "$ brandcn list",
     "$ brandcn list --search react",
+    "$ brandcn list --category database",
     "$ brandcn list --variants",
+    "$ brandcn list --search react --json",
   ],
   flags: {
+    category: {
+      char: "c",
+      description: "Show only logos in a category, e.g. framework or payments",
+    },
     help: {
       char: "h",
       description: "Show help for the list command",
     },
+    json: {
+      char: "j",
+      description: "Print logos, variants and metadata as JSON",
+    },
     search: {
       char: "s",
-      description: "Search for logos containing the specified text",
+      description:
+        "Search logo names, aliases, categories and variant file names",
     },
     variants: {
       char: "v",
@@ -42,10 +65,13 @@ export const listCommand = {
     },
   },
   name: "list",
-  usage: "brandcn list [--search <term>] [--variants]",
+  usage:
+    "brandcn list [--search <term>] [--category <name>] [--variants] [--json]",
 } as const
 
 export interface ListCommandFlags {
+  category?: string
+  json?: boolean
   search?: string
   variants?: boolean
 }
@@ -71,6 +97,8 @@ export const parseListArgs = (args: string[]): ListParsedArgs => {
 
   return {
     flags: {
+      category: parsed.values.category,
+      json: Boolean(parsed.values.json),
       search: parsed.values.search,
       variants: Boolean(parsed.values.variants),
     },
@@ -78,45 +106,49 @@ export const parseListArgs = (args: string[]): ListParsedArgs => {
   }
 }
 
-const displayLogosGrouped = (logos: string[], searchTerm?: string): void => {
-  if (searchTerm) {
+const describeFilter = (flags: ListCommandFlags): string => {
+  const filters: string[] = []
+
+  if (flags.search) {
+    filters.push(`matching "${color.highlight(flags.search)}"`)
+  }
+  if (flags.category) {
+    filters.push(`in ${color.highlight(flags.category)}`)
+  }
+
+  return filters.join(" ")
+}
+
+const displayLogosGrouped = (
+  brands: LogoBrand[],
+  flags: ListCommandFlags,
+): void => {
+  const filter = describeFilter(flags)
+
+  if (filter) {
     intro(
-      `${color.info("Found")} ${color.highlight(String(logos.length))} logos matching "${color.highlight(searchTerm)}" (grouped by brand)`,
+      `${color.info("Found")} ${color.highlight(String(brands.length))} logos ${filter} (grouped by brand)`,
     )
   } else {
     intro(
-      `${color.info("Available logos grouped by brand")} (${color.highlight(String(logos.length))} total)`,
+      `${color.info("Available logos grouped by brand")} (${color.highlight(String(brands.length))} total)`,
     )
   }
 
-  const groups = new Map<string, string[]>()
-
-  for (const logo of logos) {
-    const baseName = logo.split("_")[0]
-
-    if (!groups.has(baseName)) {
-      groups.set(baseName, [])
-    }
-
-    groups.get(baseName)?.push(logo)
-  }
-
-  const sortedGroups = [...groups.entries()].sort(([a], [b]) =>
-    a.localeCompare(b),
-  )
+  for (const brand of brands) {
+    const categories = color.dim(brand.categories.join(", "))
 
-  for (const [baseName, variants] of sortedGroups) {
-    if (1 === variants.length) {
-      log.step(`${color.command(baseName)}`)
+    if (1 === brand.variants.length) {
+      log.step(`${brand.name} (${color.command(brand.id)}) ${categories}`)
       continue
     }
 
     log.step(
-      `${color.command(baseName)} (${color.highlight(String(variants.length))} variants)`,
+      `${brand.name} (${color.command(brand.id)}) ${categories} - ${color.highlight(String(brand.variants.length))} variants`,
     )
 
-    for (const variant of variants.sort()) {
-      const variantType = getVariantType(variant, baseName)
+    for (const variant of brand.variants) {
+      const variantType = getVariantType(variant, variant.split("_")[0])
       const variantLabel = variantType ? `${variant} (${variantType})` : variant
       log.message(`    └─ ${variantLabel}`)
     }
@@ -127,19 +159,49 @@ const displayLogosGrouped = (logos: string[], searchTerm?: string): void => {
   )
 }
 
-const displayLogosSimple = (logos: string[], searchTerm?: string): void => {
-  if (searchTerm) {
+const displayListError = (message: string, flags: ListCommandFlags): void => {
+  if (flags.json) {
+    displayJson({ error: message })
+    return
+  }
+
+  displayError(message)
+}
+
+const displayLogosJson = (brands: LogoBrand[]): void => {
+  displayJson(
+    brands.map((brand) => ({
+      aliases: brand.aliases,
+      categories: brand.categories,
+      id: brand.id,
+      name: brand.name,
+      variants: brand.variants.map((variant) => ({
+        name: variant,
+        type: getVariantType(variant, variant.split("_")[0]),
+      })),
+      website: brand.website,
+    })),
+  )
+}
+
+const displayLogosSimple = (
+  brands: LogoBrand[],
+  flags: ListCommandFlags,
+): void => {
+  const filter = describeFilter(flags)
+
+  if (filter) {
     intro(
-      `${color.info("Found")} ${color.highlight(String(logos.length))} logos matching "${color.highlight(searchTerm)}"`,
+      `${color.info("Found")} ${color.highlight(String(brands.length))} logos ${filter}`,
     )
   } else {
     intro(
-      `${color.info("Available logos")} (${color.highlight(String(logos.length))})`,
+      `${color.info("Available logos")} (${color.highlight(String(brands.length))})`,
     )
   }
 
   const columns = 4
-  const rows = Math.ceil(logos.length / columns)
+  const rows = Math.ceil(brands.length / columns)
 
   for (let row = 0; row < rows; row++) {
     const rowLogos: string[] = []
@@ -147,8 +209,8 @@ const displayLogosSimple = (logos: string[], searchTerm?: string): void => {
     for (let col = 0; col < columns; col++) {
       const index = row + col * rows
 
-      if (index < logos.length) {
-        rowLogos.push(logos[index].padEnd(20))
+      if (index < brands.length) {
+        rowLogos.push(brands[index].id.padEnd(20))
       }
     }
 
@@ -165,48 +227,74 @@ const displayLogosSimple = (logos: string[], searchTerm?: string): void => {
 export const runListCommand = async (
   flags: ListCommandFlags,
 ): Promise<number> => {
+  if (flags.category && !isLogoCategory(flags.category)) {
+    if (flags.json) {
+      displayJson({
+        categories: logoCategories,
+        error: `Unknown category "${flags.category}"`,
+      })
+      return 1
+    }
+
+    displayError(`Unknown category "${flags.category}"`)
+    log.info(`Available categories: ${logoCategories.join(", ")}`)
+    return 1
+  }
+
   try {
-    const availableLogos = await getAvailableLogos()
+    const availableLogos = new Set(await getAvailableLogos())
 
-    if (0 === availableLogos.length) {
-      displayError("No logos found in library")
+    if (0 === availableLogos.size) {
+      displayListError("No logos found in library", flags)
       return 1
     }
 
-    let filteredLogos = availableLogos
+    // Only list brands and variants that exist in the library folder
+    let brands = getBrands()
+      .map((brand) => ({
+        ...brand,
+        variants: brand.variants.filter((variant) =>
+          availableLogos.has(variant),
+        ),
+      }))
+      .filter((brand) => 0 < brand.variants.length)
+
+    if (flags.category) {
+      const category = flags.category
+      brands = brands.filter((brand) =>
+        brand.categories.some((value) => value === category),
+      )
+    }
 
     if (flags.search) {
-      const searchTerm = flags.search.toLowerCase()
-      filteredLogos = availableLogos.filter((logo) =>
-        logo.toLowerCase().includes(searchTerm),
-      )
+      const searchTerm = flags.search
+      brands = brands.filter((brand) => brandMatches(brand, searchTerm))
+    }
 
-      if (0 === filteredLogos.length) {
-        intro(color.info("Search results"))
-        log.warning(
-          `${color.warning("No logos found matching")} "${color.highlight(flags.search)}"`,
-        )
-        outro(
-          `Try a different search term or run ${color.command("brandcn list")} to see all available logos.`,
-        )
-        return 0
-      }
+    if (flags.json) {
+      displayLogosJson(brands)
+      return 0
+    }
+
+    if (0 === brands.length) {
+      intro(color.info("Search results"))
+      log.warning(`${color.warning("No logos found")} ${describeFilter(flags)}`)
+      outro(
+        `Try a different search term or run ${color.command("brandcn list")} to see all available logos.`,
+      )
+      return 0
     }
 
     if (flags.variants) {
-      displayLogosGrouped(filteredLogos, flags.search)
+      displayLogosGrouped(brands, flags)
       return 0
     }
 
-    displayLogosSimple(filteredLogos, flags.search)
+    displayLogosSimple(brands, flags)
     return 0
   } catch (error) {
-    if (error instanceof Error) {
-      displayError(`Failed to load logos: ${error.message}`)
-      return 1
-    }
-
-    displayError("Failed to load logos: Unknown error")
+    const message = error instanceof Error ? error.message : "Unknown error"
+    displayListError(`Failed to load logos: ${message}`, flags)
     return 1
   }
 }
@@ -0,0 +1,328 @@
+import { log } from "@clack/prompts"
+import { parseArgs } from "node:util"
+
+import type { RasterImage } from "../utils/raster.js"
+
+import {
+  findBrandVariants,
+  findLogoVariants,
+  getAvailableLogos,
+  readLibraryLogo,
+} from "../utils/fs.js"
+import { displayError } from "../utils/log.js"
+import {
+  createCanvas,
+  drawImage,
+  encodePng,
+  rasterizeSvg,
+} from "../utils/raster.js"
+import { findBrand, findBrandByVariant } from "../utils/registry.js"
+import { color } from "../utils/style.js"
+import { suggestLogoNames } from "../utils/suggest.js"
+import { getSvgViewBox, normalizeColor, parseSvg } from "../utils/svg.js"
+import {
+  getColorMode,
+  getImageProtocol,
+  renderHalfBlocks,
+  renderItermImage,
+  renderKittyImage,
+} from "../utils/terminal.js"
+import { validateLogoNames } from "../utils/validate.js"
+
+const previewOptions = {
+  background: {
+    short: "b",
+    type: "string",
+  },
+  help: {
+    short: "h",
+    type: "boolean",
+  },
+  variants: {
+    short: "v",
+    type: "boolean",
+  },
+} as const
+
+export const previewCommand = {
+  description: "Draw a logo from the library in the terminal",
+  examples: [
+    "$ brandcn preview vercel",
+    "$ brandcn preview anthropic --variants",
+    "$ brandcn preview vercel_dark --background black",
+  ],
+  flags: {
+    background: {
+      char: "b",
+      description: "Draw on a background color, e.g. white or #1e1e1e",
+    },
+    help: {
+      char: "h",
+      description: "Show help for the preview command",
+    },
+    variants: {
+      char: "v",
+      description: "Show every variant of the brand side by side",
+    },
+  },
+  name: "preview",
+  usage: "brandcn preview <logo-name> [options]",
+} as const
+
+export interface PreviewCommandFlags {
+  // Hex color drawn behind the logos, transparent when unset
+  background?: string
+  variants: boolean
+}
+
+export interface PreviewParsedArgs {
+  flags: PreviewCommandFlags
+  help: boolean
+  logoName?: string
+}
+
+/**
+ * Parses a `--background` value into a hex color
+ * @throws When the value is not a hex or black/white color
+ */
+export const parseBackground = (
+  value: string | undefined,
+): string | undefined => {
+  if (undefined === value) {
+    return undefined
+  }
+
+  const background = normalizeColor(value)
+  if (!background || !/^#[0-9a-f]{6}$/.test(background)) {
+    throw new Error(
+      `Invalid background "${value}". Use a hex color, black or white`,
+    )
+  }
+
+  return background
+}
+
+export const parsePreviewArgs = (args: string[]): PreviewParsedArgs => {
+  const parsed = parseArgs({
+    allowPositionals: true,
+    args,
+    options: previewOptions,
+    strict: true,
+  })
+
+  if (1 < parsed.positionals.length) {
+    throw new Error(
+      `Expected a single logo name, got: ${parsed.positionals.join(", ")}`,
+    )
+  }
+
+  return {
+    flags: {
+      background: parseBackground(parsed.values.background),
+      variants: Boolean(parsed.values.variants),
+    },
+    help: Boolean(parsed.values.help),
+    logoName: parsed.positionals[0],
+  }
+}
+
+// Columns between logos shown side by side
+const gap = 2
+// Rows of one logo, and of each logo when showing variants
+const logoRows = 12
+const variantRows = 8
+// Image protocols get this many pixels per column, and twice that per row
+const pixelsPerColumn = 8
+
+interface PreviewLayout {
+  // Columns of the slot every logo is centered in
+  columns: number
+  // Logos drawn next to each other before wrapping
+  perLine: number
+  rows: number
+}
+
+/**
+ * Sizes the slots so the widest logo fills its slot, with the slots of one
+ * line fitting the terminal
+ * @param aspectRatios - Width to height ratio of every logo
+ * @param terminalColumns - Width of the terminal
+ */
+export function getPreviewLayout(
+  aspectRatios: number[],
+  terminalColumns: number,
+): PreviewLayout {
+  const isSingle = 1 === aspectRatios.length
+  const rows = isSingle ? logoRows : variantRows
+  const maxColumns = Math.min(terminalColumns, isSingle ? 64 : 32)
+  // Half-block pixels are square, two of them per cell
+  const widestColumns = Math.ceil(Math.max(...aspectRatios) * rows * 2)
+  const columns = Math.max(1, Math.min(maxColumns, widestColumns))
+  const perLine = Math.max(
+    1,
+    Math.floor((terminalColumns + gap) / (columns + gap)),
+  )
+
+  return {
+    columns,
+    perLine,
+    // Wide logos shrink to the slot width, so drop the empty rows below them
+    rows:
+      isSingle && widestColumns > columns
+        ? Math.max(1, Math.ceil(columns / Math.max(...aspectRatios) / 2))
+        : rows,
+  }
+}
+
+/**
+ * Logos to draw: the logo itself or the first variant of its brand, or with
+ * `variants` every variant of its brand
+ */
+function getPreviewLogos(
+  logoName: string,
+  availableLogos: string[],
+  variants: boolean,
+): string[] {
+  if (!variants) {
+    return availableLogos.includes(logoName)
+      ? [logoName]
+      : findBrandVariants(logoName, availableLogos).slice(0, 1)
+  }
+
+  const brand = findBrand(logoName) ?? findBrandByVariant(logoName)
+  return brand
+    ? brand.variants.filter((variant) => availableLogos.includes(variant))
+    : findLogoVariants(logoName, availableLogos)
+}
+
+const toRgba = (hex: string): [number, number, number, number] => [
+  Number.parseInt(hex.slice(1, 3), 16),
+  Number.parseInt(hex.slice(3, 5), 16),
+  Number.parseInt(hex.slice(5, 7), 16),
+  255,
+]
+
+/**
+ * Draws one line of logos next to each other, each centered in its slot
+ * @param scale - Pixels per column
+ */
+async function drawLine(
+  sources: string[],
+  layout: PreviewLayout,
+  scale: number,
+  background?: string,
+): Promise<RasterImage> {
+  const slotWidth = layout.columns * scale
+  const slotHeight = layout.rows * 2 * scale
+  const gapWidth = gap * scale
+  const canvas = createCanvas(
+    sources.length * slotWidth + (sources.length - 1) * gapWidth,
+    slotHeight,
+  )
+
+  for (const [index, source] of sources.entries()) {
+    const left = index * (slotWidth + gapWidth)
+
+    if (background) {
+      drawImage(
+        canvas,
+        createCanvas(slotWidth, slotHeight, toRgba(background)),
+        left,
+        0,
+      )
+    }
+
+    const image = await rasterizeSvg(source, slotWidth, slotHeight)
+    drawImage(
+      canvas,
+      image,
+      left + Math.floor((slotWidth - image.width) / 2),
+      Math.floor((slotHeight - image.height) / 2),
+    )
+  }
+
+  return canvas
+}
+
+export const runPreviewCommand = async (
+  logoName: string | undefined,
+  flags: PreviewCommandFlags,
+): Promise<number> => {
+  if (!logoName) {
+    displayError("No logo name provided")
+    return 1
+  }
+
+  const validation = validateLogoNames([logoName])
+  const [slug] = validation.validNames
+
+  if (!slug) {
+    displayError(
+      `Invalid logo name: ${validation.errors[0]?.error ?? logoName}`,
+    )
+    return 1
+  }
+
+  try {
+    const availableLogos = await getAvailableLogos()
+    const logos = getPreviewLogos(slug, availableLogos, flags.variants)
+
+    if (0 === logos.length) {
+      displayError(`Logo "${slug}" not found in library`)
+
+      const suggestions = suggestLogoNames(slug, availableLogos)
+      if (0 < suggestions.length) {
+        const names = suggestions.map((name) => color.command(name))
+        log.message(`Did you mean ${names.join(", ")}?`)
+      }
+
+      return 1
+    }
+
+    const sources = await Promise.all(logos.map(readLibraryLogo))
+    const aspectRatios = sources.map((source) => {
+      const viewBox = getSvgViewBox(parseSvg(source))
+      return viewBox ? viewBox.width / viewBox.height : 1
+    })
+    const layout = getPreviewLayout(aspectRatios, process.stdout.columns || 80)
+    const protocol = process.stdout.isTTY ? getImageProtocol() : null
+
+    for (let start = 0; start < logos.length; start += layout.perLine) {
+      const line = logos.slice(start, start + layout.perLine)
+      const lineSources = sources.slice(start, start + layout.perLine)
+      const columns = line.length * (layout.columns + gap) - gap
+
+      if (protocol) {
+        const png = encodePng(
+          await drawLine(
+            lineSources,
+            layout,
+            pixelsPerColumn,
+            flags.background,
+          ),
+        )
+        const render =
+          "kitty" === protocol ? renderKittyImage : renderItermImage
+        console.log(render(png, columns, layout.rows))
+      } else {
+        const image = await drawLine(lineSources, layout, 1, flags.background)
+        console.log(renderHalfBlocks(image, getColorMode()).join("\n"))
+      }
+
+      const labels = line.map((logo) =>
+        (logo.length > layout.columns
+          ? `${logo.slice(0, layout.columns - 1)}…`
+          : logo
+        ).padEnd(layout.columns),
+      )
+      console.log(color.dim(labels.join(" ".repeat(gap)).trimEnd()))
+    }
+
+    return 0
+  } catch (error) {
+    displayError(
+      error instanceof Error ? error.message : "An unexpected error occurred",
+    )
+    return 1
+  }
+}
@@ -0,0 +1,227 @@
+import { log, outro } from "@clack/prompts"
+import { parseArgs } from "node:util"
+
+import type { LogoOperationResult, RemoveLogosOptions } from "../types/logos.js"
+
+import { applyConfigDefaults, loadConfig } from "../utils/config.js"
+import { getTargetLogosPath, removeLogos } from "../utils/fs.js"
+import { LogoSpinner, displayError } from "../utils/log.js"
+import { color } from "../utils/style.js"
+import { parseFramework, validateLogoNames } from "../utils/validate.js"
+
+const removeOptions = {
+  dark: {
+    short: "d",
+    type: "boolean",
+  },
+  force: {
+    short: "f",
+    type: "boolean",
+  },
+  framework: {
+    short: "F",
+    type: "string",
+  },
+  help: {
+    short: "h",
+    type: "boolean",
+  },
+  light: {
+    short: "l",
+    type: "boolean",
+  },
+  wordmark: {
+    short: "w",
+    type: "boolean",
+  },
+} as const
+
+export const removeCommand = {
+  description: "Remove brand logos from your project",
+  examples: [
+    "$ brandcn remove vercel",
+    "$ brandcn remove vercel github --dark",
+    "$ brandcn remove github --wordmark --force",
+    "$ brandcn remove vercel --framework svelte",
+  ],
+  flags: {
+    dark: {
+      char: "d",
+      description: "Remove only dark variant of the logo",
+    },
+    force: {
+      char: "f",
+      description: "Remove files even if they were edited after install",
+    },
+    framework: {
+      char: "F",
+      description:
+        "Framework the components were generated for (default: react)",
+    },
+    help: {
+      char: "h",
+      description: "Show help for the remove command",
+    },
+    light: {
+      char: "l",
+      description: "Remove only light variant of the logo",
+    },
+    wordmark: {
+      char: "w",
+      description: "Remove only wordmark variant of the logo",
+    },
+  },
+  name: "remove",
+  usage: "brandcn remove <logo-name> [logo-names...] [options]",
+} as const
+
+export interface RemoveParsedArgs {
+  flags: RemoveLogosOptions
+  help: boolean
+  logoNames: string[]
+}
+
+export const parseRemoveArgs = (args: string[]): RemoveParsedArgs => {
+  const parsed = parseArgs({
+    allowPositionals: true,
+    args,
+    options: removeOptions,
+    strict: true,
+  })
+
+  return {
+    flags: {
+      dark: Boolean(parsed.values.dark),
+      force: Boolean(parsed.values.force),
+      framework: parseFramework(parsed.values.framework),
+      light: Boolean(parsed.values.light),
+      wordmark: Boolean(parsed.values.wordmark),
+    },
+    help: Boolean(parsed.values.help),
+    logoNames: parsed.positionals,
+  }
+}
+
+const displayResults = (results: LogoOperationResult[]): void => {
+  log.message("")
+
+  const removed = results.filter((result) => result.success && !result.skipped)
+  const skipped = results.filter((result) => result.success && result.skipped)
+  const failed = results.filter((result) => !result.success)
+
+  if (0 < removed.length) {
+    log.success(color.success("Removed logos"))
+    for (const result of removed) {
+      const files = result.removedFiles?.join(", ") ?? result.logoName
+      log.step(`${color.success("removed")} ${files}`)
+    }
+  }
+
+  if (0 < skipped.length) {
+    log.info(color.warning("Skipped (not installed)"))
+    for (const result of skipped) {
+      log.step(`${color.warning("skipped")} ${result.logoName}`)
+    }
+  }
+
+  if (0 < failed.length) {
+    log.error(color.error("Failed"))
+    for (const result of failed) {
+      log.step(`${color.error("error")} ${result.logoName}: ${result.error}`)
+    }
+  }
+}
+
+export const runRemoveCommand = async (
+  logoNames: string[],
+  flags: RemoveLogosOptions,
+): Promise<number> => {
+  if (0 === logoNames.length) {
+    displayError("No logo names provided")
+    return 1
+  }
+
+  const validation = validateLogoNames(logoNames)
+
+  if (validation.hasErrors) {
+    displayError("Invalid logo names:")
+    for (const error of validation.errors) {
+      log.step(`${error.name}: ${error.error}`)
+    }
+
+    return 1
+  }
+
+  let options: RemoveLogosOptions
+  let targetPath: string
+  try {
+    const loaded = loadConfig()
+    options = applyConfigDefaults(flags, loaded?.config ?? null)
+    targetPath = getTargetLogosPath(loaded)
+  } catch (error) {
+    displayError(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+
+  const spinner = new LogoSpinner(
+    `Removing ${validation.validNames.length} logo(s)...`,
+  )
+  spinner.start()
+
+  try {
+    const results = await removeLogos(
+      validation.validNames,
+      options,
+      targetPath,
+    )
+
+    spinner.stop()
+    displayResults(results)
+
+    const hasFailures = results.some((result) => !result.success)
+    const hasSuccesses = results.some((result) => result.success)
+    // Themed components go along with logos counted already
+    const removedCount = results.filter(
+      (result) => result.success && !result.skipped && !result.themed,
+    ).length
+
+    if (hasFailures && !hasSuccesses) {
+      outro(
+        color.error("All operations failed. Please check the errors above."),
+      )
+      return 1
+    }
+
+    if (hasFailures && hasSuccesses) {
+      outro(
+        color.warning(
+          `Completed with warnings. ${removedCount} logos removed.`,
+        ),
+      )
+      return 0
+    }
+
+    if (0 < removedCount) {
+      const logoSuffix = 1 === removedCount ? "" : "s"
+      outro(
+        color.success(
+          `Successfully removed ${removedCount} logo${logoSuffix}.`,
+        ),
+      )
+      return 0
+    }
+
+    outro(color.info("None of the logos were installed in your project."))
+    return 0
+  } catch (error) {
+    spinner.fail("Operation failed")
+
+    if (error instanceof Error) {
+      outro(color.error(error.message))
+      return 1
+    }
+
+    outro(color.error("An unexpected error occurred"))
+    return 1
+  }
+}
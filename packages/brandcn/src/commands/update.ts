@@ -0,0 +1,213 @@
+import { log, outro } from "@clack/prompts"
+import { parseArgs } from "node:util"
+
+import type { LogoOperationResult, UpdateLogosOptions } from "../types/logos.js"
+
+import { loadConfig } from "../utils/config.js"
+import { getTargetLogosPath, updateLogos } from "../utils/fs.js"
+import { lockFileName } from "../utils/lock.js"
+import {
+  LogoSpinner,
+  createConflictPrompt,
+  displayError,
+  displaySanitizerWarnings,
+  isInteractive,
+} from "../utils/log.js"
+import { color } from "../utils/style.js"
+import { validateLogoNames } from "../utils/validate.js"
+
+const updateOptions = {
+  force: {
+    short: "f",
+    type: "boolean",
+  },
+  help: {
+    short: "h",
+    type: "boolean",
+  },
+} as const
+
+export const updateCommand = {
+  description: "Refresh installed logos from the current library",
+  examples: [
+    "$ brandcn update",
+    "$ brandcn update vercel github",
+    "$ brandcn update --force",
+  ],
+  flags: {
+    force: {
+      char: "f",
+      description: "Overwrite files that were edited after install",
+    },
+    help: {
+      char: "h",
+      description: "Show help for the update command",
+    },
+  },
+  name: "update",
+  usage: "brandcn update [logo-names...] [options]",
+} as const
+
+export interface UpdateParsedArgs {
+  flags: UpdateLogosOptions
+  help: boolean
+  logoNames: string[]
+}
+
+export const parseUpdateArgs = (args: string[]): UpdateParsedArgs => {
+  const parsed = parseArgs({
+    allowPositionals: true,
+    args,
+    options: updateOptions,
+    strict: true,
+  })
+
+  return {
+    flags: {
+      force: Boolean(parsed.values.force),
+    },
+    help: Boolean(parsed.values.help),
+    logoNames: parsed.positionals,
+  }
+}
+
+const displayResults = (results: LogoOperationResult[]): void => {
+  log.message("")
+
+  const updated = results.filter((result) => result.success && result.updated)
+  const kept = results.filter(
+    (result) => result.success && 0 < (result.skippedFiles?.length ?? 0),
+  )
+  const failed = results.filter((result) => !result.success)
+
+  if (0 < updated.length) {
+    log.success(color.success("Updated logos"))
+    for (const result of updated) {
+      const files = [
+        ...(result.updatedFiles ?? []),
+        ...(result.createdFiles ?? []),
+      ].join(", ")
+      log.step(`${color.success("updated")} ${files}`)
+    }
+  }
+
+  displaySanitizerWarnings(updated)
+
+  if (0 < kept.length) {
+    log.info(color.warning("Changed in the library, kept your local changes"))
+    for (const result of kept) {
+      log.step(
+        `${color.warning("kept")} ${result.skippedFiles?.join(", ") ?? result.logoName}`,
+      )
+    }
+  }
+
+  if (0 < failed.length) {
+    log.error(color.error("Failed"))
+    for (const result of failed) {
+      log.step(`${color.error("error")} ${result.logoName}: ${result.error}`)
+    }
+  }
+}
+
+export const runUpdateCommand = async (
+  logoNames: string[],
+  flags: UpdateLogosOptions,
+): Promise<number> => {
+  const validation = validateLogoNames(logoNames)
+
+  if (validation.hasErrors) {
+    displayError("Invalid logo names:")
+    for (const error of validation.errors) {
+      log.step(`${error.name}: ${error.error}`)
+    }
+
+    return 1
+  }
+
+  let targetPath: string
+  try {
+    targetPath = getTargetLogosPath(loadConfig())
+  } catch (error) {
+    displayError(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+
+  const spinner = new LogoSpinner("Checking installed logos...")
+  spinner.start()
+
+  try {
+    const onConflict =
+      !flags.force && isInteractive()
+        ? createConflictPrompt(spinner)
+        : undefined
+    const results = await updateLogos(
+      validation.validNames,
+      { ...flags, onConflict },
+      targetPath,
+    )
+
+    spinner.stop()
+
+    if (0 === results.length) {
+      outro(
+        color.info(
+          `No logos are recorded in ${lockFileName}. Logos are recorded when you add them.`,
+        ),
+      )
+      return 0
+    }
+
+    displayResults(results)
+
+    const hasFailures = results.some((result) => !result.success)
+    const hasSuccesses = results.some((result) => result.success)
+    const updatedCount = results.filter(
+      (result) => result.success && result.updated,
+    ).length
+    const upToDateCount = results.filter(
+      (result) => result.success && "Up to date" === result.reason,
+    ).length
+
+    if (hasFailures && !hasSuccesses) {
+      outro(
+        color.error("All operations failed. Please check the errors above."),
+      )
+      return 1
+    }
+
+    if (hasFailures && hasSuccesses) {
+      outro(
+        color.warning(
+          `Completed with warnings. ${updatedCount} logos updated.`,
+        ),
+      )
+      return 0
+    }
+
+    if (0 < updatedCount) {
+      const logoSuffix = 1 === updatedCount ? "" : "s"
+      const upToDateMessage =
+        0 < upToDateCount ? ` (${upToDateCount} already up to date)` : ""
+      outro(
+        color.success(
+          `Successfully updated ${updatedCount} logo${logoSuffix}${upToDateMessage}.`,
+        ),
+      )
+      return 0
+    }
+
+    outro(color.info("All logos are up to date."))
+    return 0
+  } catch (error) {
+    spinner.fail("Operation failed")
+
+    if (error instanceof Error) {
+      outro(color.error(error.message))
+      return 1
+    }
+
+    outro(color.error("An unexpected error occurred"))
+    return 1
+  }
+}
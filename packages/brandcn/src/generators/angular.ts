@@ -0,0 +1,198 @@
+import type {
+  ComponentExport,
+  ComponentGenerator,
+  ComponentOptions,
+  SpriteSymbol,
+  ThemedLogoPair,
+} from "../types/logos.js"
+
+import {
+  getComponentName,
+  getInnerMarkup,
+  getLogoAltText,
+  getLogoFileName,
+  getSelectorName,
+  getSizeDeclaration,
+  getTemplateRootAttributes,
+  getThemeStyles,
+  prepareSvg,
+  printSpriteSymbols,
+  printTemplateAttributes,
+  spriteComponentNotice,
+  themePropType,
+} from "./shared.js"
+
+function escapeTemplateLiteral(value: string): string {
+  return value.replace(/[`\\]/g, "\\$&").replace(/\$\{/g, "\\${")
+}
+
+function createImgComponentSource(
+  logoName: string,
+  svgSource: string,
+  fileName: string,
+): string {
+  const componentName = getComponentName(logoName)
+  const size = getSizeDeclaration(logoName, svgSource)
+  const [alt] = printTemplateAttributes({ alt: getLogoAltText(logoName) })
+  const template = `<img [src]="src" ${alt} />`
+
+  return [
+    'import { Component } from "@angular/core"',
+    "",
+    ...(size ? [size, ""] : []),
+    "@Component({",
+    `  selector: "${getSelectorName(componentName)}",`,
+    "  standalone: true,",
+    `  template: \`${escapeTemplateLiteral(template)}\`,`,
+    "})",
+    `export class ${componentName}Component {`,
+    `  protected readonly src = new URL("./${fileName}.svg", import.meta.url).href`,
+    "}",
+    "",
+  ].join("\n")
+}
+
+// Angular's sanitizer strips SVG from [innerHTML], so the bundled markup is
+// explicitly trusted. Attributes on the host do not reach the <svg>, so
+// currentColor logos take their color as an input.
+function createInlineComponentSource(
+  logoName: string,
+  svgSource: string,
+  currentColor = false,
+): string {
+  const componentName = getComponentName(logoName)
+  const size = getSizeDeclaration(logoName, svgSource)
+  const root = prepareSvg(svgSource)
+  const attributes = printTemplateAttributes(
+    getTemplateRootAttributes(root, logoName),
+  )
+  const bindings = currentColor
+    ? ['[attr.color]="color"', '[innerHTML]="content"']
+    : ['[innerHTML]="content"']
+  const template = `<svg ${[...attributes, ...bindings].join(" ")}></svg>`
+
+  return [
+    currentColor
+      ? 'import { Component, Input, inject } from "@angular/core"'
+      : 'import { Component, inject } from "@angular/core"',
+    'import { DomSanitizer } from "@angular/platform-browser"',
+    "",
+    ...(size ? [size, ""] : []),
+    "@Component({",
+    `  selector: "${getSelectorName(componentName)}",`,
+    "  standalone: true,",
+    `  template: \`${escapeTemplateLiteral(template)}\`,`,
+    "})",
+    `export class ${componentName}Component {`,
+    ...(currentColor ? ["  @Input() color?: string", ""] : []),
+    "  protected readonly content = inject(DomSanitizer).bypassSecurityTrustHtml(",
+    `    ${JSON.stringify(getInnerMarkup(root))},`,
+    "  )",
+    "}",
+    "",
+  ].join("\n")
+}
+
+// The host element is the wrapper the theme styles select on, so the styles
+// are not encapsulated
+function createThemedComponentSource(
+  pair: ThemedLogoPair,
+  options: ComponentOptions,
+): string {
+  const componentName = getComponentName(pair.baseName)
+  const darkName = `${getComponentName(pair.dark)}Component`
+  const lightName = `${getComponentName(pair.light)}Component`
+  const darkSelector = getSelectorName(getComponentName(pair.dark))
+  const lightSelector = getSelectorName(getComponentName(pair.light))
+  const darkFile = getLogoFileName(pair.dark, options.fileNaming)
+  const lightFile = getLogoFileName(pair.light, options.fileNaming)
+
+  return [
+    'import { Component, Input, ViewEncapsulation } from "@angular/core"',
+    "",
+    `import { ${darkName} } from "./${darkFile}.component"`,
+    `import { ${lightName} } from "./${lightFile}.component"`,
+    "",
+    "@Component({",
+    `  selector: "${getSelectorName(componentName)}",`,
+    "  standalone: true,",
+    `  imports: [${darkName}, ${lightName}],`,
+    "  template: `",
+    '    @if (theme === "dark") {',
+    `      <${darkSelector} />`,
+    '    } @else if (theme === "light") {',
+    `      <${lightSelector} />`,
+    "    } @else {",
+    `      <${lightSelector} data-logo-variant="light" />`,
+    `      <${darkSelector} data-logo-variant="dark" />`,
+    "    }",
+    "  `,",
+    "  styles: [",
+    ...getThemeStyles().map((rule) => `    ${JSON.stringify(rule)},`),
+    "  ],",
+    "  encapsulation: ViewEncapsulation.None,",
+    '  host: { "[attr.data-logo-theme]": "theme", style: "display: contents" },',
+    "})",
+    `export class ${componentName}Component {`,
+    `  @Input() theme: ${themePropType} = "auto"`,
+    "}",
+    "",
+  ].join("\n")
+}
+
+// SVG attributes are bound with `attr.`, as <svg> and <use> have no
+// properties of those names
+function createSpriteComponentSource(
+  symbols: SpriteSymbol[],
+  spriteFile: string,
+): string {
+  return [
+    `// ${spriteComponentNotice}`,
+    'import { Component, Input } from "@angular/core"',
+    "",
+    ...printSpriteSymbols(symbols),
+    "",
+    "@Component({",
+    `  selector: "${getSelectorName("Logo")}",`,
+    "  standalone: true,",
+    "  template: `",
+    '    <svg [attr.viewBox]="symbols[name].viewBox" role="img" [attr.aria-label]="symbols[name].label">',
+    "      <use [attr.href]=\"sprite + '#' + name\" />",
+    "    </svg>",
+    "  `,",
+    "})",
+    "export class LogoComponent {",
+    "  @Input({ required: true }) name!: SpriteLogoName",
+    "",
+    `  protected readonly sprite = new URL("./${spriteFile}", import.meta.url).href`,
+    "  protected readonly symbols = symbols",
+    "}",
+    "",
+  ].join("\n")
+}
+
+export const angularGenerator: ComponentGenerator = {
+  createSource: (
+    logoName: string,
+    svgSource: string,
+    options: ComponentOptions,
+  ): string =>
+    "inline" === options.componentStyle
+      ? createInlineComponentSource(logoName, svgSource, options.currentColor)
+      : createImgComponentSource(
+          logoName,
+          svgSource,
+          getLogoFileName(logoName, options.fileNaming),
+        ),
+  createSpriteSource: createSpriteComponentSource,
+  createThemedSource: createThemedComponentSource,
+  extension: "component.ts",
+  getExport: (
+    logoName: string,
+    options: ComponentOptions,
+  ): ComponentExport => ({
+    from: `./${getLogoFileName(logoName, options.fileNaming)}.component`,
+    isDefault: false,
+    name: `${getComponentName(logoName)}Component`,
+  }),
+}
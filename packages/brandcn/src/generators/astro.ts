@@ -0,0 +1,152 @@
+import type {
+  ComponentExport,
+  ComponentGenerator,
+  ComponentOptions,
+  SpriteSymbol,
+  ThemedLogoPair,
+} from "../types/logos.js"
+
+import {
+  getComponentName,
+  getInnerMarkup,
+  getLogoAltText,
+  getLogoFileName,
+  getTemplateRootAttributes,
+  getThemeStyles,
+  prepareSvg,
+  printSpriteSymbols,
+  printTemplateAttributes,
+  spriteComponentNotice,
+  themePropType,
+} from "./shared.js"
+
+// Astro renders on the server, where `new URL(..., import.meta.url)` does not
+// point at a public asset, so the SVG is imported as an image instead
+function createImgComponentSource(logoName: string, fileName: string): string {
+  const [alt] = printTemplateAttributes({ alt: getLogoAltText(logoName) })
+
+  return [
+    "---",
+    'import type { HTMLAttributes } from "astro/types"',
+    "",
+    `import logo from "./${fileName}.svg"`,
+    "",
+    'type Props = Omit<HTMLAttributes<"img">, "src">',
+    "---",
+    "",
+    `<img src={logo.src} ${alt} {...Astro.props} />`,
+    "",
+  ].join("\n")
+}
+
+function createInlineComponentSource(
+  logoName: string,
+  svgSource: string,
+): string {
+  const root = prepareSvg(svgSource)
+  const attributes = printTemplateAttributes(
+    getTemplateRootAttributes(root, logoName),
+  )
+
+  return [
+    "---",
+    'import type { HTMLAttributes } from "astro/types"',
+    "",
+    'type Props = HTMLAttributes<"svg">',
+    "",
+    `const content = ${JSON.stringify(getInnerMarkup(root))}`,
+    "---",
+    "",
+    `<svg ${[...attributes, "{...Astro.props}", "set:html={content}"].join(" ")} />`,
+    "",
+  ].join("\n")
+}
+
+function createThemedComponentSource(
+  pair: ThemedLogoPair,
+  options: ComponentOptions,
+): string {
+  const darkName = getComponentName(pair.dark)
+  const lightName = getComponentName(pair.light)
+  const darkFile = getLogoFileName(pair.dark, options.fileNaming)
+  const lightFile = getLogoFileName(pair.light, options.fileNaming)
+
+  return [
+    "---",
+    'import type { ComponentProps } from "astro/types"',
+    "",
+    `import ${darkName} from "./${darkFile}.astro"`,
+    `import ${lightName} from "./${lightFile}.astro"`,
+    "",
+    `type Props = ComponentProps<typeof ${lightName}> & { theme?: ${themePropType} }`,
+    "",
+    'const { theme = "auto", ...props } = Astro.props',
+    "---",
+    "",
+    '{theme === "dark" && <' + darkName + " {...props} />}",
+    '{theme === "light" && <' + lightName + " {...props} />}",
+    '{theme !== "dark" && theme !== "light" && (',
+    '  <span data-logo-theme={theme} style="display: contents">',
+    `    <${lightName} data-logo-variant="light" {...props} />`,
+    `    <${darkName} data-logo-variant="dark" {...props} />`,
+    "  </span>",
+    ")}",
+    "",
+    "<style is:global>",
+    ...getThemeStyles(),
+    "</style>",
+    "",
+  ].join("\n")
+}
+
+// The sprite sheet is imported as an image, like the SVG of img components
+function createSpriteComponentSource(
+  symbols: SpriteSymbol[],
+  spriteFile: string,
+): string {
+  return [
+    "---",
+    `// ${spriteComponentNotice}`,
+    'import type { HTMLAttributes } from "astro/types"',
+    "",
+    `import sprite from "./${spriteFile}"`,
+    "",
+    ...printSpriteSymbols(symbols),
+    "",
+    'type Props = Omit<HTMLAttributes<"svg">, "viewBox"> & { name: SpriteLogoName }',
+    "",
+    "const { name, ...props } = Astro.props",
+    "const { label, viewBox } = symbols[name]",
+    "---",
+    "",
+    '<svg viewBox={viewBox} role="img" aria-label={label} {...props}>',
+    "  <use href={`${sprite.src}#${name}`} />",
+    "</svg>",
+    "",
+  ].join("\n")
+}
+
+export const astroGenerator: ComponentGenerator = {
+  createSource: (
+    logoName: string,
+    svgSource: string,
+    options: ComponentOptions,
+  ): string =>
+    "inline" === options.componentStyle
+      ? createInlineComponentSource(logoName, svgSource)
+      : createImgComponentSource(
+          logoName,
+          getLogoFileName(logoName, options.fileNaming),
+        ),
+  createSpriteSource: createSpriteComponentSource,
+  createThemedSource: createThemedComponentSource,
+  extension: "astro",
+  getExport: (
+    logoName: string,
+    options: ComponentOptions,
+  ): ComponentExport => ({
+    from: `./${getLogoFileName(logoName, options.fileNaming)}.astro`,
+    isDefault: true,
+    name: getComponentName(logoName),
+  }),
+}
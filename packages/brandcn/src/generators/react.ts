@@ -0,0 +1,378 @@
+import type {
+  ComponentExport,
+  ComponentGenerator,
+  ComponentOptions,
+  SpriteSymbol,
+  ThemedLogoPair,
+} from "../types/logos.js"
+import type { SvgElement } from "../utils/svg.js"
+
+import {
+  getAccessibilityAttributes,
+  getComponentName,
+  getLogoAltText,
+  getLogoFileName,
+  getSizeDeclaration,
+  getThemeStyles,
+  hasStyleSheet,
+  isRenderableAttribute,
+  prepareSvg,
+  printJsxElement,
+  printSpriteSymbols,
+  spriteComponentNotice,
+  themePropType,
+  toJsxAttributeValue,
+} from "./shared.js"
+
+// Hyphenated SVG attributes that React expects in camelCase. Anything else
+// hyphenated is passed through untouched, which React and TypeScript allow.
+const camelCaseAttributes = new Set([
+  "accent-height",
+  "alignment-baseline",
+  "arabic-form",
+  "baseline-shift",
+  "cap-height",
+  "clip-path",
+  "clip-rule",
+  "color-interpolation",
+  "color-interpolation-filters",
+  "color-profile",
+  "color-rendering",
+  "dominant-baseline",
+  "enable-background",
+  "fill-opacity",
+  "fill-rule",
+  "flood-color",
+  "flood-opacity",
+  "font-family",
+  "font-size",
+  "font-size-adjust",
+  "font-stretch",
+  "font-style",
+  "font-variant",
+  "font-weight",
+  "glyph-name",
+  "glyph-orientation-horizontal",
+  "glyph-orientation-vertical",
+  "horiz-adv-x",
+  "horiz-origin-x",
+  "image-rendering",
+  "letter-spacing",
+  "lighting-color",
+  "marker-end",
+  "marker-mid",
+  "marker-start",
+  "overline-position",
+  "overline-thickness",
+  "paint-order",
+  "pointer-events",
+  "rendering-intent",
+  "shape-rendering",
+  "stop-color",
+  "stop-opacity",
+  "strikethrough-position",
+  "strikethrough-thickness",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "stroke-width",
+  "text-anchor",
+  "text-decoration",
+  "text-rendering",
+  "underline-position",
+  "underline-thickness",
+  "unicode-bidi",
+  "unicode-range",
+  "units-per-em",
+  "vector-effect",
+  "vert-adv-y",
+  "vert-origin-x",
+  "vert-origin-y",
+  "word-spacing",
+  "writing-mode",
+  "x-height",
+])
+
+// Presentation properties that can move from an inline style to an attribute,
+// where React's types accept any value
+const presentationProperties = new Set([
+  ...camelCaseAttributes,
+  "clip",
+  "color",
+  "cursor",
+  "direction",
+  "display",
+  "fill",
+  "filter",
+  "mask",
+  "opacity",
+  "overflow",
+  "stroke",
+  "visibility",
+])
+
+// Obsolete or editor specific style properties that browsers ignore and that
+// React's CSSProperties type rejects
+const droppedStyleProperties = new Set([
+  "block-progression",
+  "enable-background",
+  "solid-color",
+  "solid-opacity",
+])
+
+function camelCase(value: string): string {
+  return value.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase())
+}
+
+function toJsxAttributeName(name: string): string {
+  if ("class" === name) {
+    return "className"
+  }
+
+  // xlink:href to xlinkHref, xml:space to xmlSpace, xmlns:xlink to xmlnsXlink
+  if (name.includes(":")) {
+    const [namespace = "", localName = ""] = name.split(":")
+    return `${namespace}${localName.charAt(0).toUpperCase()}${camelCase(localName.slice(1))}`
+  }
+
+  return camelCaseAttributes.has(name) ? camelCase(name) : name
+}
+
+function parseStyle(style: string): Map<string, string> {
+  const declarations = new Map<string, string>()
+
+  for (const declaration of style.split(";")) {
+    const separator = declaration.indexOf(":")
+    const property = declaration.slice(0, separator).trim().toLowerCase()
+    const value = declaration.slice(separator + 1).trim()
+
+    if (
+      -1 === separator ||
+      0 === property.length ||
+      0 === value.length ||
+      droppedStyleProperties.has(property) ||
+      /^-(?!webkit-|moz-|ms-)/.test(property)
+    ) {
+      continue
+    }
+
+    declarations.set(property, value)
+  }
+
+  return declarations
+}
+
+function toStyleObject(declarations: Map<string, string>): string {
+  const properties = [...declarations].map(([property, value]) => {
+    const key = camelCase(property.replace(/^-ms-/, "ms-"))
+    return `${key}: ${JSON.stringify(value)}`
+  })
+
+  return `{{ ${properties.join(", ")} }}`
+}
+
+function toJsxAttributes(
+  element: SvgElement,
+  inlineStylesToAttributes: boolean,
+): string[] {
+  const attributes = new Map<string, string>()
+  const style = parseStyle(element.attributes.style ?? "")
+
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if ("style" !== name) {
+      attributes.set(toJsxAttributeName(name), toJsxAttributeValue(value))
+    }
+  }
+
+  // Inline styles beat presentation attributes, so moving a property over
+  // overrides any attribute of the same name. This is only safe while no
+  // <style> sheet could otherwise win over the attribute.
+  if (inlineStylesToAttributes) {
+    for (const [property, value] of style) {
+      if (presentationProperties.has(property)) {
+        style.delete(property)
+
+        if (!isRenderableAttribute(property, value)) {
+          continue
+        }
+
+        attributes.set(toJsxAttributeName(property), toJsxAttributeValue(value))
+      }
+    }
+  }
+
+  if (0 < style.size) {
+    attributes.set("style", toStyleObject(style))
+  }
+
+  return [...attributes].map(([name, value]) => `${name}=${value}`)
+}
+
+function createImgComponentSource(
+  logoName: string,
+  svgSource: string,
+  fileName: string,
+): string {
+  const componentName = getComponentName(logoName)
+  const size = getSizeDeclaration(logoName, svgSource)
+
+  return [
+    'import type { ComponentProps } from "react"',
+    "",
+    `const src = new URL("./${fileName}.svg", import.meta.url).toString()`,
+    "",
+    `export type ${componentName}Props = Omit<ComponentProps<"img">, "src">`,
+    "",
+    ...(size ? [size, ""] : []),
+    `export function ${componentName}(props: ${componentName}Props) {`,
+    `  return <img src={src} alt=${toJsxAttributeValue(getLogoAltText(logoName))} {...props} />`,
+    "}",
+    "",
+    `export default ${componentName}`,
+    "",
+  ].join("\n")
+}
+
+function createInlineComponentSource(
+  logoName: string,
+  svgSource: string,
+): string {
+  const componentName = getComponentName(logoName)
+  const size = getSizeDeclaration(logoName, svgSource)
+  const root = prepareSvg(svgSource)
+  const inlineStylesToAttributes = !hasStyleSheet(root)
+  const getAttributes = (element: SvgElement) =>
+    toJsxAttributes(element, inlineStylesToAttributes)
+  const attributes = [
+    ...getAttributes(root),
+    ...Object.entries(getAccessibilityAttributes(root, logoName)).map(
+      ([name, value]) => `${name}="${value}"`,
+    ),
+    "ref={ref}",
+    "{...props}",
+  ]
+
+  return [
+    'import { forwardRef } from "react"',
+    'import type { SVGProps } from "react"',
+    "",
+    `export type ${componentName}Props = SVGProps<SVGSVGElement>`,
+    "",
+    ...(size ? [size, ""] : []),
+    `export const ${componentName} = forwardRef<SVGSVGElement, ${componentName}Props>(`,
+    `  function ${componentName}(props, ref) {`,
+    "    return (",
+    ...printJsxElement(root, 3, getAttributes, attributes),
+    "    )",
+    "  },",
+    ")",
+    "",
+    `export default ${componentName}`,
+    "",
+  ].join("\n")
+}
+
+function createThemedComponentSource(
+  pair: ThemedLogoPair,
+  options: ComponentOptions,
+): string {
+  const componentName = getComponentName(pair.baseName)
+  const darkName = getComponentName(pair.dark)
+  const lightName = getComponentName(pair.light)
+  const darkFile = getLogoFileName(pair.dark, options.fileNaming)
+  const lightFile = getLogoFileName(pair.light, options.fileNaming)
+
+  return [
+    'import type { ComponentPropsWithoutRef } from "react"',
+    "",
+    `import { ${darkName} } from "./${darkFile}"`,
+    `import { ${lightName} } from "./${lightFile}"`,
+    "",
+    `const styles = ${JSON.stringify(getThemeStyles().join("\n"))}`,
+    "",
+    `export type ${componentName}Props = ComponentPropsWithoutRef<typeof ${lightName}> & {`,
+    `  theme?: ${themePropType}`,
+    "}",
+    "",
+    `export function ${componentName}({ theme = "auto", ...props }: ${componentName}Props) {`,
+    '  if (theme === "dark") {',
+    `    return <${darkName} {...props} />`,
+    "  }",
+    "",
+    '  if (theme === "light") {',
+    `    return <${lightName} {...props} />`,
+    "  }",
+    "",
+    "  return (",
+    '    <span data-logo-theme={theme} style={{ display: "contents" }}>',
+    "      <style>{styles}</style>",
+    `      <${lightName} data-logo-variant="light" {...props} />`,
+    `      <${darkName} data-logo-variant="dark" {...props} />`,
+    "    </span>",
+    "  )",
+    "}",
+    "",
+    `export default ${componentName}`,
+    "",
+  ].join("\n")
+}
+
+function createSpriteComponentSource(
+  symbols: SpriteSymbol[],
+  spriteFile: string,
+): string {
+  return [
+    `// ${spriteComponentNotice}`,
+    'import type { ComponentProps } from "react"',
+    "",
+    `const sprite = new URL("./${spriteFile}", import.meta.url).toString()`,
+    "",
+    ...printSpriteSymbols(symbols),
+    "",
+    'export type LogoProps = Omit<ComponentProps<"svg">, "children" | "viewBox"> & {',
+    "  name: SpriteLogoName",
+    "}",
+    "",
+    "export function Logo({ name, ...props }: LogoProps) {",
+    "  const { label, viewBox } = symbols[name]",
+    "",
+    "  return (",
+    '    <svg viewBox={viewBox} role="img" aria-label={label} {...props}>',
+    "      <use href={`${sprite}#${name}`} />",
+    "    </svg>",
+    "  )",
+    "}",
+    "",
+    "export default Logo",
+    "",
+  ].join("\n")
+}
+
+export const reactGenerator: ComponentGenerator = {
+  createSource: (
+    logoName: string,
+    svgSource: string,
+    options: ComponentOptions,
+  ): string =>
+    "inline" === options.componentStyle
+      ? createInlineComponentSource(logoName, svgSource)
+      : createImgComponentSource(
+          logoName,
+          svgSource,
+          getLogoFileName(logoName, options.fileNaming),
+        ),
+  createSpriteSource: createSpriteComponentSource,
+  createThemedSource: createThemedComponentSource,
+  extension: "tsx",
+  getExport: (
+    logoName: string,
+    options: ComponentOptions,
+  ): ComponentExport => ({
+    from: `./${getLogoFileName(logoName, options.fileNaming)}`,
+    isDefault: false,
+    name: getComponentName(logoName),
+  }),
+}
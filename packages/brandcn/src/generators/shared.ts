@@ -0,0 +1,400 @@
+import type { FileNaming, SpriteSymbol } from "../types/logos.js"
+import type { SvgElement, SvgNode } from "../utils/svg.js"
+
+import { toPropertyKey } from "../utils/barrel.js"
+import { getLogoDisplayName } from "../utils/registry.js"
+import { getSvgSize, parseSvg, stringifySvg } from "../utils/svg.js"
+
+function toPascalCase(value: string): string {
+  const pascal = value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")
+
+  const safePascal = 0 < pascal.length ? pascal : "Logo"
+  return /^[A-Za-z]/.test(safePascal) ? safePascal : `Logo${safePascal}`
+}
+
+export function getComponentName(logoName: string): string {
+  const baseName = toPascalCase(logoName)
+  return baseName.endsWith("Logo") ? baseName : `${baseName}Logo`
+}
+
+/**
+ * Returns the file name, without extension, a logo is installed under
+ * @param logoName - Library logo name, e.g. `apple-music_icon`
+ * @param fileNaming - "original" keeps the library name, "kebab-case" gives
+ * `apple-music-icon` and "PascalCase" the component name, `AppleMusicIconLogo`
+ */
+export function getLogoFileName(
+  logoName: string,
+  fileNaming: FileNaming = "original",
+): string {
+  if ("kebab-case" === fileNaming) {
+    return logoName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+  }
+
+  if ("PascalCase" === fileNaming) {
+    return getComponentName(logoName)
+  }
+
+  return logoName
+}
+
+/**
+ * Alt text and `aria-label` of a logo: the brand's display name from the
+ * library registry
+ */
+export function getLogoAltText(logoName: string): string {
+  return getLogoDisplayName(logoName)
+}
+
+/**
+ * Declares the intrinsic size of a logo, e.g. `export const VercelLogoSize =
+ * { aspectRatio: 4.8, height: 20, width: 96 } as const`, so layouts can
+ * reserve its space before it loads
+ * @param svgSource - SVG markup the component renders
+ * @returns The declaration, or null when the SVG has neither a size nor a
+ * `viewBox`
+ */
+export function getSizeDeclaration(
+  logoName: string,
+  svgSource: string,
+): null | string {
+  const size = getSvgSize(parseSvg(svgSource))
+  if (!size) {
+    return null
+  }
+
+  const round = (value: number, digits: number) =>
+    Math.round(value * 10 ** digits) / 10 ** digits
+  const aspectRatio = round(size.width / size.height, 4)
+
+  return `export const ${getComponentName(logoName)}Size = { aspectRatio: ${aspectRatio}, height: ${round(size.height, 3)}, width: ${round(size.width, 3)} } as const`
+}
+
+/**
+ * Converts a component name to a custom element selector, e.g.
+ * `AppleMusicIconLogo` to `apple-music-icon-logo`
+ */
+export function getSelectorName(componentName: string): string {
+  return componentName
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1-$2")
+    .toLowerCase()
+}
+
+// SVG elements browsers render; anything else (editor metadata, scripts,
+// Illustrator slices, ...) is left out of inline components
+const svgElements = new Set([
+  "a",
+  "animate",
+  "animateMotion",
+  "animateTransform",
+  "circle",
+  "clipPath",
+  "defs",
+  "desc",
+  "ellipse",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feConvolveMatrix",
+  "feDiffuseLighting",
+  "feDisplacementMap",
+  "feDistantLight",
+  "feDropShadow",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feImage",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "fePointLight",
+  "feSpecularLighting",
+  "feSpotLight",
+  "feTile",
+  "feTurbulence",
+  "filter",
+  "foreignObject",
+  "g",
+  "image",
+  "line",
+  "linearGradient",
+  "marker",
+  "mask",
+  "mpath",
+  "path",
+  "pattern",
+  "polygon",
+  "polyline",
+  "radialGradient",
+  "rect",
+  "set",
+  "stop",
+  "style",
+  "svg",
+  "switch",
+  "symbol",
+  "text",
+  "textPath",
+  "title",
+  "tspan",
+  "use",
+  "view",
+])
+
+// Attributes added by browser extensions or editors that no browser uses
+const droppedAttributes = new Set(["name", "webcrx"])
+
+// Keyword attributes that framework types check strictly. Browsers ignore any
+// other value, so dropping it keeps the rendering identical.
+const enumeratedAttributes: { [name: string]: string[] } = {
+  "stroke-linecap": ["butt", "inherit", "round", "square"],
+  "stroke-linejoin": ["bevel", "inherit", "miter", "round"],
+}
+
+export function isRenderableAttribute(name: string, value: string): boolean {
+  const allowedValues = enumeratedAttributes[name]
+
+  return (
+    !droppedAttributes.has(name) &&
+    (!allowedValues || allowedValues.includes(value.trim()))
+  )
+}
+
+function isKnownAttribute(name: string): boolean {
+  if (!name.includes(":")) {
+    return true
+  }
+
+  // Only the XLink and XML namespaces are meaningful to the browser; editor
+  // namespaces (inkscape, sodipodi, sketch, ...) are dropped
+  const [namespace, localName] = name.split(":")
+  return (
+    "xlink" === namespace ||
+    "xml" === namespace ||
+    ("xmlns" === namespace && "xlink" === localName)
+  )
+}
+
+function cleanSvgNode(node: SvgNode): null | SvgNode {
+  if ("comment" === node.type) {
+    return null
+  }
+
+  if ("element" !== node.type) {
+    return node
+  }
+
+  if (!svgElements.has(node.name)) {
+    return null
+  }
+
+  const attributes = Object.fromEntries(
+    Object.entries(node.attributes).filter(
+      ([name, value]) =>
+        isKnownAttribute(name) && isRenderableAttribute(name, value),
+    ),
+  )
+  const children = node.children
+    .map(cleanSvgNode)
+    .filter((child): child is SvgNode => null !== child)
+
+  return { ...node, attributes, children }
+}
+
+/**
+ * Parses library SVG markup and strips everything a component does not need:
+ * comments, editor metadata, unknown elements and editor namespaced attributes
+ * @param svgSource - SVG markup
+ */
+export function prepareSvg(svgSource: string): SvgElement {
+  return cleanSvgNode(parseSvg(svgSource)) as SvgElement
+}
+
+/**
+ * Serializes the children of an element, e.g. for `v-html` or `{@html}`
+ */
+export function getInnerMarkup(element: SvgElement): string {
+  return element.children.map(stringifySvg).join("")
+}
+
+export function hasStyleSheet(element: SvgElement): boolean {
+  return element.children.some(
+    (child) =>
+      "element" === child.type &&
+      ("style" === child.name || hasStyleSheet(child)),
+  )
+}
+
+/**
+ * Prints attributes for HTML-like templates (Vue, Svelte, Astro, Angular),
+ * escaping characters those templates would treat as markup or expressions
+ */
+export function printTemplateAttributes(attributes: {
+  [name: string]: string
+}): string[] {
+  return Object.entries(attributes).map(([name, value]) => {
+    const escaped = value
+      .replace(/&/g, "&amp;")
+      .replace(/"/g, "&quot;")
+      .replace(/</g, "&lt;")
+      .replace(/\{/g, "&#123;")
+      .replace(/\}/g, "&#125;")
+
+    return `${name}="${escaped}"`
+  })
+}
+
+/**
+ * Root attributes for template based inline components. Namespace
+ * declarations are left to the HTML parser, which does not need them.
+ */
+export function getTemplateRootAttributes(
+  root: SvgElement,
+  logoName: string,
+): { [name: string]: string } {
+  const attributes = Object.fromEntries(
+    Object.entries(root.attributes).filter(([name]) => "xmlns:xlink" !== name),
+  )
+
+  return { ...attributes, ...getAccessibilityAttributes(root, logoName) }
+}
+
+/**
+ * `role` and `aria-label` for an inline logo, unless the SVG brings its own
+ */
+export function getAccessibilityAttributes(
+  root: SvgElement,
+  logoName: string,
+): { [name: string]: string } {
+  const attributes: { [name: string]: string } = {}
+
+  if (!("role" in root.attributes)) {
+    attributes.role = "img"
+  }
+
+  if (
+    !("aria-label" in root.attributes) &&
+    !("aria-labelledby" in root.attributes)
+  ) {
+    attributes["aria-label"] = getLogoAltText(logoName)
+  }
+
+  return attributes
+}
+
+export function toJsxAttributeValue(value: string): string {
+  return /["&\n]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`
+}
+
+/**
+ * Prints an element tree as indented JSX
+ * @param element - Element to print
+ * @param depth - Indentation depth
+ * @param getAttributes - Converts an element's attributes to JSX attributes
+ * @param attributes - Attributes for `element` itself, defaults to `getAttributes`
+ */
+export function printJsxElement(
+  element: SvgElement,
+  depth: number,
+  getAttributes: (element: SvgElement) => string[],
+  attributes: string[] = getAttributes(element),
+): string[] {
+  const indent = "  ".repeat(depth)
+  const openTag = [element.name, ...attributes].join(" ")
+  const children = element.children.flatMap((child): string[] => {
+    if ("element" === child.type) {
+      return printJsxElement(child, depth + 1, getAttributes)
+    }
+
+    return "comment" !== child.type && 0 < child.value.trim().length
+      ? [`${indent}  {${JSON.stringify(child.value)}}`]
+      : []
+  })
+
+  if (0 === children.length) {
+    return [`${indent}<${openTag} />`]
+  }
+
+  return [`${indent}<${openTag}>`, ...children, `${indent}</${element.name}>`]
+}
+
+// Union of the `theme` prop values accepted by themed components
+export const themePropType = '"auto" | "class" | "dark" | "light"'
+
+interface ThemeStyleRule {
+  media?: string
+  selector: string
+}
+
+// Themed components render both variants as direct children of an element
+// carrying `data-logo-theme` and hide the one that does not match: "auto"
+// follows prefers-color-scheme, "class" follows a `.dark` ancestor like
+// Tailwind and shadcn/ui themes do
+const themeStyleRules: ThemeStyleRule[] = [
+  {
+    media: "not all and (prefers-color-scheme: dark)",
+    selector: '[data-logo-theme="auto"] > [data-logo-variant="dark"]',
+  },
+  {
+    media: "(prefers-color-scheme: dark)",
+    selector: '[data-logo-theme="auto"] > [data-logo-variant="light"]',
+  },
+  {
+    selector:
+      '[data-logo-theme="class"]:not(.dark *) > [data-logo-variant="dark"]',
+  },
+  {
+    selector: '.dark [data-logo-theme="class"] > [data-logo-variant="light"]',
+  },
+]
+
+/**
+ * Prints the style sheet of themed components, one rule per line
+ * @param wrapSelector - Adapts selectors to the framework, e.g. Svelte's `:global()`
+ */
+export function getThemeStyles(
+  wrapSelector: (selector: string) => string = (selector) => selector,
+): string[] {
+  return themeStyleRules.map(({ media, selector }) => {
+    const rule = `${wrapSelector(selector)} { display: none }`
+    return media ? `@media ${media} { ${rule} }` : rule
+  })
+}
+
+// Heads the <Logo name> component, which is rewritten like the sprite sheet
+export const spriteComponentNotice =
+  "Generated by brandcn. Rewritten whenever logos are added or removed."
+
+/**
+ * Prints the `symbols` record of the <Logo name> component, whose keys make
+ * up the union its `name` prop accepts
+ * @param indent - Indentation of every line, e.g. inside a `<script>`
+ */
+export function printSpriteSymbols(
+  symbols: SpriteSymbol[],
+  indent = "",
+): string[] {
+  return [
+    "const symbols = {",
+    ...symbols.map(
+      ({ label, logoName, viewBox }) =>
+        `  ${toPropertyKey(logoName)}: { label: ${JSON.stringify(label)}, viewBox: "${viewBox}" },`,
+    ),
+    "} as const",
+    "",
+    "export type SpriteLogoName = keyof typeof symbols",
+  ].map((line) => (0 < line.length ? `${indent}${line}` : line))
+}
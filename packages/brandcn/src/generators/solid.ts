@@ -0,0 +1,196 @@
+import type {
+  ComponentExport,
+  ComponentGenerator,
+  ComponentOptions,
+  SpriteSymbol,
+  ThemedLogoPair,
+} from "../types/logos.js"
+
+import {
+  getComponentName,
+  getInnerMarkup,
+  getLogoAltText,
+  getLogoFileName,
+  getSizeDeclaration,
+  getTemplateRootAttributes,
+  getThemeStyles,
+  prepareSvg,
+  printSpriteSymbols,
+  spriteComponentNotice,
+  themePropType,
+  toJsxAttributeValue,
+} from "./shared.js"
+
+function createImgComponentSource(
+  logoName: string,
+  svgSource: string,
+  fileName: string,
+): string {
+  const componentName = getComponentName(logoName)
+  const size = getSizeDeclaration(logoName, svgSource)
+
+  return [
+    'import type { JSX } from "solid-js"',
+    "",
+    `const src = new URL("./${fileName}.svg", import.meta.url).toString()`,
+    "",
+    `export type ${componentName}Props = Omit<JSX.ImgHTMLAttributes<HTMLImageElement>, "src">`,
+    "",
+    ...(size ? [size, ""] : []),
+    `export function ${componentName}(props: ${componentName}Props) {`,
+    `  return <img src={src} alt=${toJsxAttributeValue(getLogoAltText(logoName))} {...props} />`,
+    "}",
+    "",
+    `export default ${componentName}`,
+    "",
+  ].join("\n")
+}
+
+// Solid's JSX types reject many valid SVG attributes (xlink:href, overflow on
+// shapes, ...), so the children are set as markup like the template frameworks
+function createInlineComponentSource(
+  logoName: string,
+  svgSource: string,
+): string {
+  const componentName = getComponentName(logoName)
+  const size = getSizeDeclaration(logoName, svgSource)
+  const root = prepareSvg(svgSource)
+  const attributes = Object.entries(getTemplateRootAttributes(root, logoName))
+    .filter(([name]) => !name.includes(":"))
+    .map(([name, value]) => `${name}=${toJsxAttributeValue(value)}`)
+
+  return [
+    'import type { JSX } from "solid-js"',
+    "",
+    `const content = ${JSON.stringify(getInnerMarkup(root))}`,
+    "",
+    `export type ${componentName}Props = JSX.SvgSVGAttributes<SVGSVGElement>`,
+    "",
+    ...(size ? [size, ""] : []),
+    `export function ${componentName}(props: ${componentName}Props) {`,
+    "  return (",
+    `    <svg ${[...attributes, "innerHTML={content}", "{...props}"].join(" ")} />`,
+    "  )",
+    "}",
+    "",
+    `export default ${componentName}`,
+    "",
+  ].join("\n")
+}
+
+// Props are split rather than destructured to keep them reactive
+function createThemedComponentSource(
+  pair: ThemedLogoPair,
+  options: ComponentOptions,
+): string {
+  const componentName = getComponentName(pair.baseName)
+  const darkName = getComponentName(pair.dark)
+  const lightName = getComponentName(pair.light)
+  const darkFile = getLogoFileName(pair.dark, options.fileNaming)
+  const lightFile = getLogoFileName(pair.light, options.fileNaming)
+
+  return [
+    'import { Match, Switch, splitProps } from "solid-js"',
+    'import type { ComponentProps } from "solid-js"',
+    "",
+    `import { ${darkName} } from "./${darkFile}"`,
+    `import { ${lightName} } from "./${lightFile}"`,
+    "",
+    `const styles = ${JSON.stringify(getThemeStyles().join("\n"))}`,
+    "",
+    `export type ${componentName}Props = ComponentProps<typeof ${lightName}> & {`,
+    `  theme?: ${themePropType}`,
+    "}",
+    "",
+    `export function ${componentName}(props: ${componentName}Props) {`,
+    '  const [local, others] = splitProps(props, ["theme"])',
+    "",
+    "  return (",
+    "    <Switch",
+    "      fallback={",
+    '        <span data-logo-theme={local.theme ?? "auto"} style={{ display: "contents" }}>',
+    "          <style>{styles}</style>",
+    `          <${lightName} data-logo-variant="light" {...others} />`,
+    `          <${darkName} data-logo-variant="dark" {...others} />`,
+    "        </span>",
+    "      }",
+    "    >",
+    '      <Match when={local.theme === "dark"}>',
+    `        <${darkName} {...others} />`,
+    "      </Match>",
+    '      <Match when={local.theme === "light"}>',
+    `        <${lightName} {...others} />`,
+    "      </Match>",
+    "    </Switch>",
+    "  )",
+    "}",
+    "",
+    `export default ${componentName}`,
+    "",
+  ].join("\n")
+}
+
+// Destructuring props would stop Solid from tracking `name`, so it is split
+// off instead
+function createSpriteComponentSource(
+  symbols: SpriteSymbol[],
+  spriteFile: string,
+): string {
+  return [
+    `// ${spriteComponentNotice}`,
+    'import { splitProps } from "solid-js"',
+    'import type { JSX } from "solid-js"',
+    "",
+    `const sprite = new URL("./${spriteFile}", import.meta.url).toString()`,
+    "",
+    ...printSpriteSymbols(symbols),
+    "",
+    'export type LogoProps = Omit<JSX.SvgSVGAttributes<SVGSVGElement>, "children" | "viewBox"> & {',
+    "  name: SpriteLogoName",
+    "}",
+    "",
+    "export function Logo(props: LogoProps) {",
+    '  const [local, others] = splitProps(props, ["name"])',
+    "",
+    "  return (",
+    "    <svg",
+    "      viewBox={symbols[local.name].viewBox}",
+    '      role="img"',
+    "      aria-label={symbols[local.name].label}",
+    "      {...others}",
+    "    >",
+    "      <use href={`${sprite}#${local.name}`} />",
+    "    </svg>",
+    "  )",
+    "}",
+    "",
+    "export default Logo",
+    "",
+  ].join("\n")
+}
+
+export const solidGenerator: ComponentGenerator = {
+  createSource: (
+    logoName: string,
+    svgSource: string,
+    options: ComponentOptions,
+  ): string =>
+    "inline" === options.componentStyle
+      ? createInlineComponentSource(logoName, svgSource)
+      : createImgComponentSource(
+          logoName,
+          svgSource,
+          getLogoFileName(logoName, options.fileNaming),
+        ),
+  createSpriteSource: createSpriteComponentSource,
+  createThemedSource: createThemedComponentSource,
+  extension: "tsx",
+  getExport: (
+    logoName: string,
+    options: ComponentOptions,
+  ): ComponentExport => ({
+    from: `./${getLogoFileName(logoName, options.fileNaming)}`,
+    isDefault: false,
+    name: getComponentName(logoName),
+  }),
+}
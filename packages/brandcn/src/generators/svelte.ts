@@ -0,0 +1,178 @@
+import type {
+  ComponentExport,
+  ComponentGenerator,
+  ComponentOptions,
+  SpriteSymbol,
+  ThemedLogoPair,
+} from "../types/logos.js"
+
+import {
+  getComponentName,
+  getInnerMarkup,
+  getLogoAltText,
+  getLogoFileName,
+  getSizeDeclaration,
+  getTemplateRootAttributes,
+  getThemeStyles,
+  prepareSvg,
+  printSpriteSymbols,
+  printTemplateAttributes,
+  spriteComponentNotice,
+  themePropType,
+} from "./shared.js"
+
+/**
+ * Module script exporting the size, as the instance script runs per component
+ */
+function printSizeScript(logoName: string, svgSource: string): string[] {
+  const size = getSizeDeclaration(logoName, svgSource)
+  return size ? ['<script module lang="ts">', `  ${size}`, "</script>", ""] : []
+}
+
+function createImgComponentSource(
+  logoName: string,
+  svgSource: string,
+  fileName: string,
+): string {
+  const [alt] = printTemplateAttributes({ alt: getLogoAltText(logoName) })
+
+  return [
+    ...printSizeScript(logoName, svgSource),
+    '<script lang="ts">',
+    '  import type { HTMLImgAttributes } from "svelte/elements"',
+    "",
+    '  let props: Omit<HTMLImgAttributes, "src"> = $props()',
+    "",
+    `  const src = new URL("./${fileName}.svg", import.meta.url).href`,
+    "</script>",
+    "",
+    `<img {src} ${alt} {...props} />`,
+    "",
+  ].join("\n")
+}
+
+function createInlineComponentSource(
+  logoName: string,
+  svgSource: string,
+): string {
+  const root = prepareSvg(svgSource)
+  const attributes = printTemplateAttributes(
+    getTemplateRootAttributes(root, logoName),
+  )
+
+  return [
+    ...printSizeScript(logoName, svgSource),
+    '<script lang="ts">',
+    '  import type { SVGAttributes } from "svelte/elements"',
+    "",
+    "  let props: SVGAttributes<SVGSVGElement> = $props()",
+    "",
+    `  const content = ${JSON.stringify(getInnerMarkup(root))}`,
+    "</script>",
+    "",
+    `<svg ${[...attributes, "{...props}"].join(" ")}>{@html content}</svg>`,
+    "",
+  ].join("\n")
+}
+
+function createThemedComponentSource(
+  pair: ThemedLogoPair,
+  options: ComponentOptions,
+): string {
+  const darkName = getComponentName(pair.dark)
+  const lightName = getComponentName(pair.light)
+  const darkFile = getLogoFileName(pair.dark, options.fileNaming)
+  const lightFile = getLogoFileName(pair.light, options.fileNaming)
+
+  return [
+    '<script lang="ts">',
+    '  import type { ComponentProps } from "svelte"',
+    "",
+    `  import ${darkName} from "./${darkFile}.svelte"`,
+    `  import ${lightName} from "./${lightFile}.svelte"`,
+    "",
+    "  let {",
+    '    theme = "auto",',
+    "    ...props",
+    `  }: ComponentProps<typeof ${lightName}> & { theme?: ${themePropType} } = $props()`,
+    "</script>",
+    "",
+    '{#if theme === "dark"}',
+    `  <${darkName} {...props} />`,
+    '{:else if theme === "light"}',
+    `  <${lightName} {...props} />`,
+    "{:else}",
+    '  <span data-logo-theme={theme} style="display: contents">',
+    `    <${lightName} data-logo-variant="light" {...props} />`,
+    `    <${darkName} data-logo-variant="dark" {...props} />`,
+    "  </span>",
+    "{/if}",
+    "",
+    "<style>",
+    ...getThemeStyles((selector) => `:global(${selector})`).map(
+      (rule) => `  ${rule}`,
+    ),
+    "</style>",
+    "",
+  ].join("\n")
+}
+
+function createSpriteComponentSource(
+  symbols: SpriteSymbol[],
+  spriteFile: string,
+): string {
+  return [
+    `<!-- ${spriteComponentNotice} -->`,
+    '<script module lang="ts">',
+    ...printSpriteSymbols(symbols, "  "),
+    "</script>",
+    "",
+    '<script lang="ts">',
+    '  import type { SVGAttributes } from "svelte/elements"',
+    "",
+    "  let {",
+    "    name,",
+    "    ...props",
+    '  }: Omit<SVGAttributes<SVGSVGElement>, "viewBox"> & { name: SpriteLogoName } =',
+    "    $props()",
+    "",
+    `  const sprite = new URL("./${spriteFile}", import.meta.url).href`,
+    "</script>",
+    "",
+    "<svg",
+    "  viewBox={symbols[name].viewBox}",
+    '  role="img"',
+    "  aria-label={symbols[name].label}",
+    "  {...props}",
+    ">",
+    '  <use href="{sprite}#{name}" />',
+    "</svg>",
+    "",
+  ].join("\n")
+}
+
+export const svelteGenerator: ComponentGenerator = {
+  createSource: (
+    logoName: string,
+    svgSource: string,
+    options: ComponentOptions,
+  ): string =>
+    "inline" === options.componentStyle
+      ? createInlineComponentSource(logoName, svgSource)
+      : createImgComponentSource(
+          logoName,
+          svgSource,
+          getLogoFileName(logoName, options.fileNaming),
+        ),
+  createSpriteSource: createSpriteComponentSource,
+  createThemedSource: createThemedComponentSource,
+  extension: "svelte",
+  getExport: (
+    logoName: string,
+    options: ComponentOptions,
+  ): ComponentExport => ({
+    from: `./${getLogoFileName(logoName, options.fileNaming)}.svelte`,
+    isDefault: true,
+    name: getComponentName(logoName),
+  }),
+}
@@ -0,0 +1,169 @@
+import type {
+  ComponentExport,
+  ComponentGenerator,
+  ComponentOptions,
+  SpriteSymbol,
+  ThemedLogoPair,
+} from "../types/logos.js"
+
+import {
+  getComponentName,
+  getInnerMarkup,
+  getLogoAltText,
+  getLogoFileName,
+  getSizeDeclaration,
+  getTemplateRootAttributes,
+  getThemeStyles,
+  prepareSvg,
+  printSpriteSymbols,
+  printTemplateAttributes,
+  spriteComponentNotice,
+  themePropType,
+} from "./shared.js"
+
+/**
+ * Plain script block exporting the size, as `<script setup>` cannot export
+ */
+function printSizeScript(logoName: string, svgSource: string): string[] {
+  const size = getSizeDeclaration(logoName, svgSource)
+  return size ? ['<script lang="ts">', size, "</script>", ""] : []
+}
+
+// Attributes passed to the component fall through to the root element, so
+// neither style needs to declare props
+function createImgComponentSource(
+  logoName: string,
+  svgSource: string,
+  fileName: string,
+): string {
+  const [alt] = printTemplateAttributes({ alt: getLogoAltText(logoName) })
+
+  return [
+    ...printSizeScript(logoName, svgSource),
+    '<script setup lang="ts">',
+    `const src = new URL("./${fileName}.svg", import.meta.url).href`,
+    "</script>",
+    "",
+    "<template>",
+    `  <img :src="src" ${alt} />`,
+    "</template>",
+    "",
+  ].join("\n")
+}
+
+function createInlineComponentSource(
+  logoName: string,
+  svgSource: string,
+): string {
+  const root = prepareSvg(svgSource)
+  const attributes = printTemplateAttributes(
+    getTemplateRootAttributes(root, logoName),
+  )
+
+  return [
+    ...printSizeScript(logoName, svgSource),
+    '<script setup lang="ts">',
+    `const content = ${JSON.stringify(getInnerMarkup(root))}`,
+    "</script>",
+    "",
+    "<template>",
+    `  <svg ${[...attributes, 'v-html="content"'].join(" ")} />`,
+    "</template>",
+    "",
+  ].join("\n")
+}
+
+// Attributes are forwarded to the rendered variant instead of the wrapper
+function createThemedComponentSource(
+  pair: ThemedLogoPair,
+  options: ComponentOptions,
+): string {
+  const darkName = getComponentName(pair.dark)
+  const lightName = getComponentName(pair.light)
+  const darkFile = getLogoFileName(pair.dark, options.fileNaming)
+  const lightFile = getLogoFileName(pair.light, options.fileNaming)
+
+  return [
+    '<script setup lang="ts">',
+    `import ${darkName} from "./${darkFile}.vue"`,
+    `import ${lightName} from "./${lightFile}.vue"`,
+    "",
+    "defineOptions({ inheritAttrs: false })",
+    "",
+    `withDefaults(defineProps<{ theme?: ${themePropType} }>(), {`,
+    '  theme: "auto",',
+    "})",
+    "</script>",
+    "",
+    "<template>",
+    `  <${darkName} v-if="theme === 'dark'" v-bind="$attrs" />`,
+    `  <${lightName} v-else-if="theme === 'light'" v-bind="$attrs" />`,
+    '  <span v-else :data-logo-theme="theme" style="display: contents">',
+    `    <${lightName} data-logo-variant="light" v-bind="$attrs" />`,
+    `    <${darkName} data-logo-variant="dark" v-bind="$attrs" />`,
+    "  </span>",
+    "</template>",
+    "",
+    "<style>",
+    ...getThemeStyles(),
+    "</style>",
+    "",
+  ].join("\n")
+}
+
+// The union of names is exported from the plain script block, whose bindings
+// the template sees as well
+function createSpriteComponentSource(
+  symbols: SpriteSymbol[],
+  spriteFile: string,
+): string {
+  return [
+    `<!-- ${spriteComponentNotice} -->`,
+    '<script lang="ts">',
+    ...printSpriteSymbols(symbols),
+    "</script>",
+    "",
+    '<script setup lang="ts">',
+    "const props = defineProps<{ name: SpriteLogoName }>()",
+    "",
+    `const sprite = new URL("./${spriteFile}", import.meta.url).href`,
+    "</script>",
+    "",
+    "<template>",
+    "  <svg",
+    '    :viewBox="symbols[props.name].viewBox"',
+    '    role="img"',
+    '    :aria-label="symbols[props.name].label"',
+    "  >",
+    '    <use :href="`${sprite}#${props.name}`" />',
+    "  </svg>",
+    "</template>",
+    "",
+  ].join("\n")
+}
+
+export const vueGenerator: ComponentGenerator = {
+  createSource: (
+    logoName: string,
+    svgSource: string,
+    options: ComponentOptions,
+  ): string =>
+    "inline" === options.componentStyle
+      ? createInlineComponentSource(logoName, svgSource)
+      : createImgComponentSource(
+          logoName,
+          svgSource,
+          getLogoFileName(logoName, options.fileNaming),
+        ),
+  createSpriteSource: createSpriteComponentSource,
+  createThemedSource: createThemedComponentSource,
+  extension: "vue",
+  getExport: (
+    logoName: string,
+    options: ComponentOptions,
+  ): ComponentExport => ({
+    from: `./${getLogoFileName(logoName, options.fileNaming)}.vue`,
+    isDefault: true,
+    name: getComponentName(logoName),
+  }),
+}
@@ -0,0 +1,61 @@
+import { z } from "zod"
+
+import type {
+  ComponentStyle,
+  FileNaming,
+  Framework,
+  OutputFormat,
+} from "./logos.js"
+
+export const frameworkSchema = z.enum([
+  "angular",
+  "astro",
+  "react",
+  "solid",
+  "svelte",
+  "vue",
+]) satisfies z.ZodType<Framework>
+
+export const componentStyleSchema = z.enum([
+  "img",
+  "inline",
+]) satisfies z.ZodType<ComponentStyle>
+
+export const fileNamingSchema = z.enum([
+  "kebab-case",
+  "original",
+  "PascalCase",
+]) satisfies z.ZodType<FileNaming>
+
+export const outputFormatSchema = z.enum([
+  "component",
+  "css",
+  "sprite",
+  "tailwind",
+]) satisfies z.ZodType<OutputFormat>
+
+/**
+ * Schema of `brandcn.json`, the project configuration written by `brandcn init`
+ */
+export const configSchema = z
+  .object({
+    componentStyle: componentStyleSchema.default("img"),
+    fileNaming: fileNamingSchema.default("original"),
+    framework: frameworkSchema.default("react"),
+    // Optimize SVGs with svgo before `add` writes them
+    optimize: z.boolean().default(false),
+    // Relative to the directory containing brandcn.json
+    outDir: z.string().trim().min(1, "cannot be empty"),
+    // Variants `add` installs when no variant flag is given
+    variants: z
+      .object({
+        dark: z.boolean().default(false),
+        light: z.boolean().default(false),
+        wordmark: z.boolean().default(false),
+      })
+      .strict()
+      .default({ dark: false, light: false, wordmark: false }),
+  })
+  .strict()
+
+export type BrandcnConfig = z.infer<typeof configSchema>
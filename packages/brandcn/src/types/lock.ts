@@ -0,0 +1,63 @@
+import { z } from "zod"
+
+import {
+  componentStyleSchema,
+  fileNamingSchema,
+  frameworkSchema,
+  outputFormatSchema,
+} from "./config.js"
+
+const lockedFileSchema = z
+  .object({
+    file: z.string().min(1),
+    // "sha256-" followed by the base64 digest of the file contents
+    hash: z.string().startsWith("sha256-"),
+  })
+  .strict()
+
+export const lockEntrySchema = z
+  .object({
+    brandcnVersion: z.string().nullable(),
+    // Null for logos installed as a class in logos.css or a Tailwind plugin
+    component: lockedFileSchema.nullable(),
+    options: z
+      .object({
+        // Hex color every paint was replaced with, for `_mono` copies
+        color: z.string().optional(),
+        // Colors swapped for others, for `_custom` copies
+        colorMap: z.record(z.string(), z.string()).optional(),
+        componentStyle: componentStyleSchema,
+        currentColor: z.boolean(),
+        fileNaming: fileNamingSchema,
+        format: outputFormatSchema,
+        framework: frameworkSchema,
+        optimize: z.boolean(),
+        // viewBox fitted to the painted content, for `--trim`
+        trim: z
+          .object({ padding: z.number().min(0), square: z.boolean() })
+          .strict()
+          .optional(),
+      })
+      .strict(),
+    // File name of the logo in the brandcn library
+    source: z.string().min(1),
+    svg: lockedFileSchema,
+  })
+  .strict()
+
+/**
+ * Schema of `brandcn-lock.json`, which records every variant `add` installed
+ * in the logos directory
+ */
+export const lockFileSchema = z
+  .object({
+    logos: z.record(z.string(), lockEntrySchema),
+    lockfileVersion: z.literal(1),
+  })
+  .strict()
+
+export type LockedFile = z.infer<typeof lockedFileSchema>
+
+export type LockEntry = z.infer<typeof lockEntrySchema>
+
+export type LockFile = z.infer<typeof lockFileSchema>
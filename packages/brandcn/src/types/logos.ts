@@ -1,17 +1,121 @@
 export type VariantType = "dark" | "default" | "icon" | "light" | "logo" | "wordmark"
 
-export interface ProcessLogosOptions {
+export type ComponentStyle = "img" | "inline"
+
+export type Framework = "angular" | "astro" | "react" | "solid" | "svelte" | "vue"
+
+export type FileNaming = "kebab-case" | "original" | "PascalCase"
+
+// What add writes per logo: a component next to the SVG, or only the SVG
+// plus a class in logos.css or a Tailwind plugin, or a symbol in the sprite
+export type OutputFormat = "component" | "css" | "sprite" | "tailwind"
+
+export type ConflictResolution = "keep" | "overwrite" | "overwrite-all"
+
+export interface LogoFileConflict {
+  existing: string
+  fileName: string
+  incoming: string
+}
+
+export interface ComponentOptions {
+  // Paint every color of the SVG with this hex color, installing a `_mono` copy
+  color?: string
+  // Swap colors of the SVG, e.g. { "#000000": "#111111" }, installing a
+  // `_custom` copy
+  colorMap?: { [color: string]: string }
+  componentStyle?: ComponentStyle
+  // Paint single-color SVGs with currentColor, so they follow the text color
+  currentColor?: boolean
+  fileNaming?: FileNaming
+  format?: OutputFormat
+  framework?: Framework
+  // Optimize SVGs with svgo before writing them
+  optimize?: boolean
+  // Fit the viewBox to what the SVG paints, optionally padded, as a
+  // percentage of the longer side, and centered in a square
+  trim?: { padding: number; square: boolean }
+}
+
+export interface ThemedLogoPair {
+  baseName: string
+  dark: string
+  light: string
+}
+
+export interface ComponentExport {
+  // Import specifier relative to the logos directory, e.g. "./vercel.vue"
+  from: string
+  isDefault: boolean
+  name: string
+}
+
+export interface SpriteSymbol {
+  // Brand display name, the `aria-label` of the logo
+  label: string
+  // Logo variant name, also the id of its `<symbol>`
+  logoName: string
+  viewBox: string
+}
+
+export interface ComponentGenerator {
+  createSource: (
+    logoName: string,
+    svgSource: string,
+    options: ComponentOptions,
+  ) => string
+  // Component that switches between the installed dark and light components
+  createThemedSource: (
+    pair: ThemedLogoPair,
+    options: ComponentOptions,
+  ) => string
+  // The <Logo name> component drawing a symbol of the sprite sheet
+  createSpriteSource: (symbols: SpriteSymbol[], spriteFile: string) => string
+  // How the barrel imports the component of a logo or themed pair
+  getExport: (logoName: string, options: ComponentOptions) => ComponentExport
+  // File extension without the leading dot, e.g. "vue" or "component.ts"
+  extension: string
+}
+
+export interface ProcessLogosOptions extends ComponentOptions {
+  dark?: boolean
+  force?: boolean
+  light?: boolean
+  onConflict?: (conflict: LogoFileConflict) => Promise<ConflictResolution>
+  wordmark?: boolean
+}
+
+export interface RemoveLogosOptions
+  extends Pick<ComponentOptions, "fileNaming" | "framework"> {
   dark?: boolean
+  force?: boolean
   light?: boolean
   wordmark?: boolean
 }
 
+// Component options of `update` come from brandcn-lock.json
+export interface UpdateLogosOptions {
+  force?: boolean
+  onConflict?: (conflict: LogoFileConflict) => Promise<ConflictResolution>
+}
+
 export interface LogoOperationResult {
   createdFiles?: string[]
   error?: string
   logoName: string
   reason?: string
+  removedFiles?: string[]
+  // Bytes optimization removed from the SVG that was written
+  savedBytes?: number
   skipped?: boolean
   skippedFiles?: string[]
   success: boolean
+  // Close matches for a logo that was not found in the library
+  suggestions?: string[]
+  // Component switching between the dark and light variants of a brand
+  themed?: boolean
+  updated?: boolean
+  updatedFiles?: string[]
+  // Unsafe SVG content that was removed before writing
+  warnings?: string[]
 }
@@ -0,0 +1,69 @@
+import { z } from "zod"
+
+export const logoCategories = [
+  "ai",
+  "analytics",
+  "auth",
+  "browser",
+  "build-tool",
+  "cloud",
+  "cms",
+  "communication",
+  "crypto",
+  "database",
+  "design",
+  "devtools",
+  "ecommerce",
+  "editor",
+  "education",
+  "entertainment",
+  "framework",
+  "gaming",
+  "hosting",
+  "language",
+  "library",
+  "os",
+  "other",
+  "package-manager",
+  "payments",
+  "productivity",
+  "runtime",
+  "security",
+  "social",
+  "testing",
+  "ui",
+] as const
+
+export const logoCategorySchema = z.enum(logoCategories)
+
+export const registryEntrySchema = z
+  .object({
+    // Other names `add` accepts for the brand, e.g. "next" for Next.js
+    aliases: z.array(z.string().min(1)).default([]),
+    categories: z.array(logoCategorySchema).min(1),
+    // Display name, used for alt text
+    name: z.string().min(1),
+    // Slugs of the brand's library files, e.g. "apollo-io" for apollo.io.svg
+    variants: z
+      .array(z.string().regex(/^[a-z0-9_-]+$/, "must be a lowercase logo slug"))
+      .min(1),
+    website: z.url().optional(),
+  })
+  .strict()
+
+/**
+ * Schema of `library/registry.json`, which groups the library's SVG files
+ * into brands keyed by a lowercase, hyphenated id
+ */
+export const registrySchema = z.record(
+  z
+    .string()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "must be lowercase kebab-case"),
+  registryEntrySchema,
+)
+
+export type LogoCategory = z.infer<typeof logoCategorySchema>
+
+export type RegistryEntry = z.infer<typeof registryEntrySchema>
+
+export type Registry = z.infer<typeof registrySchema>
@@ -0,0 +1,120 @@
+import type { ComponentExport } from "../types/logos.js"
+
+export const barrelFileName = "index.ts"
+
+const header = [
+  "// Generated by brandcn. Everything outside the custom region is rewritten",
+  "// whenever logos are added or removed.",
+]
+
+const customStart = "// brandcn:custom-start"
+const customEnd = "// brandcn:custom-end"
+
+export interface BarrelEntry extends ComponentExport {
+  logoName: string
+}
+
+/**
+ * Extracts the hand-written part of a barrel
+ * @param source - Current contents of the barrel
+ * @returns The custom region, or null when the file was not generated by brandcn
+ */
+export function getCustomRegion(source: string): null | string {
+  if (!source.startsWith(header[0] ?? "")) {
+    return null
+  }
+
+  const start = source.indexOf(customStart)
+  const end = source.indexOf(customEnd, start)
+
+  if (-1 === start || -1 === end) {
+    return ""
+  }
+
+  return source
+    .slice(start + customStart.length, end)
+    .replace(/^\r?\n/, "")
+    .replace(/\r?\n$/, "")
+}
+
+/**
+ * Object key for a logo name, quoted unless it is a valid identifier
+ */
+export function toPropertyKey(logoName: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(logoName)
+    ? logoName
+    : JSON.stringify(logoName)
+}
+
+/**
+ * Generates the barrel re-exporting every installed component, along with a
+ * `LogoName` union and a `logos` record keyed by logo name
+ * @param entries - Installed components
+ * @param custom - Hand-written code to keep in the custom region
+ */
+export function createBarrelSource(
+  entries: BarrelEntry[],
+  custom = "",
+): string {
+  const sortedEntries = [...entries].sort((a, b) =>
+    a.logoName < b.logoName ? -1 : 1,
+  )
+  const usedNames = new Map<string, number>()
+
+  // Different logo names can map to the same component name, e.g.
+  // "soundcloud" and "soundcloud-logo", so later ones get a numbered alias
+  const bindings = sortedEntries.map((entry) => {
+    const count = (usedNames.get(entry.name) ?? 0) + 1
+    usedNames.set(entry.name, count)
+    return {
+      ...entry,
+      local: 1 === count ? entry.name : `${entry.name}${count}`,
+    }
+  })
+
+  const imports = bindings.map(({ from, isDefault, local, name }) => {
+    if (isDefault) {
+      return `import ${local} from "${from}"`
+    }
+
+    const specifier = local === name ? name : `${name} as ${local}`
+    return `import { ${specifier} } from "${from}"`
+  })
+
+  const lines = [...header, ""]
+
+  if (0 === bindings.length) {
+    lines.push(
+      "export type LogoName = never",
+      "",
+      "export const logos = {} as const",
+    )
+  } else {
+    lines.push(
+      ...imports,
+      "",
+      "export {",
+      ...bindings.map(({ local }) => `  ${local},`),
+      "}",
+      "",
+      "export type LogoName =",
+      ...bindings.map(({ logoName }) => `  | ${JSON.stringify(logoName)}`),
+      "",
+      "export const logos = {",
+      ...bindings.map(
+        ({ local, logoName }) => `  ${toPropertyKey(logoName)}: ${local},`,
+      ),
+      "} as const",
+    )
+  }
+
+  lines.push("", customStart)
+
+  if (0 < custom.length) {
+    lines.push(custom)
+  }
+
+  lines.push(customEnd, "")
+
+  return lines.join("\n")
+}
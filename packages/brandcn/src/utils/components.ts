@@ -0,0 +1,119 @@
+import type {
+  ComponentExport,
+  ComponentGenerator,
+  ComponentOptions,
+  ComponentStyle,
+  Framework,
+  SpriteSymbol,
+  ThemedLogoPair,
+} from "../types/logos.js"
+
+import { angularGenerator } from "../generators/angular.js"
+import { astroGenerator } from "../generators/astro.js"
+import { reactGenerator } from "../generators/react.js"
+import { solidGenerator } from "../generators/solid.js"
+import { svelteGenerator } from "../generators/svelte.js"
+import { vueGenerator } from "../generators/vue.js"
+
+export {
+  getComponentName,
+  getLogoFileName,
+  spriteComponentNotice,
+} from "../generators/shared.js"
+
+export const componentStyles: ComponentStyle[] = ["img", "inline"]
+
+export const frameworks: Framework[] = [
+  "angular",
+  "astro",
+  "react",
+  "solid",
+  "svelte",
+  "vue",
+]
+
+const generators: { [framework in Framework]: ComponentGenerator } = {
+  angular: angularGenerator,
+  astro: astroGenerator,
+  react: reactGenerator,
+  solid: solidGenerator,
+  svelte: svelteGenerator,
+  vue: vueGenerator,
+}
+
+export function isFramework(value: string): value is Framework {
+  return (frameworks as string[]).includes(value)
+}
+
+/**
+ * Returns the extension of generated component files, e.g. "vue" or
+ * "component.ts"
+ * @param framework - Target framework, defaults to React
+ */
+export function getComponentExtension(framework: Framework = "react"): string {
+  return generators[framework].extension
+}
+
+/**
+ * Generates the source of the component for a logo
+ * @param logoName - Logo variant name, also used for the SVG file name
+ * @param svgSource - Library SVG markup, inlined by the "inline" style
+ * @param options - Component generation options
+ */
+export function createLogoComponentSource(
+  logoName: string,
+  svgSource: string,
+  options: ComponentOptions = {},
+): string {
+  return generators[options.framework ?? "react"].createSource(
+    logoName,
+    svgSource,
+    options,
+  )
+}
+
+/**
+ * Generates the source of the component that switches between the dark and
+ * light components of a logo
+ * @param pair - Installed dark and light variants
+ * @param options - Component generation options
+ */
+export function createThemedComponentSource(
+  pair: ThemedLogoPair,
+  options: ComponentOptions = {},
+): string {
+  return generators[options.framework ?? "react"].createThemedSource(
+    pair,
+    options,
+  )
+}
+
+/**
+ * Generates the source of the <Logo name> component drawing the symbols of
+ * the sprite sheet
+ * @param symbols - Symbols in the sprite sheet
+ * @param spriteFile - File name of the sprite sheet in the logos directory
+ * @param options - Component generation options
+ */
+export function createSpriteComponentSource(
+  symbols: SpriteSymbol[],
+  spriteFile: string,
+  options: ComponentOptions = {},
+): string {
+  return generators[options.framework ?? "react"].createSpriteSource(
+    symbols,
+    spriteFile,
+  )
+}
+
+/**
+ * Describes how the barrel imports the component of a logo
+ * @param logoName - Logo variant or themed pair base name
+ * @param options - Component generation options
+ */
+export function getComponentExport(
+  logoName: string,
+  options: ComponentOptions = {},
+): ComponentExport {
+  return generators[options.framework ?? "react"].getExport(logoName, options)
+}
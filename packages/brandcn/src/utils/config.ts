@@ -0,0 +1,132 @@
+import fs from "fs-extra"
+import path from "node:path"
+
+import type { BrandcnConfig } from "../types/config.js"
+import type { ComponentOptions, ProcessLogosOptions } from "../types/logos.js"
+
+import { configSchema } from "../types/config.js"
+
+const { pathExistsSync, readFileSync, writeFile } = fs
+
+export const configFileName = "brandcn.json"
+
+export interface LoadedConfig {
+  config: BrandcnConfig
+  filePath: string
+}
+
+/**
+ * Finds the closest brandcn.json, searching from the cwd up to the root
+ */
+export function findConfigPath(): null | string {
+  let currentDir = process.cwd()
+
+  while (true) {
+    const candidate = path.join(currentDir, configFileName)
+    if (pathExistsSync(candidate)) {
+      return candidate
+    }
+
+    const parent = path.dirname(currentDir)
+    if (parent === currentDir) {
+      return null
+    }
+    currentDir = parent
+  }
+}
+
+/**
+ * Reads and validates the closest brandcn.json
+ * @returns The config, or null when the project has none
+ * @throws When the file is not valid JSON or does not match the schema
+ */
+export function loadConfig(): LoadedConfig | null {
+  const filePath = findConfigPath()
+  if (!filePath) {
+    return null
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Invalid ${configFileName} at ${filePath}: ${message}`)
+  }
+
+  const result = configSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => {
+        const key = 0 < issue.path.length ? issue.path.join(".") : "(root)"
+        return `${key}: ${issue.message}`
+      })
+      .join("; ")
+    throw new Error(`Invalid ${configFileName} at ${filePath}: ${issues}`)
+  }
+
+  return { config: result.data, filePath }
+}
+
+/**
+ * Absolute logos directory configured in brandcn.json
+ * @param loaded - Config read by `loadConfig`
+ * @returns The directory, or null when the project has no brandcn.json
+ */
+export function getConfigOutputDir(loaded: LoadedConfig | null): null | string {
+  if (!loaded) {
+    return null
+  }
+
+  return path.resolve(path.dirname(loaded.filePath), loaded.config.outDir)
+}
+
+/**
+ * Writes brandcn.json to the current working directory
+ * @returns Path of the written file
+ */
+export async function writeConfig(config: BrandcnConfig): Promise<string> {
+  const filePath = path.join(process.cwd(), configFileName)
+  const validated = configSchema.parse(config)
+
+  await writeFile(filePath, `${JSON.stringify(validated, null, 2)}\n`)
+  return filePath
+}
+
+/**
+ * Fills component options the command line left unset from brandcn.json
+ * @param flags - Parsed command line options, which take precedence
+ * @param config - Project config, if any
+ */
+export function applyConfigDefaults<T extends ComponentOptions>(
+  flags: T,
+  config: BrandcnConfig | null,
+): T {
+  if (!config) {
+    return flags
+  }
+
+  return {
+    ...flags,
+    componentStyle: flags.componentStyle ?? config.componentStyle,
+    fileNaming: flags.fileNaming ?? config.fileNaming,
+    framework: flags.framework ?? config.framework,
+    optimize: flags.optimize ?? config.optimize,
+  }
+}
+
+/**
+ * Uses the default variants from brandcn.json when no variant flag was given
+ * @param flags - Parsed `add` options
+ * @param config - Project config, if any
+ */
+export function applyVariantDefaults(
+  flags: ProcessLogosOptions,
+  config: BrandcnConfig | null,
+): ProcessLogosOptions {
+  if (!config || flags.dark || flags.light || flags.wordmark) {
+    return flags
+  }
+
+  return { ...flags, ...config.variants }
+}
@@ -0,0 +1,226 @@
+import { color } from "./style.js"
+
+export type DiffLineType = "added" | "context" | "removed"
+
+export interface DiffLine {
+  type: DiffLineType
+  value: string
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/)
+
+  // A trailing newline should not show up as an extra empty line
+  if (0 < lines.length && "" === lines.at(-1)) {
+    lines.pop()
+  }
+
+  return lines
+}
+
+/**
+ * Computes a line based diff between two texts using the Myers algorithm
+ * @param oldText - Original text
+ * @param newText - Updated text
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText)
+  const newLines = splitLines(newText)
+  const max = oldLines.length + newLines.length
+  const offset = max + 1
+  const frontier = new Array<number>(2 * max + 3).fill(0)
+  const trace: number[][] = []
+
+  outer: for (let distance = 0; distance <= max; distance++) {
+    trace.push([...frontier])
+
+    for (let k = -distance; k <= distance; k += 2) {
+      const goDown =
+        k === -distance ||
+        (k !== distance &&
+          (frontier[offset + k - 1] ?? 0) < (frontier[offset + k + 1] ?? 0))
+      let x = goDown
+        ? (frontier[offset + k + 1] ?? 0)
+        : (frontier[offset + k - 1] ?? 0) + 1
+      let y = x - k
+
+      while (
+        x < oldLines.length &&
+        y < newLines.length &&
+        oldLines[x] === newLines[y]
+      ) {
+        x++
+        y++
+      }
+
+      frontier[offset + k] = x
+
+      if (x >= oldLines.length && y >= newLines.length) {
+        break outer
+      }
+    }
+  }
+
+  const result: DiffLine[] = []
+  let x = oldLines.length
+  let y = newLines.length
+
+  for (let distance = trace.length - 1; 0 <= distance; distance--) {
+    const previous = trace[distance] ?? []
+    const k = x - y
+    const goDown =
+      k === -distance ||
+      (k !== distance &&
+        (previous[offset + k - 1] ?? 0) < (previous[offset + k + 1] ?? 0))
+    const previousK = goDown ? k + 1 : k - 1
+    const previousX = previous[offset + previousK] ?? 0
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      x--
+      y--
+      result.push({ type: "context", value: oldLines[x] ?? "" })
+    }
+
+    if (0 < distance) {
+      if (x === previousX) {
+        y--
+        result.push({ type: "added", value: newLines[y] ?? "" })
+      } else {
+        x--
+        result.push({ type: "removed", value: oldLines[x] ?? "" })
+      }
+    }
+  }
+
+  return result.reverse()
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value
+}
+
+/**
+ * Renders a compact, colorized summary of the changed lines between two texts
+ * @param oldText - Original text
+ * @param newText - Updated text
+ * @param maxLines - Maximum number of changed lines to render
+ */
+export function createShortDiff(
+  oldText: string,
+  newText: string,
+  maxLines = 12,
+): string[] {
+  const changes = diffLines(oldText, newText).filter(
+    (line) => "context" !== line.type,
+  )
+  const lines = changes.slice(0, maxLines).map((line) => {
+    const value = truncate(line.value, 100)
+
+    return "added" === line.type
+      ? color.success(`+ ${value}`)
+      : color.error(`- ${value}`)
+  })
+
+  if (changes.length > maxLines) {
+    lines.push(color.dim(`… ${changes.length - maxLines} more changed lines`))
+  }
+
+  return lines
+}
+
+interface NumberedDiffLine extends DiffLine {
+  newLine: number
+  oldLine: number
+}
+
+function formatRange(lines: NumberedDiffLine[], side: "new" | "old"): string {
+  const skipped = "old" === side ? "added" : "removed"
+  const count = lines.filter((line) => skipped !== line.type).length
+  const first = lines.find((line) => skipped !== line.type)
+  // An empty range points at the line before it, like diff -u
+  const start = first
+    ? first[`${side}Line`]
+    : (lines[0]?.[`${side}Line`] ?? 1) - 1
+
+  return `${start},${count}`
+}
+
+/**
+ * Renders a colorized unified diff between two texts
+ * @param oldText - Original text
+ * @param newText - Updated text
+ * @param oldLabel - Name shown in the `---` header
+ * @param newLabel - Name shown in the `+++` header
+ * @param context - Unchanged lines shown around each change
+ * @returns The diff lines, empty when the texts have the same lines
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3,
+): string[] {
+  let oldLine = 1
+  let newLine = 1
+  const lines = diffLines(oldText, newText).map((line) => {
+    const numbered = { ...line, newLine, oldLine }
+
+    if ("added" !== line.type) {
+      oldLine++
+    }
+    if ("removed" !== line.type) {
+      newLine++
+    }
+
+    return numbered
+  })
+  const changes = lines.flatMap((line, index) =>
+    "context" === line.type ? [] : [index],
+  )
+
+  if (0 === changes.length) {
+    return []
+  }
+
+  // Changes closer than twice the context share a hunk
+  const hunks: [number, number][] = []
+  for (const index of changes) {
+    const start = Math.max(0, index - context)
+    const end = Math.min(lines.length, index + context + 1)
+    const previous = hunks.at(-1)
+
+    if (previous && start <= previous[1]) {
+      previous[1] = end
+    } else {
+      hunks.push([start, end])
+    }
+  }
+
+  const output = [
+    color.highlight(`--- ${oldLabel}`),
+    color.highlight(`+++ ${newLabel}`),
+  ]
+
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end)
+    output.push(
+      color.info(
+        `@@ -${formatRange(hunk, "old")} +${formatRange(hunk, "new")} @@`,
+      ),
+    )
+
+    for (const line of hunk) {
+      if ("added" === line.type) {
+        output.push(color.success(`+${line.value}`))
+      } else if ("removed" === line.type) {
+        output.push(color.error(`-${line.value}`))
+      } else {
+        output.push(` ${line.value}`)
+      }
+    }
+  }
+
+  return output
+}
@@ -1,21 +1,128 @@
 import fs from "fs-extra"
-const { access, copy, ensureDir, readdir, writeFile } = fs
+const { access, copy, ensureDir, readFile, readdir, remove, writeFile } = fs
 import { constants } from "node:fs"
 import path from "node:path"
 import { fileURLToPath } from "node:url"
 
+import type { LockEntry, LockedFile } from "../types/lock.js"
 import type {
+  ComponentOptions,
+  LogoFileConflict,
   LogoOperationResult,
   ProcessLogosOptions,
+  RemoveLogosOptions,
+  ThemedLogoPair,
+  UpdateLogosOptions,
   VariantType,
 } from "../types/logos.js"
+import type { LoadedConfig } from "./config.js"
+import type { SpriteLogo } from "./sprite.js"
+import type { StylesheetLogo } from "./stylesheet.js"
+
+import {
+  barrelFileName,
+  createBarrelSource,
+  getCustomRegion,
+} from "./barrel.js"
+import {
+  componentStyles,
+  createLogoComponentSource,
+  createSpriteComponentSource,
+  createThemedComponentSource,
+  getComponentExport,
+  getComponentExtension,
+  getLogoFileName,
+} from "./components.js"
+import { getConfigOutputDir, loadConfig } from "./config.js"
+import {
+  createLockEntry,
+  findRecoloredVariants,
+  getLockedLibraryLogo,
+  hashContent,
+  lockFileName,
+  readLockFile,
+  writeLockFile,
+} from "./lock.js"
+import { optimizeSvg } from "./optimize.js"
+import {
+  convertToCurrentColor,
+  getRecoloredLogoName,
+  recolorSvg,
+  swapSvgColors,
+} from "./recolor.js"
+import { findBrand, getLogoSlug } from "./registry.js"
+import { sanitizeSvg } from "./sanitize.js"
+import {
+  createSpriteSource,
+  getSpriteComponentFileName,
+  getSpriteSymbols,
+  isGeneratedSpriteFile,
+  spriteComponentFileNames,
+  spriteFileName,
+} from "./sprite.js"
+import {
+  createCssSource,
+  createTailwindPluginSource,
+  isGeneratedStylesheet,
+  stylesheetFileNames,
+} from "./stylesheet.js"
+import { suggestLogoNames } from "./suggest.js"
+import { trimSvg } from "./viewbox.js"
 
 export function getLibraryPath(): string {
   const currentDir = path.dirname(fileURLToPath(import.meta.url))
   return path.resolve(currentDir, "../../library")
 }
 
-export function getTargetLogosPath(): string {
+let libraryFiles: null | Promise<Map<string, string>> = null
+
+/**
+ * Maps the slug of every library logo to its SVG file name
+ */
+function getLibraryFiles(): Promise<Map<string, string>> {
+  libraryFiles ??= readdir(getLibraryPath())
+    .then(
+      (files) =>
+        new Map(
+          files
+            .filter((file) => file.endsWith(".svg"))
+            .map((file) => [getLogoSlug(path.parse(file).name), file]),
+        ),
+    )
+    .catch((error: unknown) => {
+      libraryFiles = null
+      throw error
+    })
+
+  return libraryFiles
+}
+
+/**
+ * SVG file a logo is read from, e.g. `apollo.io.svg` for `apollo-io`
+ * @param logoName - Logo slug, matched ignoring case
+ * @returns The file name, or null when the library has no such logo
+ */
+export async function getLibraryFileName(
+  logoName: string,
+): Promise<null | string> {
+  return (await getLibraryFiles()).get(getLogoSlug(logoName)) ?? null
+}
+
+/**
+ * Logos directory of the project. Commands resolve it once and pass it down,
+ * so brandcn.json is read and validated a single time.
+ * @param loaded - The project's brandcn.json, read when not given
+ * @throws When brandcn.json is not valid
+ */
+export function getTargetLogosPath(
+  loaded: LoadedConfig | null = loadConfig(),
+): string {
+  // brandcn.json written by `brandcn init` wins
+  const fromConfig = getConfigOutputDir(loaded)
+  if (fromConfig) {
+    return fromConfig
+  }
+
   // Try resolving from shadcn components.json
   const fromComponentsJson = getComponentsJsonOutputDir()
   if (fromComponentsJson) {
@@ -26,105 +133,195 @@ export function getTargetLogosPath(): string {
   return process.cwd()
 }
 
-async function logoExists(
+export async function logoExistsInLibrary(logoName: string): Promise<boolean> {
+  return null !== (await getLibraryFileName(logoName))
+}
+
+interface InstalledFileNames {
+  component: string
+  svg: string
+}
+
+/**
+ * Names of the SVG and component files a logo is installed under
+ * @param logoName - Library logo name or themed pair base name
+ * @param options - Component options selecting the framework and file naming
+ */
+export function getInstalledFileNames(
   logoName: string,
-  basePath: string,
-  extension: "svg" | "tsx" = "svg",
+  options: ComponentOptions = {},
+): InstalledFileNames {
+  const fileName = getLogoFileName(logoName, options.fileNaming)
+
+  return {
+    component: `${fileName}.${getComponentExtension(options.framework)}`,
+    svg: `${fileName}.svg`,
+  }
+}
+
+async function fileExistsInTarget(
+  targetPath: string,
+  fileName: string,
 ): Promise<boolean> {
   try {
-    await access(
-      path.join(basePath, `${logoName}.${extension}`),
-      constants.F_OK,
-    )
+    await access(path.join(targetPath, fileName), constants.F_OK)
     return true
   } catch {
     return false
   }
 }
 
-export async function logoExistsInLibrary(logoName: string): Promise<boolean> {
-  return logoExists(logoName, getLibraryPath())
-}
-
-export async function logoExistsInTarget(logoName: string): Promise<boolean> {
-  return logoExists(logoName, getTargetLogosPath())
+export async function logoExistsInTarget(
+  targetPath: string,
+  logoName: string,
+  options: ComponentOptions = {},
+): Promise<boolean> {
+  return fileExistsInTarget(
+    targetPath,
+    getInstalledFileNames(logoName, options).svg,
+  )
 }
 
 export async function logoComponentExistsInTarget(
+  targetPath: string,
   logoName: string,
+  options: ComponentOptions = {},
 ): Promise<boolean> {
-  return logoExists(logoName, getTargetLogosPath(), "tsx")
+  return fileExistsInTarget(
+    targetPath,
+    getInstalledFileNames(logoName, options).component,
+  )
 }
 
-export async function ensureTargetDirectory(): Promise<void> {
-  await ensureDir(getTargetLogosPath())
+export async function ensureTargetDirectory(targetPath: string): Promise<void> {
+  await ensureDir(targetPath)
 }
 
-export async function copyLogoToTarget(logoName: string): Promise<void> {
-  const sourcePath = path.join(getLibraryPath(), `${logoName}.svg`)
-  const destPath = path.join(getTargetLogosPath(), `${logoName}.svg`)
+export async function copyLogoToTarget(
+  targetPath: string,
+  logoName: string,
+  overwrite = false,
+  options: ComponentOptions = {},
+): Promise<void> {
+  const fileName = await getLibraryFileName(logoName)
+  if (!fileName) {
+    throw new Error(`Logo "${logoName}.svg" not found in library`)
+  }
+
+  const destPath = path.join(
+    targetPath,
+    getInstalledFileNames(logoName, options).svg,
+  )
 
-  try {
-    await copy(sourcePath, destPath, { overwrite: false })
-  } catch (error) {
-    if ("ENOENT" === (error as NodeJS.ErrnoException).code) {
-      throw new Error(`Logo "${logoName}.svg" not found in library`)
-    }
-    throw error
+  const svg = await readLogoSvg(logoName, options)
+  const library = await readFile(path.join(getLibraryPath(), fileName), "utf8")
+  if (svg.content !== library) {
+    await writeFile(destPath, svg.content, { flag: overwrite ? "w" : "wx" })
+    return
   }
+
+  await copy(path.join(getLibraryPath(), fileName), destPath, { overwrite })
 }
 
-function toPascalCase(value: string): string {
-  const pascal = value
-    .split(/[^a-zA-Z0-9]+/)
-    .filter(Boolean)
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-    .join("")
+export interface LibraryLogo {
+  content: string
+  file: string
+}
+
+/**
+ * Reads the library SVG of a logo along with the file it came from
+ * @param logoName - Logo slug, matched ignoring case
+ */
+export async function readLibraryFile(logoName: string): Promise<LibraryLogo> {
+  const file = await getLibraryFileName(logoName)
+  if (!file) {
+    throw new Error(`Logo "${logoName}.svg" not found in library`)
+  }
 
-  const safePascal = 0 < pascal.length ? pascal : "Logo"
-  return /^[A-Za-z]/.test(safePascal) ? safePascal : `Logo${safePascal}`
+  return {
+    content: await readFile(path.join(getLibraryPath(), file), "utf8"),
+    file,
+  }
 }
 
-function getComponentName(logoName: string): string {
-  const baseName = toPascalCase(logoName)
-  return baseName.endsWith("Logo") ? baseName : `${baseName}Logo`
+export async function readLibraryLogo(logoName: string): Promise<string> {
+  return (await readLibraryFile(logoName)).content
 }
 
-function createLogoComponentSource(logoName: string): string {
-  const componentName = getComponentName(logoName)
+export interface LogoSvg extends LibraryLogo {
+  // Bytes optimization removed, 0 when the SVG is not optimized
+  savedBytes: number
+  // Unsafe content the sanitizer removed
+  warnings: string[]
+}
+
+/**
+ * Reads the SVG `add` writes for a logo: the library file with unsafe
+ * content removed, recolored per `options.currentColor`, `options.color` or
+ * `options.colorMap`, trimmed per `options.trim` and optimized when
+ * `options.optimize` is set
+ * @param logoName - Library logo slug, matched ignoring case
+ * @param options - Component options of the install
+ * @throws When the logo is not in the library, its SVG cannot be parsed or it
+ * has several colors while `options.currentColor` is set
+ */
+export async function readLogoSvg(
+  logoName: string,
+  options: ComponentOptions = {},
+): Promise<LogoSvg> {
+  const library = await readLibraryFile(logoName)
+  const { content: sanitized, warnings } = sanitizeSvg(library.content)
+  let source = sanitized
+
+  if (options.currentColor) {
+    source = convertToCurrentColor(sanitized)
+  } else if (options.color) {
+    source = recolorSvg(sanitized, options.color)
+  } else if (options.colorMap) {
+    source = swapSvgColors(sanitized, options.colorMap)
+  }
+
+  if (options.trim) {
+    source = await trimSvg(source, options.trim)
+  }
+
+  if (!options.optimize) {
+    return { content: source, file: library.file, savedBytes: 0, warnings }
+  }
+
+  const content = optimizeSvg(source, getLogoSlug(logoName))
 
-  return [
-    'import type { ComponentProps } from "react"',
-    "",
-    `const src = new URL("./${logoName}.svg", import.meta.url).toString()`,
-    "",
-    `export type ${componentName}Props = Omit<ComponentProps<"img">, "src">`,
-    "",
-    `export function ${componentName}(props: ${componentName}Props) {`,
-    `  return <img src={src} alt="${logoName}" {...props} />`,
-    "}",
-    "",
-    `export default ${componentName}`,
-    "",
-  ].join("\n")
+  return {
+    content,
+    file: library.file,
+    savedBytes: Buffer.byteLength(source) - Buffer.byteLength(content),
+    warnings,
+  }
 }
 
-export async function createLogoComponentInTarget(
+/**
+ * Reads the installed SVG of a variant
+ * @returns The markup, or null when the variant is not installed
+ */
+export async function readInstalledLogo(
+  targetPath: string,
   logoName: string,
-): Promise<void> {
-  const destPath = path.join(getTargetLogosPath(), `${logoName}.tsx`)
-  await writeFile(destPath, createLogoComponentSource(logoName), {
-    flag: "wx",
-  })
+  options: ComponentOptions = {},
+): Promise<null | string> {
+  const filePath = path.join(
+    targetPath,
+    getInstalledFileNames(logoName, options).svg,
+  )
+
+  return readFile(filePath, "utf8").catch(() => null)
 }
 
+/**
+ * Slugs of every logo in the library, sorted
+ */
 export async function getAvailableLogos(): Promise<string[]> {
   try {
-    const files = await readdir(getLibraryPath())
-    return files
-      .filter((file) => file.endsWith(".svg"))
-      .map((file) => path.parse(file).name)
-      .sort()
+    return [...(await getLibraryFiles()).keys()].sort()
   } catch (error) {
     throw new Error(
       `Failed to read library directory: ${
@@ -152,6 +349,25 @@ export function findLogoVariants(
   })
 }
 
+/**
+ * Library files of a brand: the registry variants when `logoName` is a brand
+ * id or alias, otherwise the files matching it by name
+ * @param logoName - Brand, alias or library file name
+ * @param availableLogos - Files to pick from
+ */
+export function findBrandVariants(
+  logoName: string,
+  availableLogos: string[],
+): string[] {
+  const brand = findBrand(logoName)
+
+  if (brand) {
+    return brand.variants.filter((variant) => availableLogos.includes(variant))
+  }
+
+  return findLogoVariants(logoName, availableLogos)
+}
+
 export function filterByVariants(
   logoNames: string[],
   options: ProcessLogosOptions,
@@ -199,72 +415,1152 @@ export function filterByVariants(
   })
 }
 
+type ResolvedLogoVariants =
+  | { error: string; suggestions?: string[]; variants?: undefined }
+  | { error?: undefined; variants: string[] }
+
+async function resolveLogoVariants(
+  logoName: string,
+  availableLogos: string[],
+  options: Pick<ProcessLogosOptions, "dark" | "light" | "wordmark">,
+): Promise<ResolvedLogoVariants> {
+  let logoVariants = findBrandVariants(logoName, availableLogos)
+
+  if (0 === logoVariants.length) {
+    if (!(await logoExistsInLibrary(logoName))) {
+      return {
+        error: `Logo "${logoName}" not found in library`,
+        suggestions: suggestLogoNames(logoName, availableLogos),
+      }
+    }
+
+    logoVariants = [logoName]
+  }
+
+  const filteredVariants = filterByVariants(logoVariants, options)
+
+  if (0 === filteredVariants.length) {
+    return {
+      error: `No variants found for "${logoName}" matching the specified flags`,
+    }
+  }
+
+  return { variants: filteredVariants }
+}
+
+interface ConflictState {
+  overwriteAll: boolean
+}
+
+/**
+ * Decides whether an installed file that differs from the library should be
+ * replaced, asking `onConflict` unless `--force` or "overwrite all" applies
+ */
+async function shouldOverwriteFile(
+  conflict: LogoFileConflict,
+  state: ConflictState,
+  options: ProcessLogosOptions,
+): Promise<boolean> {
+  if (conflict.existing === conflict.incoming) {
+    return false
+  }
+
+  if (state.overwriteAll) {
+    return true
+  }
+
+  if (!options.onConflict) {
+    return false
+  }
+
+  const resolution = await options.onConflict(conflict)
+
+  if ("overwrite-all" === resolution) {
+    state.overwriteAll = true
+  }
+
+  return "keep" !== resolution
+}
+
+/**
+ * Writes the themed component of every dark/light pair of a brand whose
+ * variant components are both installed
+ */
+async function writeThemedComponents(
+  targetPath: string,
+  brandVariants: string[],
+  availableLogos: string[],
+  conflictState: ConflictState,
+  options: ProcessLogosOptions,
+): Promise<LogoOperationResult[]> {
+  const results: LogoOperationResult[] = []
+
+  for (const pair of findThemedLogoPairs(brandVariants)) {
+    // A library logo with the base name owns that file name
+    if (
+      availableLogos.includes(pair.baseName) ||
+      !(await logoComponentExistsInTarget(targetPath, pair.dark, options)) ||
+      !(await logoComponentExistsInTarget(targetPath, pair.light, options))
+    ) {
+      continue
+    }
+
+    const fileName = getInstalledFileNames(pair.baseName, options).component
+    const filePath = path.join(targetPath, fileName)
+    const source = createThemedComponentSource(pair, options)
+
+    try {
+      if (await fileExistsInTarget(targetPath, fileName)) {
+        const overwrite = await shouldOverwriteFile(
+          {
+            existing: await readFile(filePath, "utf8"),
+            fileName,
+            incoming: source,
+          },
+          conflictState,
+          options,
+        )
+
+        if (overwrite) {
+          await writeFile(filePath, source)
+        }
+
+        results.push({
+          logoName: pair.baseName,
+          reason: overwrite
+            ? undefined
+            : "Themed component already exists in logos directory",
+          skipped: !overwrite,
+          skippedFiles: overwrite ? undefined : [fileName],
+          success: true,
+          themed: true,
+          updated: overwrite,
+          updatedFiles: overwrite ? [fileName] : undefined,
+        })
+        continue
+      }
+
+      await writeFile(filePath, source, { flag: "wx" })
+      results.push({
+        createdFiles: [fileName],
+        logoName: pair.baseName,
+        success: true,
+        themed: true,
+      })
+    } catch (error) {
+      results.push({
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        logoName: pair.baseName,
+        success: false,
+        themed: true,
+      })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Rewrites the `index.ts` barrel of the logos directory so it exports every
+ * installed component, keeping its custom region. An `index.ts` that was not
+ * generated by brandcn is left alone and reported as skipped.
+ * @param options - Framework and file naming of components missing from the
+ * lock file
+ */
+async function updateLogosBarrel(
+  targetPath: string,
+  availableLogos: string[],
+  options: ComponentOptions,
+): Promise<LogoOperationResult[]> {
+  const barrelPath = path.join(targetPath, barrelFileName)
+
+  try {
+    // Locked components are exported with the options they were installed
+    // with, recolored copies being only known from the lock file
+    const { logos } = await readLockFile(targetPath)
+    const componentOptions = new Map<string, ComponentOptions>(
+      availableLogos.map((logoName) => [logoName, options]),
+    )
+    for (const [logoName, entry] of Object.entries(logos)) {
+      componentOptions.set(logoName, entry.options)
+    }
+    // Themed components are written along with their dark variant
+    for (const pair of findThemedLogoPairs([...componentOptions.keys()])) {
+      if (!(pair.baseName in logos)) {
+        componentOptions.set(
+          pair.baseName,
+          componentOptions.get(pair.dark) ?? options,
+        )
+      }
+    }
+    // Maps component file names back to the logo they were generated for
+    const componentFiles = new Map(
+      [...componentOptions].map(([logoName, logoOptions]) => [
+        getInstalledFileNames(logoName, logoOptions).component,
+        logoName,
+      ]),
+    )
+    const files = await readdir(targetPath).catch(() => [])
+    const installed = files.flatMap((file) => {
+      const logoName = componentFiles.get(file)
+      return undefined === logoName ? [] : [logoName]
+    })
+    const existing = await readFile(barrelPath, "utf8").catch(() => null)
+    const custom = null === existing ? "" : getCustomRegion(existing)
+
+    if (null === custom) {
+      return [
+        {
+          logoName: barrelFileName,
+          reason: `${barrelFileName} was not generated by brandcn`,
+          skipped: true,
+          skippedFiles: [barrelFileName],
+          success: true,
+        },
+      ]
+    }
+
+    if (0 === installed.length && 0 === custom.length) {
+      await remove(barrelPath)
+      return []
+    }
+
+    const source = createBarrelSource(
+      installed.map((logoName) => ({
+        logoName,
+        ...getComponentExport(logoName, componentOptions.get(logoName)),
+      })),
+      custom,
+    )
+
+    if (source !== existing) {
+      await writeFile(barrelPath, source)
+    }
+
+    return []
+  } catch (error) {
+    return [
+      {
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        logoName: barrelFileName,
+        success: false,
+      },
+    ]
+  }
+}
+
+/**
+ * Rewrites `logos.css` and the Tailwind plugin of the logos directory with a
+ * class for every logo installed in their format, per the lock file. A file
+ * left without logos is removed; one that was not generated by brandcn is
+ * left alone and reported as skipped.
+ */
+async function updateLogosStylesheets(
+  targetPath: string,
+): Promise<LogoOperationResult[]> {
+  const results: LogoOperationResult[] = []
+
+  for (const format of ["css", "tailwind"] as const) {
+    const fileName = stylesheetFileNames[format]
+    const filePath = path.join(targetPath, fileName)
+
+    try {
+      const lock = await readLockFile(targetPath)
+      const logos: StylesheetLogo[] = []
+
+      for (const [logoName, entry] of Object.entries(lock.logos)) {
+        const svg =
+          format === entry.options.format
+            ? await readFile(
+                path.join(targetPath, entry.svg.file),
+                "utf8",
+              ).catch(() => null)
+            : null
+
+        if (null !== svg) {
+          logos.push({ logoName, svg })
+        }
+      }
+
+      const existing = await readFile(filePath, "utf8").catch(() => null)
+      const isGenerated = null !== existing && isGeneratedStylesheet(existing)
+
+      if (0 === logos.length) {
+        if (isGenerated) {
+          await remove(filePath)
+        }
+        continue
+      }
+
+      if (null !== existing && !isGenerated) {
+        results.push({
+          logoName: fileName,
+          reason: `${fileName} was not generated by brandcn`,
+          skipped: true,
+          skippedFiles: [fileName],
+          success: true,
+        })
+        continue
+      }
+
+      const source =
+        "css" === format
+          ? createCssSource(logos)
+          : createTailwindPluginSource(logos)
+
+      if (source !== existing) {
+        await writeFile(filePath, source)
+      }
+    } catch (error) {
+      results.push({
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        logoName: fileName,
+        success: false,
+      })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Rewrites `logos.sprite.svg` and the <Logo name> components with a symbol for
+ * every logo installed in the sprite format, per the lock file. Each logo goes
+ * in the component of the framework and file naming it was installed with.
+ * Files left without logos are removed; when one of them was not generated by
+ * brandcn, all are left alone and reported as skipped.
+ */
+async function updateLogosSprite(
+  targetPath: string,
+): Promise<LogoOperationResult[]> {
+  try {
+    const lock = await readLockFile(targetPath)
+    const logos: SpriteLogo[] = []
+    const components = new Map<
+      string,
+      { logos: SpriteLogo[]; options: ComponentOptions }
+    >()
+
+    for (const [logoName, entry] of Object.entries(lock.logos)) {
+      const svg =
+        "sprite" === entry.options.format
+          ? await readFile(path.join(targetPath, entry.svg.file), "utf8").catch(
+              () => null,
+            )
+          : null
+
+      if (null !== svg) {
+        const componentFile = getSpriteComponentFileName(entry.options)
+        const component = components.get(componentFile) ?? {
+          logos: [],
+          options: entry.options,
+        }
+
+        logos.push({ logoName, svg })
+        component.logos.push({ logoName, svg })
+        components.set(componentFile, component)
+      }
+    }
+
+    const files = [spriteFileName, ...components.keys()]
+    const existing = await Promise.all(
+      files.map((file) =>
+        readFile(path.join(targetPath, file), "utf8").catch(() => null),
+      ),
+    )
+    const foreign = files.filter((_, index) => {
+      const source = existing[index]
+      return null != source && !isGeneratedSpriteFile(source)
+    })
+
+    if (0 < foreign.length) {
+      return 0 === logos.length
+        ? []
+        : [
+            {
+              logoName: spriteFileName,
+              reason: `${foreign.join(", ")} was not generated by brandcn`,
+              skipped: true,
+              skippedFiles: foreign,
+              success: true,
+            },
+          ]
+    }
+
+    // Components of frameworks or file namings no logo is installed with
+    for (const file of spriteComponentFileNames) {
+      const source = components.has(file)
+        ? null
+        : await readFile(path.join(targetPath, file), "utf8").catch(() => null)
+
+      if (null !== source && isGeneratedSpriteFile(source)) {
+        await remove(path.join(targetPath, file))
+      }
+    }
+
+    if (0 === logos.length) {
+      if (null != existing[0]) {
+        await remove(path.join(targetPath, spriteFileName))
+      }
+      return []
+    }
+
+    const sources = [
+      createSpriteSource(logos),
+      ...[...components.values()].map((component) =>
+        createSpriteComponentSource(
+          getSpriteSymbols(component.logos),
+          spriteFileName,
+          component.options,
+        ),
+      ),
+    ]
+
+    for (const [index, file] of files.entries()) {
+      if (sources[index] !== existing[index]) {
+        await writeFile(path.join(targetPath, file), sources[index] ?? "")
+      }
+    }
+
+    return []
+  } catch (error) {
+    return [
+      {
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        logoName: spriteFileName,
+        success: false,
+      },
+    ]
+  }
+}
+
+/**
+ * Files of a locked variant that are installed under other names than the
+ * ones about to be written, e.g. after switching frameworks. The lock file
+ * records one install per variant, so it has to be removed first.
+ * @param files - Files the variant is about to be installed as
+ */
+async function getOtherInstalledFiles(
+  targetPath: string,
+  entry: LockEntry | undefined,
+  files: string[],
+): Promise<string[]> {
+  const lockedFiles = entry
+    ? [entry.svg, entry.component].flatMap((locked) =>
+        locked && !files.includes(locked.file) ? [locked.file] : [],
+      )
+    : []
+  const otherFiles: string[] = []
+
+  for (const file of lockedFiles) {
+    if (await fileExistsInTarget(targetPath, file)) {
+      otherFiles.push(file)
+    }
+  }
+
+  return otherFiles
+}
+
+/**
+ * Installs the variants of every logo with their components
+ * @param targetPath - Logos directory, resolved once by the command
+ */
 export async function processLogos(
   logoNames: string[],
   options: ProcessLogosOptions = {},
+  targetPath = getTargetLogosPath(),
 ): Promise<LogoOperationResult[]> {
   const results: LogoOperationResult[] = []
   const availableLogos = await getAvailableLogos()
-  await ensureTargetDirectory()
+  const conflictState: ConflictState = { overwriteAll: Boolean(options.force) }
+  // Logos installed as CSS classes get no component
+  const writesComponent = "component" === (options.format ?? "component")
+  await ensureTargetDirectory(targetPath)
+  const lock = await readLockFile(targetPath)
 
   for (const logoName of logoNames) {
     try {
-      let logoVariants = findLogoVariants(logoName, availableLogos)
-
-      if (0 === logoVariants.length) {
-        if (await logoExistsInLibrary(logoName)) {
-          logoVariants = [logoName]
-        } else {
-          results.push({
-            error: `Logo "${logoName}" not found in library`,
-            logoName,
-            success: false,
-          })
-          continue
-        }
-      }
-
-      const filteredVariants = filterByVariants(logoVariants, options)
+      const resolved = await resolveLogoVariants(
+        logoName,
+        availableLogos,
+        options,
+      )
 
-      if (0 === filteredVariants.length) {
+      if (undefined !== resolved.error) {
         results.push({
-          error: `No variants found for "${logoName}" matching the specified flags`,
+          error: resolved.error,
           logoName,
           success: false,
+          suggestions: resolved.suggestions,
         })
         continue
       }
 
-      for (const variant of filteredVariants) {
+      const installedNames = new Set<string>()
+
+      for (const variant of resolved.variants) {
+        // Recolored copies are installed under their own name, e.g.
+        // vercel_mono, which dark and light variants may share
+        const installedName = getRecoloredLogoName(variant, options)
+        if (installedNames.has(installedName)) {
+          continue
+        }
+        installedNames.add(installedName)
+
         try {
           const createdFiles: string[] = []
           const skippedFiles: string[] = []
+          const updatedFiles: string[] = []
+          const { component: componentFile, svg: svgFile } =
+            getInstalledFileNames(installedName, options)
+          const otherFiles = await getOtherInstalledFiles(
+            targetPath,
+            lock.logos[installedName],
+            writesComponent ? [svgFile, componentFile] : [svgFile],
+          )
 
-          if (await logoExistsInTarget(variant)) {
-            skippedFiles.push(`${variant}.svg`)
-          } else {
-            await copyLogoToTarget(variant)
-            createdFiles.push(`${variant}.svg`)
+          if (0 < otherFiles.length) {
+            results.push({
+              error: `${installedName} is installed as ${otherFiles.join(", ")} with other options (remove it first to switch)`,
+              logoName: installedName,
+              success: false,
+            })
+            continue
           }
 
-          if (await logoComponentExistsInTarget(variant)) {
-            skippedFiles.push(`${variant}.tsx`)
+          const {
+            content: librarySvg,
+            file: libraryFile,
+            savedBytes,
+            warnings,
+          } = await readLogoSvg(variant, options)
+          const componentSource = createLogoComponentSource(
+            installedName,
+            librarySvg,
+            options,
+          )
+          const write = (file: string, content: string, overwrite: boolean) =>
+            writeFile(path.join(targetPath, file), content, {
+              flag: overwrite ? "w" : "wx",
+            })
+
+          if (await logoExistsInTarget(targetPath, installedName, options)) {
+            const overwrite = await shouldOverwriteFile(
+              {
+                existing: await readFile(
+                  path.join(targetPath, svgFile),
+                  "utf8",
+                ),
+                fileName: svgFile,
+                incoming: librarySvg,
+              },
+              conflictState,
+              options,
+            )
+
+            if (overwrite) {
+              await write(svgFile, librarySvg, true)
+              updatedFiles.push(svgFile)
+            } else {
+              skippedFiles.push(svgFile)
+            }
           } else {
-            await createLogoComponentInTarget(variant)
-            createdFiles.push(`${variant}.tsx`)
+            await write(svgFile, librarySvg, false)
+            createdFiles.push(svgFile)
           }
 
-          const isSkipped = 0 === createdFiles.length
+          if (
+            writesComponent &&
+            (await logoComponentExistsInTarget(
+              targetPath,
+              installedName,
+              options,
+            ))
+          ) {
+            const overwrite = await shouldOverwriteFile(
+              {
+                existing: await readFile(
+                  path.join(targetPath, componentFile),
+                  "utf8",
+                ),
+                fileName: componentFile,
+                incoming: componentSource,
+              },
+              conflictState,
+              options,
+            )
+
+            if (overwrite) {
+              await write(componentFile, componentSource, true)
+              updatedFiles.push(componentFile)
+            } else {
+              skippedFiles.push(componentFile)
+            }
+          } else if (writesComponent) {
+            await write(componentFile, componentSource, false)
+            createdFiles.push(componentFile)
+          }
+
+          const isSkipped =
+            0 === createdFiles.length && 0 === updatedFiles.length
+
+          // Files the user chose to keep are still locked to what add would
+          // have written, so later commands can tell they were modified
+          if (!isSkipped || !lock.logos[installedName]) {
+            lock.logos[installedName] = createLockEntry(
+              libraryFile,
+              { content: librarySvg, file: svgFile },
+              writesComponent
+                ? { content: componentSource, file: componentFile }
+                : null,
+              options,
+            )
+          }
 
           results.push({
-            createdFiles: isSkipped ? undefined : createdFiles,
-            logoName: variant,
+            createdFiles: 0 < createdFiles.length ? createdFiles : undefined,
+            logoName: installedName,
             reason: isSkipped
-              ? "Logo SVG and TSX component already exists in logos directory"
+              ? writesComponent
+                ? "Logo SVG and component already exists in logos directory"
+                : "Logo SVG already exists in logos directory"
               : undefined,
+            savedBytes:
+              0 < savedBytes && !skippedFiles.includes(svgFile)
+                ? savedBytes
+                : undefined,
             skipped: isSkipped,
             skippedFiles: 0 < skippedFiles.length ? skippedFiles : undefined,
             success: true,
+            updated: 0 < updatedFiles.length,
+            updatedFiles: 0 < updatedFiles.length ? updatedFiles : undefined,
+            warnings: 0 < warnings.length ? warnings : undefined,
+          })
+        } catch (error) {
+          results.push({
+            error:
+              error instanceof Error ? error.message : "Unknown error occurred",
+            logoName: installedName,
+            success: false,
+          })
+        }
+      }
+
+      if (writesComponent) {
+        const brandVariants = findBrandVariants(logoName, availableLogos).map(
+          (variant) => getRecoloredLogoName(variant, options),
+        )
+        results.push(
+          ...(await writeThemedComponents(
+            targetPath,
+            [...new Set(brandVariants)],
+            availableLogos,
+            conflictState,
+            options,
+          )),
+        )
+      }
+    } catch (error) {
+      results.push({
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        logoName,
+        success: false,
+      })
+    }
+  }
+
+  await writeLockFile(targetPath, lock)
+  results.push(
+    ...(await updateLogosBarrel(targetPath, availableLogos, options)),
+  )
+  results.push(...(await updateLogosStylesheets(targetPath)))
+  results.push(...(await updateLogosSprite(targetPath)))
+
+  return results
+}
+
+type RefreshedFileStatus = "created" | "kept" | "unchanged" | "updated"
+
+/**
+ * Brings an installed file in line with what `add` writes today. A file that
+ * still matches its locked hash is rewritten; local changes are only
+ * overwritten with --force or when `onConflict` agrees
+ */
+async function refreshInstalledFile(
+  targetPath: string,
+  locked: LockedFile,
+  incoming: string,
+  conflictState: ConflictState,
+  options: UpdateLogosOptions,
+): Promise<RefreshedFileStatus> {
+  const filePath = path.join(targetPath, locked.file)
+  const existing = await readFile(filePath, "utf8").catch(() => null)
+
+  if (null === existing) {
+    await writeFile(filePath, incoming)
+    return "created"
+  }
+
+  if (existing === incoming || hashContent(incoming) === locked.hash) {
+    return "unchanged"
+  }
+
+  const overwrite =
+    hashContent(existing) === locked.hash ||
+    (await shouldOverwriteFile(
+      { existing, fileName: locked.file, incoming },
+      conflictState,
+      options,
+    ))
+
+  if (!overwrite) {
+    return "kept"
+  }
+
+  await writeFile(filePath, incoming)
+  return "updated"
+}
+
+/**
+ * Refreshes variants recorded in brandcn-lock.json from the current library
+ * and component templates, using the options they were installed with
+ * @param logoNames - Brands or variants to update, every locked variant when
+ * empty
+ * @param options - Conflict handling options
+ * @param targetPath - Logos directory, resolved once by the command
+ */
+export async function updateLogos(
+  logoNames: string[],
+  options: UpdateLogosOptions = {},
+  targetPath = getTargetLogosPath(),
+): Promise<LogoOperationResult[]> {
+  const results: LogoOperationResult[] = []
+  const availableLogos = await getAvailableLogos()
+  const lock = await readLockFile(targetPath)
+  const lockedVariants = Object.keys(lock.logos)
+  const conflictState: ConflictState = { overwriteAll: Boolean(options.force) }
+  const variants = new Set(0 === logoNames.length ? lockedVariants : [])
+
+  for (const logoName of logoNames) {
+    const matches = [
+      ...findBrandVariants(logoName, lockedVariants),
+      ...findRecoloredVariants(
+        findBrandVariants(logoName, availableLogos),
+        lock,
+      ),
+    ]
+
+    if (0 === matches.length) {
+      results.push({
+        error: `Logo "${logoName}" is not recorded in ${lockFileName}`,
+        logoName,
+        success: false,
+      })
+      continue
+    }
+
+    for (const variant of matches) {
+      variants.add(variant)
+    }
+  }
+
+  // Variants installed with the same options share themed components
+  const groups = new Map<
+    string,
+    { options: ComponentOptions; variants: string[] }
+  >()
+
+  for (const variant of variants) {
+    const entry = lock.logos[variant]
+    if (!entry) {
+      continue
+    }
+
+    const libraryLogo = getLockedLibraryLogo(entry)
+    if (!availableLogos.includes(libraryLogo)) {
+      results.push({
+        error: `Logo "${libraryLogo}" is no longer in the library`,
+        logoName: variant,
+        success: false,
+      })
+      continue
+    }
+
+    try {
+      const {
+        content: librarySvg,
+        file: libraryFile,
+        warnings,
+      } = await readLogoSvg(libraryLogo, entry.options)
+      const componentSource = createLogoComponentSource(
+        variant,
+        librarySvg,
+        entry.options,
+      )
+      const createdFiles: string[] = []
+      const keptFiles: string[] = []
+      const updatedFiles: string[] = []
+      const refreshed: [LockedFile, string][] = entry.component
+        ? [
+            [entry.svg, librarySvg],
+            [entry.component, componentSource],
+          ]
+        : [[entry.svg, librarySvg]]
+
+      for (const [locked, incoming] of refreshed) {
+        const status = await refreshInstalledFile(
+          targetPath,
+          locked,
+          incoming,
+          conflictState,
+          options,
+        )
+
+        if ("created" === status) {
+          createdFiles.push(locked.file)
+        } else if ("kept" === status) {
+          keptFiles.push(locked.file)
+        } else if ("updated" === status) {
+          updatedFiles.push(locked.file)
+        }
+      }
+
+      const isSkipped = 0 === createdFiles.length && 0 === updatedFiles.length
+      let reason = isSkipped ? "Up to date" : undefined
+
+      if (0 < keptFiles.length) {
+        reason = "Changed in the library but modified locally"
+      }
+
+      // Kept files are locked to the new library version as well, so they
+      // are not offered again until the library changes once more
+      if (!isSkipped || 0 < keptFiles.length) {
+        lock.logos[variant] = createLockEntry(
+          libraryFile,
+          { content: librarySvg, file: entry.svg.file },
+          entry.component && {
+            content: componentSource,
+            file: entry.component.file,
+          },
+          entry.options,
+        )
+      }
+
+      results.push({
+        createdFiles: 0 < createdFiles.length ? createdFiles : undefined,
+        logoName: variant,
+        reason,
+        skipped: isSkipped,
+        skippedFiles: 0 < keptFiles.length ? keptFiles : undefined,
+        success: true,
+        updated: !isSkipped,
+        updatedFiles: 0 < updatedFiles.length ? updatedFiles : undefined,
+        warnings: 0 < warnings.length ? warnings : undefined,
+      })
+
+      const groupKey = JSON.stringify(entry.options)
+      const group = groups.get(groupKey) ?? {
+        options: entry.options,
+        variants: [],
+      }
+      group.variants.push(variant)
+      groups.set(groupKey, group)
+    } catch (error) {
+      results.push({
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        logoName: variant,
+        success: false,
+      })
+    }
+  }
+
+  for (const group of groups.values()) {
+    if ("component" !== (group.options.format ?? "component")) {
+      continue
+    }
+
+    const themedResults = await writeThemedComponents(
+      targetPath,
+      group.variants,
+      availableLogos,
+      conflictState,
+      { ...group.options, ...options },
+    )
+    results.push(...themedResults.filter((result) => !result.skipped))
+  }
+
+  await writeLockFile(targetPath, lock)
+
+  // Components missing from the lock file are looked up with the options of
+  // the updated ones
+  const [firstGroup] = groups.values()
+  if (firstGroup) {
+    results.push(
+      ...(
+        await updateLogosBarrel(targetPath, availableLogos, firstGroup.options)
+      ).filter((result) => !result.success),
+    )
+  }
+  // The sprite only changes with its own logos
+  const hasSpriteLogos = [...groups.values()].some(
+    (group) => "sprite" === group.options.format,
+  )
+  results.push(
+    ...[
+      ...(await updateLogosStylesheets(targetPath)),
+      ...(hasSpriteLogos ? await updateLogosSprite(targetPath) : []),
+    ].filter((result) => !result.success),
+  )
+
+  return results
+}
+
+/**
+ * Lists the installed files of a variant whose contents no longer match
+ * what `add` would have written for it
+ * @param libraryLogo - Library logo the variant was installed from, which
+ * differs for recolored copies
+ */
+export async function getModifiedLogoFiles(
+  targetPath: string,
+  variant: string,
+  options: ComponentOptions = {},
+  libraryLogo = variant,
+): Promise<string[]> {
+  const { component: componentFile, svg: svgFile } = getInstalledFileNames(
+    variant,
+    options,
+  )
+  const modifiedFiles: string[] = []
+
+  if (await logoExistsInTarget(targetPath, variant, options)) {
+    const installed = await readFile(path.join(targetPath, svgFile), "utf8")
+    const original = await readLogoSvg(libraryLogo, options).catch(() => null)
+
+    if (!original || installed !== original.content) {
+      modifiedFiles.push(svgFile)
+    }
+  }
+
+  if (await logoComponentExistsInTarget(targetPath, variant, options)) {
+    const installed = await readFile(
+      path.join(targetPath, componentFile),
+      "utf8",
+    )
+
+    const original = await readLogoSvg(libraryLogo, options)
+      .then((svg) => svg.content)
+      .catch(() => null)
+    const matchesGenerated =
+      null !== original &&
+      componentStyles.some(
+        (componentStyle) =>
+          installed ===
+          createLogoComponentSource(variant, original, {
+            ...options,
+            componentStyle,
+          }),
+      )
+
+    if (!matchesGenerated) {
+      modifiedFiles.push(componentFile)
+    }
+  }
+
+  return modifiedFiles
+}
+
+/**
+ * Lists the installed files of a locked variant that were edited since
+ * install, by their hashes in the lock file. Unlike regenerating them, this
+ * holds across library and brandcn upgrades.
+ */
+export async function getEditedLockedFiles(
+  targetPath: string,
+  entry: LockEntry,
+): Promise<string[]> {
+  const lockedFiles = entry.component
+    ? [entry.svg, entry.component]
+    : [entry.svg]
+  const editedFiles: string[] = []
+
+  for (const locked of lockedFiles) {
+    const existing = await readFile(path.join(targetPath, locked.file)).catch(
+      () => null,
+    )
+
+    if (null !== existing && hashContent(existing) !== locked.hash) {
+      editedFiles.push(locked.file)
+    }
+  }
+
+  return editedFiles
+}
+
+/**
+ * Removes themed components whose dark or light component is gone, since
+ * they would no longer compile
+ */
+async function removeOrphanedThemedComponents(
+  targetPath: string,
+  brandVariants: string[],
+  options: RemoveLogosOptions,
+): Promise<LogoOperationResult[]> {
+  const results: LogoOperationResult[] = []
+
+  for (const pair of findThemedLogoPairs(brandVariants)) {
+    const fileName = getInstalledFileNames(pair.baseName, options).component
+    const filePath = path.join(targetPath, fileName)
+
+    if (
+      !(await fileExistsInTarget(targetPath, fileName)) ||
+      ((await logoComponentExistsInTarget(targetPath, pair.dark, options)) &&
+        (await logoComponentExistsInTarget(targetPath, pair.light, options)))
+    ) {
+      continue
+    }
+
+    const installed = await readFile(filePath, "utf8")
+
+    if (
+      !options.force &&
+      installed !== createThemedComponentSource(pair, options)
+    ) {
+      results.push({
+        error: `${fileName} changed since install (use --force to remove anyway)`,
+        logoName: pair.baseName,
+        success: false,
+        themed: true,
+      })
+      continue
+    }
+
+    await remove(filePath)
+    results.push({
+      logoName: pair.baseName,
+      removedFiles: [fileName],
+      success: true,
+      themed: true,
+    })
+  }
+
+  return results
+}
+
+/**
+ * Removes the variants of every logo along with their components, unless
+ * they were edited since install
+ * @param targetPath - Logos directory, resolved once by the command
+ */
+export async function removeLogos(
+  logoNames: string[],
+  options: RemoveLogosOptions = {},
+  targetPath = getTargetLogosPath(),
+): Promise<LogoOperationResult[]> {
+  const results: LogoOperationResult[] = []
+  const availableLogos = await getAvailableLogos()
+  const lock = await readLockFile(targetPath)
+
+  for (const logoName of logoNames) {
+    try {
+      const lockEntry = lock.logos[logoName]
+      // A recolored copy named directly, e.g. vercel_mono
+      const isRecolored =
+        undefined !== lockEntry && logoName !== getLockedLibraryLogo(lockEntry)
+      const resolved = isRecolored
+        ? { variants: [logoName] }
+        : await resolveLogoVariants(logoName, availableLogos, options)
+
+      if (undefined !== resolved.error) {
+        results.push({ error: resolved.error, logoName, success: false })
+        continue
+      }
+
+      // Recolored copies go along with the variants they were made from
+      const libraryVariants = findBrandVariants(logoName, availableLogos)
+      const variants = isRecolored
+        ? resolved.variants
+        : [
+            ...resolved.variants,
+            ...findRecoloredVariants(resolved.variants, lock),
+          ]
+      const brandVariants = isRecolored
+        ? variants
+        : [...libraryVariants, ...findRecoloredVariants(libraryVariants, lock)]
+      let installedCount = 0
+      // Themed components follow the variants they switch between
+      let brandOptions = options
+
+      for (const variant of variants) {
+        try {
+          // Files are named after how the variant was installed, whatever
+          // the current config says
+          const entry = lock.logos[variant]
+          const variantOptions = entry
+            ? {
+                ...options,
+                fileNaming: entry.options.fileNaming,
+                framework: entry.options.framework,
+              }
+            : options
+          const installedFiles: string[] = []
+          const { component: componentFile, svg: svgFile } =
+            getInstalledFileNames(variant, variantOptions)
+
+          if (await logoExistsInTarget(targetPath, variant, variantOptions)) {
+            installedFiles.push(svgFile)
+          }
+
+          if (
+            await logoComponentExistsInTarget(
+              targetPath,
+              variant,
+              variantOptions,
+            )
+          ) {
+            installedFiles.push(componentFile)
+          }
+
+          if (0 === installedFiles.length) {
+            delete lock.logos[variant]
+            continue
+          }
+
+          installedCount++
+          brandOptions = variantOptions
+
+          if (!options.force) {
+            // Logos installed before the lock file can only be compared with
+            // what the library would install today
+            const modifiedFiles = entry
+              ? await getEditedLockedFiles(targetPath, entry)
+              : await getModifiedLogoFiles(targetPath, variant, options)
+
+            if (0 < modifiedFiles.length) {
+              results.push({
+                error: `${modifiedFiles.join(", ")} changed since install (use --force to remove anyway)`,
+                logoName: variant,
+                success: false,
+              })
+              continue
+            }
+          }
+
+          for (const file of installedFiles) {
+            await remove(path.join(targetPath, file))
+          }
+          delete lock.logos[variant]
+
+          results.push({
+            logoName: variant,
+            removedFiles: installedFiles,
+            success: true,
           })
         } catch (error) {
           results.push({
@@ -275,6 +1571,23 @@ export async function processLogos(
           })
         }
       }
+
+      results.push(
+        ...(await removeOrphanedThemedComponents(
+          targetPath,
+          brandVariants,
+          brandOptions,
+        )),
+      )
+
+      if (0 === installedCount) {
+        results.push({
+          logoName,
+          reason: "Logo is not installed in logos directory",
+          skipped: true,
+          success: true,
+        })
+      }
     } catch (error) {
       results.push({
         error:
@@ -285,6 +1598,18 @@ export async function processLogos(
     }
   }
 
+  await writeLockFile(targetPath, lock)
+
+  // A foreign index.ts or logos.css is reported by add; removing logos just
+  // leaves it alone
+  results.push(
+    ...[
+      ...(await updateLogosBarrel(targetPath, availableLogos, options)),
+      ...(await updateLogosStylesheets(targetPath)),
+      ...(await updateLogosSprite(targetPath)),
+    ].filter((result) => !result.success),
+  )
+
   return results
 }
 
@@ -319,6 +1644,36 @@ export function getVariantType(
   return null
 }
 
+/**
+ * Pairs the `_dark` and `_light` variants of the same logo, e.g. `aws_dark`
+ * and `aws_light`, or `dub_dark_wordmark` and `dub_light_wordmark`
+ * @param logoNames - Logo variant names, usually the variants of one brand
+ */
+export function findThemedLogoPairs(logoNames: string[]): ThemedLogoPair[] {
+  const pairs = new Map<string, Partial<ThemedLogoPair>>()
+
+  for (const logoName of logoNames) {
+    const baseName = logoName.replace(/_(dark|light)(?=_|$)/i, "")
+    const variantType = getVariantType(logoName, baseName)
+
+    if (
+      baseName === logoName ||
+      ("dark" !== variantType && "light" !== variantType)
+    ) {
+      continue
+    }
+
+    const pair = pairs.get(baseName) ?? { baseName }
+    pair[variantType] = logoName
+    pairs.set(baseName, pair)
+  }
+
+  return [...pairs.values()].filter(
+    (pair): pair is ThemedLogoPair =>
+      undefined !== pair.dark && undefined !== pair.light,
+  )
+}
+
 // components.json (shadcn) helpers
 interface ComponentsJsonAliases {
   ui: string
@@ -422,7 +1777,11 @@ function resolveTsconfigAlias(
   }
 }
 
-function getComponentsJsonOutputDir(): null | string {
+/**
+ * Logos directory next to the shadcn `ui` alias from components.json
+ * @returns The directory, or null when it cannot be resolved
+ */
+export function getComponentsJsonOutputDir(): null | string {
   try {
     const result = findComponentsJson()
     if (!result) {
@@ -440,3 +1799,28 @@ function getComponentsJsonOutputDir(): null | string {
     return null
   }
 }
+
+/**
+ * Module path the logos directory is imported from: the shadcn `ui` alias
+ * plus `/logos` when logos go next to the shadcn components, otherwise a
+ * path relative to the current directory
+ * @param targetPath - Logos directory
+ */
+export function getLogosImportPath(targetPath: string): string {
+  const componentsJson = findComponentsJson()
+
+  if (componentsJson && targetPath === getComponentsJsonOutputDir()) {
+    return `${componentsJson.aliases.ui.replace(/\/$/, "")}/logos`
+  }
+
+  const relativePath = path
+    .relative(process.cwd(), targetPath)
+    .split(path.sep)
+    .join("/")
+
+  if (!relativePath) {
+    return "."
+  }
+
+  return relativePath.startsWith("..") ? relativePath : `./${relativePath}`
+}
@@ -0,0 +1,149 @@
+import fs from "fs-extra"
+import { createHash } from "node:crypto"
+import path from "node:path"
+
+import type { LockEntry, LockFile } from "../types/lock.js"
+import type { ComponentOptions } from "../types/logos.js"
+
+import { getPackageVersion } from "../commands/version.js"
+import { lockFileSchema } from "../types/lock.js"
+import { getLogoSlug } from "./registry.js"
+
+const { pathExists, readFile, remove, writeFile } = fs
+
+export const lockFileName = "brandcn-lock.json"
+
+/**
+ * Hashes file contents the way they are recorded in brandcn-lock.json
+ */
+export function hashContent(content: Buffer | string): string {
+  return `sha256-${createHash("sha256").update(content).digest("base64")}`
+}
+
+/**
+ * Reads brandcn-lock.json from the logos directory
+ * @param targetPath - Logos directory
+ * @returns The lock file, empty when the directory has none
+ * @throws When the file is not valid JSON or does not match the schema
+ */
+export async function readLockFile(targetPath: string): Promise<LockFile> {
+  const filePath = path.join(targetPath, lockFileName)
+
+  if (!(await pathExists(filePath))) {
+    return { lockfileVersion: 1, logos: {} }
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(await readFile(filePath, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Invalid ${lockFileName} at ${filePath}: ${message}`)
+  }
+
+  const result = lockFileSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => {
+        const key = 0 < issue.path.length ? issue.path.join(".") : "(root)"
+        return `${key}: ${issue.message}`
+      })
+      .join("; ")
+    throw new Error(`Invalid ${lockFileName} at ${filePath}: ${issues}`)
+  }
+
+  return result.data
+}
+
+/**
+ * Writes brandcn-lock.json with its entries sorted by variant, or deletes it
+ * once no variant is left
+ * @param targetPath - Logos directory
+ * @param lock - Lock file contents
+ */
+export async function writeLockFile(
+  targetPath: string,
+  lock: LockFile,
+): Promise<void> {
+  const filePath = path.join(targetPath, lockFileName)
+  const variants = Object.keys(lock.logos).sort()
+
+  if (0 === variants.length) {
+    await remove(filePath)
+    return
+  }
+
+  const sorted: LockFile = {
+    lockfileVersion: lock.lockfileVersion,
+    logos: Object.fromEntries(
+      variants.map((variant) => [variant, lock.logos[variant]]),
+    ),
+  }
+
+  await writeFile(filePath, `${JSON.stringify(sorted, null, 2)}\n`)
+}
+
+/**
+ * Library logo a locked variant was installed from. It differs from the
+ * variant for recolored copies, e.g. `vercel_dark` for `vercel_mono`.
+ */
+export function getLockedLibraryLogo(entry: LockEntry): string {
+  return getLogoSlug(path.parse(entry.source).name)
+}
+
+/**
+ * Recolored copies in the lock file that were installed from one of the
+ * given library variants
+ */
+export function findRecoloredVariants(
+  libraryVariants: string[],
+  lock: LockFile,
+): string[] {
+  return Object.entries(lock.logos).flatMap(([variant, entry]) => {
+    const libraryLogo = getLockedLibraryLogo(entry)
+    return variant !== libraryLogo && libraryVariants.includes(libraryLogo)
+      ? [variant]
+      : []
+  })
+}
+
+interface InstalledFile {
+  content: string
+  file: string
+}
+
+/**
+ * Describes a variant as `add` installed it
+ * @param source - Library SVG file the variant was installed from
+ * @param svg - Installed SVG file and the library markup written to it
+ * @param component - Installed component file and its generated source, or
+ * null when the logo was installed without one
+ * @param options - Component options the component was generated with
+ */
+export function createLockEntry(
+  source: string,
+  svg: InstalledFile,
+  component: InstalledFile | null,
+  options: ComponentOptions,
+): LockEntry {
+  return {
+    brandcnVersion: getPackageVersion(),
+    component: component && {
+      file: component.file,
+      hash: hashContent(component.content),
+    },
+    options: {
+      color: options.color,
+      colorMap: options.colorMap,
+      componentStyle: options.componentStyle ?? "img",
+      currentColor: options.currentColor ?? false,
+      fileNaming: options.fileNaming ?? "original",
+      format: options.format ?? "component",
+      framework: options.framework ?? "react",
+      optimize: options.optimize ?? false,
+      trim: options.trim,
+    },
+    source,
+    svg: { file: svg.file, hash: hashContent(svg.content) },
+  }
+}
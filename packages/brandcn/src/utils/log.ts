@@ -1,5 +1,12 @@
-import { spinner as createSpinner, log } from "@clack/prompts"
+import { spinner as createSpinner, isCancel, log, select } from "@clack/prompts"
 
+import type {
+  ConflictResolution,
+  LogoFileConflict,
+  LogoOperationResult,
+} from "../types/logos.js"
+
+import { createShortDiff } from "./diff.js"
 import { color } from "./style.js"
 
 export class LogoSpinner {
@@ -34,10 +41,92 @@ export class LogoSpinner {
   }
 }
 
+/**
+ * Whether prompts can be shown, i.e. both stdin and stdout are terminals
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY)
+}
+
+/**
+ * Creates an `onConflict` handler that pauses the spinner, shows a diff of
+ * the conflicting file and asks whether to keep it
+ * @param spinner - Spinner of the running command
+ */
+export function createConflictPrompt(
+  spinner: LogoSpinner,
+): (conflict: LogoFileConflict) => Promise<ConflictResolution> {
+  return async (conflict) => {
+    spinner.stop("Found local changes")
+    log.warning(
+      `${color.highlight(conflict.fileName)} differs from the library version`,
+    )
+    log.message(
+      createShortDiff(conflict.existing, conflict.incoming).join("\n"),
+    )
+
+    const resolution = await select<ConflictResolution>({
+      message: `What should happen to ${conflict.fileName}?`,
+      options: [
+        { label: "Keep my file", value: "keep" },
+        { label: "Overwrite with the library version", value: "overwrite" },
+        {
+          hint: "for every remaining conflict",
+          label: "Overwrite all",
+          value: "overwrite-all",
+        },
+      ],
+    })
+
+    spinner.start()
+    return isCancel(resolution) ? "keep" : resolution
+  }
+}
+
 export function displayError(message: string): void {
   log.error(color.error(message))
 }
 
+/**
+ * Lists the unsafe SVG content removed from the files that were written
+ */
+export function displaySanitizerWarnings(results: LogoOperationResult[]): void {
+  const sanitized = results.filter(
+    (result) =>
+      result.warnings?.length &&
+      (result.createdFiles?.length || result.updatedFiles?.length),
+  )
+
+  if (0 === sanitized.length) {
+    return
+  }
+
+  log.warn(color.warning("Removed unsafe SVG content"))
+  for (const result of sanitized) {
+    for (const warning of result.warnings ?? []) {
+      log.step(`${color.warning("warning")} ${result.logoName}: ${warning}`)
+    }
+  }
+}
+
+/**
+ * Formats a file size, e.g. "812 B" or "4.3 kB"
+ */
+export function formatBytes(bytes: number): string {
+  if (1024 > bytes) {
+    return `${bytes} B`
+  }
+
+  return `${(bytes / 1024).toFixed(1)} kB`
+}
+
+/**
+ * Prints a value as indented JSON for `--json` output
+ */
+export function displayJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2))
+}
+
 export function displayUsage(): void {
   log.message("")
   log.info(color.info("Usage"))
@@ -49,6 +138,6 @@ export function displayUsage(): void {
   log.step("  bunx brandcn@latest add nextjs tailwindcss")
   log.message("")
   log.info(
-    "Logo names must contain only alphanumeric characters, hyphens, or underscores.",
+    "Logo names must contain only alphanumeric characters, dots, hyphens, or underscores.",
   )
 }
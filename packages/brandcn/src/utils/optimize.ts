@@ -0,0 +1,130 @@
+import { optimize } from "svgo"
+
+import type { CustomPlugin, XastElement, XastParent } from "svgo"
+
+/**
+ * Serializes a definition without its id, so identical definitions compare
+ * equal
+ */
+function getDefinitionKey(element: XastElement): string {
+  const { id: _id, ...attributes } = element.attributes
+  return JSON.stringify([element.name, attributes, element.children])
+}
+
+/**
+ * Points `url(#id)` and `href="#id"` references at the definitions that
+ * were kept
+ * @param replacements - Ids of removed definitions mapped to the kept ids
+ */
+function replaceReferences(
+  parent: XastParent,
+  replacements: Map<string, string>,
+): void {
+  const replaceUrls = (value: string) =>
+    value.replace(
+      /url\(\s*["']?#([^"')\s]+)["']?\s*\)/g,
+      (match, id: string) => {
+        const replacement = replacements.get(id)
+        return replacement ? `url(#${replacement})` : match
+      },
+    )
+
+  for (const child of parent.children) {
+    if ("element" === child.type) {
+      for (const [name, value] of Object.entries(child.attributes)) {
+        const hrefId = value.startsWith("#") ? value.slice(1) : ""
+        const replacement = replacements.get(hrefId)
+
+        child.attributes[name] =
+          name.endsWith("href") && replacement
+            ? `#${replacement}`
+            : replaceUrls(value)
+      }
+
+      replaceReferences(child, replacements)
+    } else if ("text" === child.type || "cdata" === child.type) {
+      // Style sheets
+      child.value = replaceUrls(child.value)
+    }
+  }
+}
+
+/**
+ * Removes definitions identical to an earlier one in the same `<defs>`, such
+ * as gradients exported once per shape, and points their references at the
+ * one that is kept
+ */
+const dedupeDefs: CustomPlugin = {
+  fn: () => {
+    const replacements = new Map<string, string>()
+
+    return {
+      element: {
+        enter(node) {
+          if ("defs" !== node.name) {
+            return
+          }
+
+          const keptIds = new Map<string, string>()
+          node.children = node.children.filter((child) => {
+            if ("element" !== child.type || !child.attributes.id) {
+              return true
+            }
+
+            const key = getDefinitionKey(child)
+            const keptId = keptIds.get(key)
+            if (undefined === keptId) {
+              keptIds.set(key, child.attributes.id)
+              return true
+            }
+
+            replacements.set(child.attributes.id, keptId)
+            return false
+          })
+        },
+      },
+      root: {
+        exit(root) {
+          if (0 < replacements.size) {
+            replaceReferences(root, replacements)
+          }
+        },
+      },
+    }
+  },
+  name: "dedupeDefs",
+}
+
+/**
+ * Optimizes an SVG before it is installed: strips metadata, comments and
+ * editor data, collapses groups, rounds coordinates, dedupes definitions and
+ * prefixes ids and class names, so several inline SVGs can share a page
+ * @param source - SVG markup
+ * @param idPrefix - Prefix for ids and class names, e.g. the logo slug
+ */
+export function optimizeSvg(source: string, idPrefix: string): string {
+  const optimized = optimize(source, {
+    multipass: true,
+    plugins: ["preset-default", dedupeDefs],
+  }).data
+
+  // Prefixing runs once, as every pass of a multipass run would prefix again
+  return prefixSvgIds(optimized, idPrefix)
+}
+
+/**
+ * Prefixes the ids and class names of an SVG along with every reference to
+ * them, so the SVG can share a document with others
+ * @param source - SVG markup
+ * @param prefix - Prefix, e.g. the logo slug
+ * @param delim - Separator between the prefix and the original id
+ */
+export function prefixSvgIds(
+  source: string,
+  prefix: string,
+  delim = "-",
+): string {
+  return optimize(source, {
+    plugins: [{ name: "prefixIds", params: { delim, prefix } }],
+  }).data
+}
@@ -0,0 +1,234 @@
+import { Prompt } from "@clack/core"
+import { isCancel } from "@clack/prompts"
+
+import type { State } from "@clack/core"
+import type { Readable, Writable } from "node:stream"
+import type { LogoBrand } from "./registry.js"
+
+import { getVariantType } from "./fs.js"
+import { brandMatches, getBrands } from "./registry.js"
+import { color } from "./style.js"
+
+const maxVisibleRows = 12
+
+interface PickerStreams {
+  input?: Readable
+  output?: Writable
+}
+
+interface PickerRow {
+  // Type of the variant, or the number of variants of a brand
+  badge: string
+  isVariant: boolean
+  label: string
+  // Brand id or variant slug passed on to `processLogos`
+  value: string
+}
+
+function getBrandRows(brand: LogoBrand): PickerRow[] {
+  const variantRows = brand.variants.map((variant) => ({
+    badge: getVariantType(variant, variant.split("_")[0]) ?? "",
+    isVariant: true,
+    label: variant,
+    value: variant,
+  }))
+
+  if (1 === variantRows.length) {
+    return [
+      {
+        badge: variantRows[0]?.badge ?? "",
+        isVariant: false,
+        label: `${brand.name} (${brand.id})`,
+        value: brand.id,
+      },
+    ]
+  }
+
+  // A variant named like its brand can only be added with the whole brand
+  return [
+    {
+      badge: `${variantRows.length} variants`,
+      isVariant: false,
+      label: `${brand.name} (${brand.id})`,
+      value: brand.id,
+    },
+    ...variantRows.filter((row) => row.value !== brand.id),
+  ]
+}
+
+/**
+ * Selected brand ids and variant slugs, without variants whose whole brand
+ * is selected
+ */
+function getPickedLogos(brands: LogoBrand[], selected: Set<string>): string[] {
+  const selectedBrands = brands.filter((brand) => selected.has(brand.id))
+
+  return [...selected].filter(
+    (value) =>
+      !selectedBrands.some(
+        (brand) => brand.id !== value && brand.variants.includes(value),
+      ),
+  )
+}
+
+function getStateSymbol(state: State): string {
+  switch (state) {
+    case "cancel": {
+      return color.error("■")
+    }
+    case "error": {
+      return color.warning("▲")
+    }
+    case "submit": {
+      return color.success("◇")
+    }
+    default: {
+      return color.command("◆")
+    }
+  }
+}
+
+interface PickerFrame {
+  cursor: number
+  error: string
+  picked: string[]
+  query: string
+  rows: PickerRow[]
+  selected: Set<string>
+  state: State
+}
+
+function renderPicker(frame: PickerFrame): string {
+  const bar = color.dim("│")
+  const title = `${bar}\n${getStateSymbol(frame.state)}  Pick logos to add`
+
+  if ("submit" === frame.state) {
+    return `${title}\n${bar}  ${color.dim(frame.picked.join(", "))}`
+  }
+
+  if ("cancel" === frame.state) {
+    return `${title}\n${bar}  ${color.dim("Cancelled")}`
+  }
+
+  const lines = [
+    title,
+    `${bar}  Search: ${frame.query || color.dim("type to filter")}`,
+  ]
+
+  // Keep the cursor inside a window of rows around it
+  const start = Math.min(
+    Math.max(0, frame.cursor - Math.floor(maxVisibleRows / 2)),
+    Math.max(0, frame.rows.length - maxVisibleRows),
+  )
+  const visibleRows = frame.rows.slice(start, start + maxVisibleRows)
+
+  if (0 === frame.rows.length) {
+    lines.push(`${bar}  ${color.dim("No logos match your search")}`)
+  }
+
+  for (const [index, row] of visibleRows.entries()) {
+    const isActive = start + index === frame.cursor
+    const checkbox = frame.selected.has(row.value)
+      ? color.success("◼")
+      : color.dim("◻")
+    const label = isActive ? color.command(row.label) : row.label
+    const indent = row.isVariant ? "  " : ""
+    const badge = row.badge ? ` ${color.dim(`[${row.badge}]`)}` : ""
+
+    lines.push(`${bar}  ${indent}${checkbox} ${label}${badge}`)
+  }
+
+  const hint = `↑/↓ move, space select, enter confirm, ${frame.selected.size} selected`
+  lines.push(`${bar}  ${color.dim(hint)}`)
+
+  if ("error" === frame.state) {
+    lines.push(`${color.warning("└")}  ${color.warning(frame.error)}`)
+  } else {
+    lines.push(color.command("└"))
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Shows a searchable list of the library's brands and their variants and
+ * lets the user pick several of them
+ * @param availableLogos - Slugs of the library logos
+ * @param streams - Terminal to prompt on, defaults to stdin and stdout
+ * @returns Brand ids and variant slugs to add, or null when cancelled
+ */
+export async function pickLogos(
+  availableLogos: string[],
+  streams: PickerStreams = {},
+): Promise<null | string[]> {
+  const available = new Set(availableLogos)
+  const brands = getBrands()
+    .map((brand) => ({
+      ...brand,
+      variants: brand.variants.filter((variant) => available.has(variant)),
+    }))
+    .filter((brand) => 0 < brand.variants.length)
+  const selected = new Set<string>()
+  let cursor = 0
+  let query = ""
+  let rows = brands.flatMap(getBrandRows)
+
+  const prompt = new Prompt(
+    {
+      ...streams,
+      render() {
+        return renderPicker({
+          cursor,
+          error: this.error,
+          picked: getPickedLogos(brands, selected),
+          query,
+          rows,
+          selected,
+          state: this.state,
+        })
+      },
+      validate: () =>
+        0 === selected.size ? "Select at least one logo" : undefined,
+    },
+    true,
+  )
+
+  prompt.on("value", (value) => {
+    // Space toggles the selection, so it never ends up in the search
+    const nextQuery = (value ?? "").replace(/\s+/g, "")
+    if (nextQuery === query) {
+      return
+    }
+
+    query = nextQuery
+    rows = brands
+      .filter((brand) => brandMatches(brand, query))
+      .flatMap(getBrandRows)
+    cursor = 0
+  })
+
+  prompt.on("cursor", (action) => {
+    if (0 === rows.length) {
+      return
+    }
+
+    if ("up" === action) {
+      cursor = 0 === cursor ? rows.length - 1 : cursor - 1
+    } else if ("down" === action) {
+      cursor = cursor === rows.length - 1 ? 0 : cursor + 1
+    } else if ("space" === action) {
+      const row = rows[cursor]
+      if (row && selected.has(row.value)) {
+        selected.delete(row.value)
+      } else if (row) {
+        selected.add(row.value)
+      }
+    }
+  })
+
+  if (isCancel(await prompt.prompt())) {
+    return null
+  }
+
+  return getPickedLogos(brands, selected)
+}
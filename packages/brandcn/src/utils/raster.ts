@@ -0,0 +1,273 @@
+import { Resvg, initWasm } from "@resvg/resvg-wasm"
+import fs from "fs-extra"
+const { readFile } = fs
+import { createRequire } from "node:module"
+import { deflateSync } from "node:zlib"
+
+import type { SvgViewBox } from "./svg.js"
+
+import { getSvgViewBox, parseSvg, stringifySvg } from "./svg.js"
+
+export interface RasterImage {
+  height: number
+  // Premultiplied RGBA, four bytes per pixel, row by row
+  pixels: Uint8Array
+  width: number
+}
+
+let rendererReady: null | Promise<void> = null
+
+/**
+ * Loads the resvg WebAssembly module once, from the installed package so
+ * rendering works offline
+ */
+function loadRenderer(): Promise<void> {
+  if (!rendererReady) {
+    const wasmPath = createRequire(import.meta.url).resolve(
+      "@resvg/resvg-wasm/index_bg.wasm",
+    )
+    rendererReady = readFile(wasmPath).then((wasm) => initWasm(wasm))
+  }
+
+  return rendererReady
+}
+
+/**
+ * Renders an SVG to pixels, scaled to fit inside a box while keeping its
+ * aspect ratio. System fonts are not loaded, so `<text>` without outlines is
+ * not drawn.
+ * @param source - SVG markup
+ * @param width - Maximum width in pixels
+ * @param height - Maximum height in pixels
+ */
+export async function rasterizeSvg(
+  source: string,
+  width: number,
+  height: number,
+): Promise<RasterImage> {
+  await loadRenderer()
+
+  const root = parseSvg(source)
+  // resvg ignores elements outside the SVG namespace
+  root.attributes.xmlns ??= "http://www.w3.org/2000/svg"
+
+  const viewBox = getSvgViewBox(root)
+  const fitsWidth = !viewBox || height * viewBox.width >= width * viewBox.height
+  const resvg = new Resvg(stringifySvg(root), {
+    fitTo: fitsWidth
+      ? { mode: "width", value: Math.max(1, Math.round(width)) }
+      : { mode: "height", value: Math.max(1, Math.round(height)) },
+    font: { loadSystemFonts: false },
+  })
+  const rendered = resvg.render()
+  const image = {
+    height: rendered.height,
+    pixels: rendered.pixels,
+    width: rendered.width,
+  }
+
+  rendered.free()
+  resvg.free()
+
+  return image
+}
+
+/**
+ * Bounds of everything an SVG paints, strokes and transforms included, in
+ * the coordinates of its `viewBox`. Content outside the `viewBox` counts too.
+ * @param source - SVG markup
+ * @returns The bounds, or null when nothing is painted
+ */
+export async function getSvgBounds(source: string): Promise<null | SvgViewBox> {
+  await loadRenderer()
+
+  const root = parseSvg(source)
+  root.attributes.xmlns ??= "http://www.w3.org/2000/svg"
+
+  const resvg = new Resvg(stringifySvg(root), {
+    font: { loadSystemFonts: false },
+  })
+  const box = resvg.getBBox()
+  const bounds = box
+    ? { height: box.height, minX: box.x, minY: box.y, width: box.width }
+    : null
+
+  box?.free()
+  resvg.free()
+
+  return bounds
+}
+
+/**
+ * Creates an image filled with one color, transparent by default
+ * @param rgba - Straight, not premultiplied, color
+ */
+export function createCanvas(
+  width: number,
+  height: number,
+  rgba: [number, number, number, number] = [0, 0, 0, 0],
+): RasterImage {
+  const [r, g, b, a] = rgba
+  const pixels = new Uint8Array(width * height * 4)
+
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    pixels[offset] = Math.round((r * a) / 255)
+    pixels[offset + 1] = Math.round((g * a) / 255)
+    pixels[offset + 2] = Math.round((b * a) / 255)
+    pixels[offset + 3] = a
+  }
+
+  return { height, pixels, width }
+}
+
+/**
+ * Draws an image over a canvas, clipping whatever falls outside of it
+ * @param x - Left edge of the image on the canvas
+ * @param y - Top edge of the image on the canvas
+ */
+export function drawImage(
+  canvas: RasterImage,
+  image: RasterImage,
+  x: number,
+  y: number,
+): void {
+  for (let row = 0; row < image.height; row++) {
+    const canvasY = y + row
+    if (canvasY < 0 || canvasY >= canvas.height) {
+      continue
+    }
+
+    for (let column = 0; column < image.width; column++) {
+      const canvasX = x + column
+      if (canvasX < 0 || canvasX >= canvas.width) {
+        continue
+      }
+
+      const source = (row * image.width + column) * 4
+      const target = (canvasY * canvas.width + canvasX) * 4
+      const coverage = 1 - (image.pixels[source + 3] ?? 0) / 255
+
+      for (let channel = 0; channel < 4; channel++) {
+        canvas.pixels[target + channel] = Math.round(
+          (image.pixels[source + channel] ?? 0) +
+            (canvas.pixels[target + channel] ?? 0) * coverage,
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Straight RGBA color of a pixel
+ * @param offset - Index of the pixel's first byte
+ */
+export function getPixel(
+  image: RasterImage,
+  offset: number,
+): [number, number, number, number] {
+  const alpha = image.pixels[offset + 3] ?? 0
+  if (0 === alpha) {
+    return [0, 0, 0, 0]
+  }
+
+  const unpremultiply = (value = 0) =>
+    Math.min(255, Math.round((value * 255) / alpha))
+
+  return [
+    unpremultiply(image.pixels[offset]),
+    unpremultiply(image.pixels[offset + 1]),
+    unpremultiply(image.pixels[offset + 2]),
+    alpha,
+  ]
+}
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xed_b8_83_20 ^ (crc >>> 1) : crc >>> 1
+  }
+
+  return crc >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xff_ff_ff_ff
+  for (const byte of data) {
+    crc = (crcTable[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+  }
+
+  return (crc ^ 0xff_ff_ff_ff) >>> 0
+}
+
+function createPngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  const crc = Buffer.alloc(4)
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data])
+
+  length.writeUInt32BE(data.length)
+  crc.writeUInt32BE(crc32(body))
+
+  return Buffer.concat([length, body, crc])
+}
+
+const pngSignature = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
+
+/**
+ * Encodes an image as an 8-bit RGBA PNG
+ */
+export function encodePng(image: RasterImage): Buffer {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(image.width, 0)
+  header.writeUInt32BE(image.height, 4)
+  // Bit depth 8, color type RGBA, default compression, filter and interlace
+  header[8] = 8
+  header[9] = 6
+
+  const rowLength = image.width * 4 + 1
+  const data = Buffer.alloc(rowLength * image.height)
+
+  for (let row = 0; row < image.height; row++) {
+    // Every row starts with filter type 0, none
+    for (let column = 0; column < image.width; column++) {
+      const pixel = getPixel(image, (row * image.width + column) * 4)
+      data.set(pixel, row * rowLength + 1 + column * 4)
+    }
+  }
+
+  return Buffer.concat([
+    pngSignature,
+    createPngChunk("IHDR", header),
+    createPngChunk("IDAT", deflateSync(data)),
+    createPngChunk("IEND", Buffer.alloc(0)),
+  ])
+}
+
+/**
+ * Encodes images of several sizes as one ICO file, each embedded as a PNG,
+ * which every browser reads as `favicon.ico`
+ * @param images - Square images of at most 256 pixels
+ */
+export function encodeIco(images: RasterImage[]): Buffer {
+  const pngs = images.map(encodePng)
+  const header = Buffer.alloc(6 + 16 * images.length)
+  // Reserved, type 1 for icons, number of images
+  header.writeUInt16LE(1, 2)
+  header.writeUInt16LE(images.length, 4)
+
+  let offset = header.length
+  for (const [index, image] of images.entries()) {
+    const entry = 6 + 16 * index
+    const png = pngs[index] ?? Buffer.alloc(0)
+
+    // 0 stands for 256 pixels
+    header[entry] = image.width % 256
+    header[entry + 1] = image.height % 256
+    header.writeUInt16LE(1, entry + 4)
+    header.writeUInt16LE(32, entry + 6)
+    header.writeUInt32LE(png.length, entry + 8)
+    header.writeUInt32LE(offset, entry + 12)
+    offset += png.length
+  }
+
+  return Buffer.concat([header, ...pngs])
+}
@@ -0,0 +1,164 @@
+import type { ComponentOptions } from "../types/logos.js"
+import type { SvgElement } from "./svg.js"
+
+import {
+  getSvgColors,
+  normalizeColor,
+  paintProperties,
+  parseSvg,
+  stringifySvg,
+} from "./svg.js"
+
+/**
+ * Replaces a paint value when it is a color, keeping `none`, gradient
+ * references and anything else that is not
+ */
+function replaceColor(
+  value: string,
+  replace: (color: string) => string,
+): string {
+  const color = normalizeColor(value)
+  return color ? replace(color) : value
+}
+
+function replaceStyleColors(
+  style: string,
+  replace: (color: string) => string,
+): string {
+  return style
+    .split(";")
+    .map((declaration) => {
+      const separator = declaration.indexOf(":")
+      const property = declaration.slice(0, separator).trim().toLowerCase()
+
+      return -1 !== separator && paintProperties.includes(property)
+        ? `${declaration.slice(0, separator + 1)}${replaceColor(declaration.slice(separator + 1), replace)}`
+        : declaration
+    })
+    .join(";")
+}
+
+/**
+ * Replaces the fill, stroke and gradient stop colors of an element and its
+ * descendants, in attributes, inline styles and style sheets. Masks are left
+ * alone, as their colors set how much shows through rather than paint.
+ * @param replace - Receives every color normalized, e.g. `#ffffff`
+ */
+function replacePaint(
+  element: SvgElement,
+  replace: (color: string) => string,
+): void {
+  for (const property of paintProperties) {
+    const value = element.attributes[property]
+    if (undefined !== value) {
+      element.attributes[property] = replaceColor(value, replace)
+    }
+  }
+
+  if (undefined !== element.attributes.style) {
+    element.attributes.style = replaceStyleColors(
+      element.attributes.style,
+      replace,
+    )
+  }
+
+  for (const child of element.children) {
+    if ("element" === child.type) {
+      if ("mask" !== child.name) {
+        replacePaint(child, replace)
+      }
+    } else if ("style" === element.name && "comment" !== child.type) {
+      child.value = child.value.replace(
+        /((?:^|[{;\s])(?:fill|stroke|stop-color)\s*:)([^;}]+)/g,
+        (_, property: string, value: string) =>
+          `${property}${replaceColor(value, replace)}`,
+      )
+    }
+  }
+}
+
+/**
+ * Paints a single-color SVG with `currentColor`, so it follows the color of
+ * the surrounding text. Shapes left to the default black fill are covered by
+ * a `fill` on the root.
+ * @param source - SVG markup
+ * @throws When the SVG uses more than one color, or cannot be parsed
+ */
+export function convertToCurrentColor(source: string): string {
+  const root = parseSvg(source)
+  const colors = getSvgColors(root).filter((color) => "currentColor" !== color)
+
+  if (1 < colors.length) {
+    throw new Error(
+      `Uses ${colors.length} colors (${colors.join(", ")}), only single-color logos can use currentColor`,
+    )
+  }
+
+  replacePaint(root, () => "currentColor")
+  root.attributes.fill ??= "currentColor"
+
+  return stringifySvg(root)
+}
+
+/**
+ * Paints every fill, stroke and gradient stop of an SVG with one color, e.g.
+ * a neutral gray for a row of customer logos
+ * @param source - SVG markup
+ * @param color - Hex color
+ */
+export function recolorSvg(source: string, color: string): string {
+  const root = parseSvg(source)
+
+  replacePaint(root, () => color)
+  root.attributes.fill ??= color
+
+  return stringifySvg(root)
+}
+
+/**
+ * Swaps colors of an SVG for others, leaving colors not in the map alone
+ * @param source - SVG markup
+ * @param colorMap - Normalized colors mapped to their replacements, e.g.
+ * `{ "#000000": "#111111" }`
+ */
+export function swapSvgColors(
+  source: string,
+  colorMap: { [color: string]: string },
+): string {
+  const root = parseSvg(source)
+  const black = colorMap["#000000"]
+
+  replacePaint(root, (color) => colorMap[color] ?? color)
+  // Shapes without a fill are black
+  if (black) {
+    root.attributes.fill ??= black
+  }
+
+  return stringifySvg(root)
+}
+
+const themeSuffixPattern = /_(?:dark|light)$/
+
+/**
+ * Name a recolored copy of a library variant is installed under, so the
+ * original stays installable next to it. One color makes dark and light
+ * variants alike, so both become `vercel_mono`; swapped colors keep the theme,
+ * as in `vercel_custom_dark`.
+ * @param logoName - Library variant, e.g. `vercel_dark`
+ * @returns The variant itself when it is not recolored
+ */
+export function getRecoloredLogoName(
+  logoName: string,
+  options: Pick<ComponentOptions, "color" | "colorMap">,
+): string {
+  if (options.color) {
+    return `${logoName.replace(themeSuffixPattern, "")}_mono`
+  }
+
+  if (options.colorMap) {
+    const theme = themeSuffixPattern.exec(logoName)?.[0] ?? ""
+    return `${logoName.slice(0, logoName.length - theme.length)}_custom${theme}`
+  }
+
+  return logoName
+}
@@ -0,0 +1,126 @@
+import fs from "fs-extra"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+
+import type { LogoCategory, RegistryEntry } from "../types/registry.js"
+
+import { logoCategories, registrySchema } from "../types/registry.js"
+
+const { readFileSync } = fs
+
+export interface LogoBrand extends RegistryEntry {
+  id: string
+}
+
+let brands: LogoBrand[] | null = null
+
+function getRegistryPath(): string {
+  const currentDir = path.dirname(fileURLToPath(import.meta.url))
+  return path.resolve(currentDir, "../../library/registry.json")
+}
+
+/**
+ * Every brand in the library registry, sorted by id
+ * @throws When library/registry.json is missing or invalid
+ */
+export function getBrands(): LogoBrand[] {
+  if (brands) {
+    return brands
+  }
+
+  const registryPath = getRegistryPath()
+  let raw: unknown
+
+  try {
+    raw = JSON.parse(readFileSync(registryPath, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to read logo registry ${registryPath}: ${message}`)
+  }
+
+  const result = registrySchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ")
+    throw new Error(`Invalid logo registry ${registryPath}: ${issues}`)
+  }
+
+  brands = Object.entries(result.data)
+    .map(([id, entry]) => ({ ...entry, id }))
+    .sort((a, b) => (a.id < b.id ? -1 : Number(a.id > b.id)))
+  return brands
+}
+
+/**
+ * Canonical name of a library logo: its file name without `.svg`,
+ * lower-cased, with dots replaced by hyphens, e.g. `apollo-io` for
+ * `apollo.io.svg`
+ */
+export function getLogoSlug(fileName: string): string {
+  return fileName.toLowerCase().replace(/\./g, "-")
+}
+
+/**
+ * Finds a brand by id or alias, ignoring case
+ */
+export function findBrand(name: string): LogoBrand | undefined {
+  const lowerName = name.toLowerCase()
+
+  return getBrands().find(
+    (brand) =>
+      brand.id === lowerName ||
+      brand.aliases.some((alias) => alias.toLowerCase() === lowerName),
+  )
+}
+
+/**
+ * Finds the brand a library logo belongs to
+ * @param logoName - Logo slug, e.g. `vercel_dark`
+ */
+export function findBrandByVariant(logoName: string): LogoBrand | undefined {
+  return getBrands().find((brand) => brand.variants.includes(logoName))
+}
+
+// Suffix of recolored copies, e.g. `vercel_mono` or `vercel_custom_dark`
+const recoloredSuffixPattern = /_mono$|_custom(?=_dark$|_light$|$)/
+
+/**
+ * Human readable name of a library logo, e.g. "Next.js" for
+ * `nextjs-logo_dark`, or of a recolored copy of one; falls back to the file
+ * name
+ */
+export function getLogoDisplayName(logoName: string): string {
+  const brand = findBrandByVariant(logoName)
+  if (brand || !recoloredSuffixPattern.test(logoName)) {
+    return brand?.name ?? logoName
+  }
+
+  // `_mono` copies may come from either theme
+  const baseName = logoName.replace(recoloredSuffixPattern, "")
+  const source = [baseName, `${baseName}_dark`, `${baseName}_light`].find(
+    (variant) => findBrandByVariant(variant),
+  )
+
+  return source ? getLogoDisplayName(source) : logoName
+}
+
+export function isLogoCategory(value: string): value is LogoCategory {
+  return (logoCategories as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a search term matches a brand's id, name, aliases, categories or
+ * variant file names
+ */
+export function brandMatches(brand: LogoBrand, searchTerm: string): boolean {
+  const term = searchTerm.toLowerCase()
+
+  return [
+    brand.id,
+    brand.name,
+    ...brand.aliases,
+    ...brand.categories,
+    ...brand.variants,
+  ].some((value) => value.toLowerCase().includes(term))
+}
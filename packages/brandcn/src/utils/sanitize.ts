@@ -0,0 +1,114 @@
+import type { SvgElement } from "./svg.js"
+
+import { parseSvg, stringifySvg } from "./svg.js"
+
+export interface SanitizedSvg {
+  // The markup unchanged when nothing was removed
+  content: string
+  // What was removed, e.g. "Removed <script> from <svg>"
+  warnings: string[]
+}
+
+const unsafeElements = new Set(["foreignobject", "script"])
+
+// Raster images embedded as data URIs cannot run code
+const safeDataUrlPattern = /^data:image\/(?:gif|jpeg|jpg|png|webp)[;,]/i
+
+/**
+ * Lower-cased name without its namespace prefix, e.g. `href` for
+ * `xlink:href`
+ */
+function getLocalName(name: string): string {
+  return name.slice(name.indexOf(":") + 1).toLowerCase()
+}
+
+/**
+ * Whether a value contains a `javascript:` URL, also when browsers would
+ * ignore whitespace and control characters inside it
+ */
+function containsJavascriptUrl(value: string): boolean {
+  return /javascript:/i.test(value.replace(/[\s\p{Cc}]+/gu, ""))
+}
+
+/**
+ * Whether an `href` points outside the SVG, anywhere but a `#fragment` or an
+ * embedded raster image
+ */
+function isExternalReference(value: string): boolean {
+  const reference = value.trim()
+  return !reference.startsWith("#") && !safeDataUrlPattern.test(reference)
+}
+
+function getUnsafeAttributeReason(name: string, value: string): null | string {
+  const localName = getLocalName(name)
+
+  if (localName.startsWith("on")) {
+    return "event handler"
+  }
+
+  if (containsJavascriptUrl(value)) {
+    return "javascript: URL in"
+  }
+
+  if ("href" === localName && isExternalReference(value)) {
+    return "external reference"
+  }
+
+  return null
+}
+
+function sanitizeElement(element: SvgElement, warnings: string[]): void {
+  element.children = element.children.filter((child) => {
+    if (
+      "element" !== child.type ||
+      !unsafeElements.has(getLocalName(child.name))
+    ) {
+      return true
+    }
+
+    warnings.push(`Removed <${child.name}> from <${element.name}>`)
+    return false
+  })
+
+  for (const [name, value] of Object.entries(element.attributes)) {
+    const reason = getUnsafeAttributeReason(name, value)
+    if (reason) {
+      delete element.attributes[name]
+      warnings.push(`Removed ${reason} ${name} from <${element.name}>`)
+    }
+  }
+
+  for (const child of element.children) {
+    if ("element" === child.type) {
+      sanitizeElement(child, warnings)
+    } else if (
+      "style" === getLocalName(element.name) &&
+      "comment" !== child.type
+    ) {
+      child.value = child.value.replace(/@import[^;]*;?/gi, () => {
+        warnings.push(`Removed @import from <${element.name}>`)
+        return ""
+      })
+    }
+  }
+}
+
+/**
+ * Removes what could run code or load content once an SVG is written into a
+ * project and possibly inlined into the DOM: `<script>`, `<foreignObject>`,
+ * `on*` event handlers, `javascript:` URLs, external `href`s and `@import`
+ * in style sheets
+ * @param source - SVG markup
+ * @throws When the markup cannot be parsed
+ */
+export function sanitizeSvg(source: string): SanitizedSvg {
+  const root = parseSvg(source)
+  const warnings: string[] = []
+
+  sanitizeElement(root, warnings)
+
+  return {
+    content: 0 === warnings.length ? source : stringifySvg(root),
+    warnings,
+  }
+}
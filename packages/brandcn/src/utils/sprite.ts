@@ -0,0 +1,127 @@
+import type { ComponentOptions, SpriteSymbol } from "../types/logos.js"
+import type { SvgElement } from "./svg.js"
+
+import { fileNamingSchema } from "../types/config.js"
+import {
+  frameworks,
+  getComponentExtension,
+  getLogoFileName,
+  spriteComponentNotice,
+} from "./components.js"
+import { prefixSvgIds } from "./optimize.js"
+import { getLogoDisplayName } from "./registry.js"
+import { getSvgViewBox, parseSvg, stringifySvg } from "./svg.js"
+
+export const spriteFileName = "logos.sprite.svg"
+
+export interface SpriteLogo {
+  logoName: string
+  // Installed SVG markup
+  svg: string
+}
+
+// Root attributes that size or declare the document, which a <symbol> takes
+// from the <svg> drawing it instead
+const droppedAttributes = new Set([
+  "baseProfile",
+  "height",
+  "id",
+  "version",
+  "width",
+  "x",
+  "y",
+])
+
+/**
+ * Whether the sprite sheet or its component was generated by brandcn and may
+ * be rewritten
+ * @param source - Current contents of the file
+ */
+export function isGeneratedSpriteFile(source: string): boolean {
+  return source.includes(spriteComponentNotice)
+}
+
+/**
+ * File name of the <Logo name> component, e.g. `logo.tsx`
+ */
+export function getSpriteComponentFileName(
+  options: ComponentOptions = {},
+): string {
+  return `${getLogoFileName("logo", options.fileNaming)}.${getComponentExtension(options.framework)}`
+}
+
+/**
+ * Every file name the <Logo name> component takes across frameworks and file
+ * namings
+ */
+export const spriteComponentFileNames = [
+  ...new Set(
+    frameworks.flatMap((framework) =>
+      fileNamingSchema.options.map((fileNaming) =>
+        getSpriteComponentFileName({ fileNaming, framework }),
+      ),
+    ),
+  ),
+]
+
+/**
+ * `viewBox` of a symbol, falling back to the 300 by 150 browsers give an SVG
+ * without one
+ */
+function getSymbolViewBox(root: SvgElement): string {
+  const viewBox = getSvgViewBox(root)
+  if (!viewBox) {
+    return "0 0 300 150"
+  }
+
+  return [viewBox.minX, viewBox.minY, viewBox.width, viewBox.height].join(" ")
+}
+
+const sortLogos = (logos: SpriteLogo[]): SpriteLogo[] =>
+  [...logos].sort((a, b) => (a.logoName < b.logoName ? -1 : 1))
+
+/**
+ * Describes the symbols of a sprite sheet for its component
+ */
+export function getSpriteSymbols(logos: SpriteLogo[]): SpriteSymbol[] {
+  return sortLogos(logos).map((logo) => ({
+    label: getLogoDisplayName(logo.logoName),
+    logoName: logo.logoName,
+    viewBox: getSymbolViewBox(parseSvg(logo.svg)),
+  }))
+}
+
+/**
+ * Generates `logos.sprite.svg`, with a `<symbol>` per logo whose id is the
+ * logo name. Ids and class names inside a symbol are prefixed with the logo
+ * name and a double underscore, which no logo name contains, so they clash
+ * neither with each other nor with the symbols.
+ */
+export function createSpriteSource(logos: SpriteLogo[]): string {
+  const symbols = sortLogos(logos).map((logo) => {
+    const root = parseSvg(prefixSvgIds(logo.svg, logo.logoName, "__"))
+    const attributes = Object.fromEntries(
+      Object.entries(root.attributes).filter(
+        ([name]) => !droppedAttributes.has(name) && !name.startsWith("xmlns"),
+      ),
+    )
+
+    return stringifySvg({
+      ...root,
+      attributes: {
+        id: logo.logoName,
+        ...attributes,
+        viewBox: getSymbolViewBox(root),
+      },
+      name: "symbol",
+    })
+  })
+
+  return [
+    `<!-- ${spriteComponentNotice} -->`,
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">',
+    ...symbols.map((symbol) => `  ${symbol}`),
+    "</svg>",
+    "",
+  ].join("\n")
+}
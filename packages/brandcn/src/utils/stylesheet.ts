@@ -0,0 +1,144 @@
+import type { OutputFormat } from "../types/logos.js"
+
+import { getLogoFileName } from "./components.js"
+import { getSvgSize, isMonochromeSvg, parseSvg, stringifySvg } from "./svg.js"
+
+export const outputFormats: OutputFormat[] = [
+  "component",
+  "css",
+  "sprite",
+  "tailwind",
+]
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (outputFormats as string[]).includes(value)
+}
+
+export type StylesheetFormat = Extract<OutputFormat, "css" | "tailwind">
+
+// Files the stylesheet formats are written to in the logos directory
+export const stylesheetFileNames: { [format in StylesheetFormat]: string } = {
+  css: "logos.css",
+  tailwind: "logos.plugin.js",
+}
+
+const header =
+  "Generated by brandcn. Rewritten whenever logos are added or removed."
+
+export interface StylesheetLogo {
+  logoName: string
+  // Installed SVG markup
+  svg: string
+}
+
+/**
+ * Whether a stylesheet was generated by brandcn and may be rewritten
+ * @param source - Current contents of the file
+ */
+export function isGeneratedStylesheet(source: string): boolean {
+  return (
+    source.startsWith(`/* ${header} */`) || source.startsWith(`// ${header}`)
+  )
+}
+
+/**
+ * Class of a logo, e.g. `logo-vercel-dark` for `vercel_dark`
+ */
+export function getLogoClassName(logoName: string): string {
+  return `logo-${getLogoFileName(logoName, "kebab-case")}`
+}
+
+/**
+ * Encodes SVG markup as a data URI for `url("...")`, escaping only what
+ * would end the string or break the URI so the markup stays readable
+ */
+function toDataUri(svg: string): string {
+  const root = parseSvg(svg)
+  // SVGs loaded as images are ignored without their namespace
+  root.attributes.xmlns ??= "http://www.w3.org/2000/svg"
+
+  const encoded = encodeURIComponent(
+    stringifySvg(root).replace(/\s+/g, " ").trim(),
+  ).replace(/%(20|2C|2F|3A|3B|3D)/g, (match) => decodeURIComponent(match))
+
+  return `data:image/svg+xml,${encoded}`
+}
+
+/**
+ * Declarations of a logo class. Single-color logos are a mask over
+ * `currentColor`, so they follow the text color; others keep their colors as
+ * a background image. Logos are 1em high with their own aspect ratio.
+ */
+function getLogoDeclarations(logo: StylesheetLogo): [string, string][] {
+  const root = parseSvg(logo.svg)
+  const size = getSvgSize(root)
+  const image = `url("${toDataUri(logo.svg)}")`
+  const declarations: [string, string][] = [
+    ["--logo", image],
+    ["display", "inline-block"],
+    ["height", "1em"],
+    ["aspect-ratio", size ? `${size.width} / ${size.height}` : "1"],
+  ]
+
+  if (isMonochromeSvg(root)) {
+    return [
+      ...declarations,
+      ["background-color", "currentColor"],
+      ["-webkit-mask", "var(--logo) center / contain no-repeat"],
+      ["mask", "var(--logo) center / contain no-repeat"],
+    ]
+  }
+
+  return [
+    ...declarations,
+    ["background", "var(--logo) center / contain no-repeat"],
+  ]
+}
+
+const sortLogos = (logos: StylesheetLogo[]): StylesheetLogo[] =>
+  [...logos].sort((a, b) => (a.logoName < b.logoName ? -1 : 1))
+
+/**
+ * Generates `logos.css`, with one class per logo in the components layer so
+ * Tailwind utilities such as `h-6` win over its size
+ */
+export function createCssSource(logos: StylesheetLogo[]): string {
+  const rules = sortLogos(logos).flatMap((logo) => [
+    `  .${getLogoClassName(logo.logoName)} {`,
+    ...getLogoDeclarations(logo).map(
+      ([property, value]) => `    ${property}: ${value};`,
+    ),
+    "  }",
+  ])
+
+  return [`/* ${header} */`, "", "@layer components {", ...rules, "}", ""].join(
+    "\n",
+  )
+}
+
+/**
+ * Generates a Tailwind plugin adding one utility class per logo, loaded with
+ * `@plugin` in Tailwind 4 or `plugins` in Tailwind 3
+ */
+export function createTailwindPluginSource(logos: StylesheetLogo[]): string {
+  const utilities = sortLogos(logos).flatMap((logo) => [
+    `    ".${getLogoClassName(logo.logoName)}": {`,
+    ...getLogoDeclarations(logo).map(
+      ([property, value]) =>
+        `      ${JSON.stringify(property)}: ${JSON.stringify(value)},`,
+    ),
+    "    },",
+  ])
+
+  return [
+    `// ${header}`,
+    'import plugin from "tailwindcss/plugin"',
+    "",
+    "export default plugin(({ addUtilities }) => {",
+    "  addUtilities({",
+    ...utilities,
+    "  })",
+    "})",
+    "",
+  ].join("\n")
+}
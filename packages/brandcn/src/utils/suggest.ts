@@ -0,0 +1,133 @@
+import { findBrandByVariant, getBrands } from "./registry.js"
+
+/**
+ * Number of single character insertions, deletions or substitutions needed
+ * to turn one string into the other
+ */
+export function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost,
+      )
+    }
+
+    previous = current
+  }
+
+  return previous[b.length] ?? 0
+}
+
+function getTokens(value: string): string[] {
+  return value.split(/[-_.]+/).filter(Boolean)
+}
+
+interface Suggestion {
+  distance: number
+  name: string
+  // Lower tiers are better matches
+  tier: number
+}
+
+/**
+ * Ranks a candidate against a name, from matching once separators are
+ * ignored, over one being a prefix of the other or a small edit distance, to
+ * sharing a word
+ * @returns The rank, or null when the candidate is not a close match
+ */
+function rankCandidate(
+  name: string,
+  candidate: string,
+): null | Omit<Suggestion, "name"> {
+  const distance = getEditDistance(name, candidate)
+  const compactName = getTokens(name).join("")
+  const compactCandidate = getTokens(candidate).join("")
+  const shorter = Math.min(name.length, candidate.length)
+
+  if (compactName === compactCandidate) {
+    return { distance, tier: 0 }
+  }
+
+  if (
+    (3 <= shorter &&
+      (candidate.startsWith(name) || name.startsWith(candidate))) ||
+    distance <= Math.max(1, Math.floor(name.length / 3))
+  ) {
+    return { distance, tier: 1 }
+  }
+
+  const candidateTokens = getTokens(candidate)
+  if (
+    getTokens(name).some(
+      (token) => 3 <= token.length && candidateTokens.includes(token),
+    )
+  ) {
+    return { distance, tier: 2 }
+  }
+
+  return null
+}
+
+/**
+ * Finds library logos a misspelled name probably meant, matching brand ids,
+ * aliases and variant slugs. Aliases are suggested as their brand id, and
+ * variants are left out when their brand is suggested already.
+ * @param name - Name that was not found
+ * @param availableLogos - Slugs of the library logos
+ * @param limit - Maximum number of suggestions
+ */
+export function suggestLogoNames(
+  name: string,
+  availableLogos: string[],
+  limit = 3,
+): string[] {
+  const lowerName = name.toLowerCase()
+  const candidates = new Map<string, string>()
+
+  for (const brand of getBrands()) {
+    candidates.set(brand.id, brand.id)
+    for (const alias of brand.aliases) {
+      candidates.set(alias.toLowerCase(), brand.id)
+    }
+  }
+  for (const logo of availableLogos) {
+    candidates.set(logo, logo)
+  }
+
+  const ranked = new Map<string, Suggestion>()
+
+  for (const [candidate, suggestion] of candidates) {
+    const rank = rankCandidate(lowerName, candidate)
+    const current = ranked.get(suggestion)
+
+    if (
+      rank &&
+      (!current ||
+        rank.tier < current.tier ||
+        (rank.tier === current.tier && rank.distance < current.distance))
+    ) {
+      ranked.set(suggestion, { ...rank, name: suggestion })
+    }
+  }
+
+  const suggestions = [...ranked.values()]
+    .filter((suggestion) => {
+      const brand = findBrandByVariant(suggestion.name)
+      return !brand || brand.id === suggestion.name || !ranked.has(brand.id)
+    })
+    .sort(
+      (a, b) =>
+        a.tier - b.tier ||
+        a.distance - b.distance ||
+        a.name.localeCompare(b.name),
+    )
+
+  return suggestions.slice(0, limit).map((suggestion) => suggestion.name)
+}
@@ -0,0 +1,498 @@
+export interface SvgElement {
+  attributes: { [name: string]: string }
+  children: SvgNode[]
+  name: string
+  type: "element"
+}
+
+export interface SvgText {
+  type: "text"
+  value: string
+}
+
+export interface SvgCData {
+  type: "cdata"
+  value: string
+}
+
+export interface SvgComment {
+  type: "comment"
+  value: string
+}
+
+export type SvgNode = SvgCData | SvgComment | SvgElement | SvgText
+
+const namedEntities: { [name: string]: string } = {
+  amp: "&",
+  apos: "'",
+  gt: ">",
+  lt: "<",
+  nbsp: " ",
+  quot: '"',
+}
+
+export function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g,
+    (match, entity: string) => {
+      if (entity.startsWith("#x")) {
+        return String.fromCodePoint(Number.parseInt(entity.slice(2), 16))
+      }
+
+      if (entity.startsWith("#")) {
+        return String.fromCodePoint(Number.parseInt(entity.slice(1), 10))
+      }
+
+      return namedEntities[entity] ?? match
+    },
+  )
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;")
+}
+
+function parseError(message: string, position: number): Error {
+  return new Error(`Invalid SVG: ${message} at position ${position}`)
+}
+
+const namePattern = /[^\s/>=]+/y
+const attributePattern = /\s*([^\s/>=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/y
+
+/**
+ * Parses SVG markup into an element tree. The XML prolog, doctype and
+ * processing instructions are dropped; entities are decoded.
+ * @param source - SVG markup
+ * @returns The root `<svg>` element
+ */
+export function parseSvg(source: string): SvgElement {
+  const document: SvgElement = {
+    attributes: {},
+    children: [],
+    name: "#document",
+    type: "element",
+  }
+  const stack: SvgElement[] = [document]
+  let position = 0
+
+  const current = (): SvgElement => stack.at(-1) ?? document
+
+  while (position < source.length) {
+    const tagStart = source.indexOf("<", position)
+
+    if (-1 === tagStart) {
+      current().children.push({
+        type: "text",
+        value: decodeEntities(source.slice(position)),
+      })
+      break
+    }
+
+    if (tagStart > position) {
+      current().children.push({
+        type: "text",
+        value: decodeEntities(source.slice(position, tagStart)),
+      })
+    }
+
+    if (source.startsWith("<!--", tagStart)) {
+      const end = source.indexOf("-->", tagStart + 4)
+      if (-1 === end) {
+        throw parseError("unterminated comment", tagStart)
+      }
+
+      current().children.push({
+        type: "comment",
+        value: source.slice(tagStart + 4, end),
+      })
+      position = end + 3
+      continue
+    }
+
+    if (source.startsWith("<![CDATA[", tagStart)) {
+      const end = source.indexOf("]]>", tagStart + 9)
+      if (-1 === end) {
+        throw parseError("unterminated CDATA section", tagStart)
+      }
+
+      current().children.push({
+        type: "cdata",
+        value: source.slice(tagStart + 9, end),
+      })
+      position = end + 3
+      continue
+    }
+
+    if (source.startsWith("<?", tagStart)) {
+      const end = source.indexOf("?>", tagStart + 2)
+      if (-1 === end) {
+        throw parseError("unterminated processing instruction", tagStart)
+      }
+
+      position = end + 2
+      continue
+    }
+
+    if (source.startsWith("<!", tagStart)) {
+      // Doctype, possibly with an internal subset in brackets
+      let depth = 0
+      let end = tagStart + 2
+
+      for (; end < source.length; end++) {
+        const char = source[end]
+        if ("[" === char) {
+          depth++
+        } else if ("]" === char) {
+          depth--
+        } else if (">" === char && 0 === depth) {
+          break
+        }
+      }
+
+      position = end + 1
+      continue
+    }
+
+    if (source.startsWith("</", tagStart)) {
+      const end = source.indexOf(">", tagStart + 2)
+      if (-1 === end) {
+        throw parseError("unterminated closing tag", tagStart)
+      }
+
+      const name = source.slice(tagStart + 2, end).trim()
+      const element = stack.pop()
+
+      if (!element || element === document || element.name !== name) {
+        throw parseError(`unexpected closing tag </${name}>`, tagStart)
+      }
+
+      position = end + 1
+      continue
+    }
+
+    namePattern.lastIndex = tagStart + 1
+    const nameMatch = namePattern.exec(source)
+    if (!nameMatch) {
+      throw parseError("missing tag name", tagStart)
+    }
+
+    const element: SvgElement = {
+      attributes: {},
+      children: [],
+      name: nameMatch[0],
+      type: "element",
+    }
+    position = namePattern.lastIndex
+
+    while (true) {
+      attributePattern.lastIndex = position
+      const attributeMatch = attributePattern.exec(source)
+      if (!attributeMatch) {
+        break
+      }
+
+      const [, attributeName, doubleQuoted, singleQuoted] = attributeMatch
+      element.attributes[attributeName ?? ""] = decodeEntities(
+        doubleQuoted ?? singleQuoted ?? "",
+      )
+      position = attributePattern.lastIndex
+    }
+
+    const closeMatch = /\s*(\/?)>/y
+    closeMatch.lastIndex = position
+    const close = closeMatch.exec(source)
+    if (!close) {
+      throw parseError(`malformed <${element.name}> tag`, tagStart)
+    }
+
+    current().children.push(element)
+    position = closeMatch.lastIndex
+
+    if ("/" !== close[1]) {
+      stack.push(element)
+    }
+  }
+
+  if (1 < stack.length) {
+    throw parseError(`unclosed <${current().name}> tag`, position)
+  }
+
+  const root = document.children.find(
+    (node): node is SvgElement => "element" === node.type,
+  )
+
+  if (!root || "svg" !== root.name) {
+    throw parseError("missing root <svg> element", 0)
+  }
+
+  return root
+}
+
+/**
+ * Serializes an element tree back into SVG markup
+ * @param node - Element or node to serialize
+ */
+export function stringifySvg(node: SvgNode): string {
+  switch (node.type) {
+    case "cdata": {
+      return `<![CDATA[${node.value}]]>`
+    }
+    case "comment": {
+      return `<!--${node.value}-->`
+    }
+    case "text": {
+      return escapeText(node.value)
+    }
+    default: {
+      const attributes = Object.entries(node.attributes)
+        .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+        .join("")
+
+      if (0 === node.children.length) {
+        return `<${node.name}${attributes}/>`
+      }
+
+      const children = node.children.map(stringifySvg).join("")
+      return `<${node.name}${attributes}>${children}</${node.name}>`
+    }
+  }
+}
+
+/**
+ * Calls `visit` for every element in the tree, parents before children
+ * @param element - Root element
+ * @param visit - Callback receiving each element and its parent
+ */
+export function walkSvg(
+  element: SvgElement,
+  visit: (element: SvgElement, parent: null | SvgElement) => void,
+  parent: null | SvgElement = null,
+): void {
+  visit(element, parent)
+
+  for (const child of element.children) {
+    if ("element" === child.type) {
+      walkSvg(child, visit, element)
+    }
+  }
+}
+
+export interface SvgViewBox {
+  height: number
+  minX: number
+  minY: number
+  width: number
+}
+
+/**
+ * Reads the `viewBox` of an SVG, falling back to its `width` and `height`
+ * @param root - Root `<svg>` element
+ * @returns The view box, or null when neither is set or valid
+ */
+export function getSvgViewBox(root: SvgElement): null | SvgViewBox {
+  const values = (root.attributes.viewBox ?? "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number)
+
+  if (4 === values.length && values.every(Number.isFinite)) {
+    const [minX = 0, minY = 0, width = 0, height = 0] = values
+    return 0 < width && 0 < height ? { height, minX, minY, width } : null
+  }
+
+  const width = Number.parseFloat(root.attributes.width ?? "")
+  const height = Number.parseFloat(root.attributes.height ?? "")
+
+  return 0 < width && 0 < height ? { height, minX: 0, minY: 0, width } : null
+}
+
+export interface SvgSize {
+  height: number
+  width: number
+}
+
+// Lengths in user units or pixels, not percentages or ems
+const lengthPattern = /^\s*(\d*\.?\d+)(?:px)?\s*$/
+
+/**
+ * Intrinsic size of an SVG: its `width` and `height` when both are absolute
+ * lengths, otherwise the size of its `viewBox`
+ * @param root - Root `<svg>` element
+ * @returns The size, or null when neither is set or valid
+ */
+export function getSvgSize(root: SvgElement): null | SvgSize {
+  const width = lengthPattern.exec(root.attributes.width ?? "")?.[1]
+  const height = lengthPattern.exec(root.attributes.height ?? "")?.[1]
+
+  if (width && height && 0 < Number(width) && 0 < Number(height)) {
+    return { height: Number(height), width: Number(width) }
+  }
+
+  const viewBox = getSvgViewBox(root)
+  return viewBox ? { height: viewBox.height, width: viewBox.width } : null
+}
+
+const namedColors: { [name: string]: string } = {
+  black: "#000000",
+  white: "#ffffff",
+}
+
+/**
+ * Normalizes a paint value so equal colors compare equal, e.g. `#FFF` and
+ * `white` both become `#ffffff`
+ * @returns The color, or null for values that paint nothing or reference a
+ * gradient or pattern
+ */
+export function normalizeColor(value: string): null | string {
+  const color = value.trim().toLowerCase()
+
+  if (
+    !color ||
+    ["inherit", "none", "transparent"].includes(color) ||
+    color.startsWith("url(")
+  ) {
+    return null
+  }
+
+  if ("currentcolor" === color) {
+    return "currentColor"
+  }
+
+  const shortHex = /^#([0-9a-f])([0-9a-f])([0-9a-f])([0-9a-f])?$/.exec(color)
+  if (shortHex) {
+    const [, r, g, b, a] = shortHex
+    const hex = `#${r}${r}${g}${g}${b}${b}`
+    return a && "f" !== a ? `${hex}${a}${a}` : hex
+  }
+
+  if (/^#[0-9a-f]{8}$/.test(color) && color.endsWith("ff")) {
+    return color.slice(0, 7)
+  }
+
+  return namedColors[color] ?? color
+}
+
+// Properties that take a color, as attributes or in styles
+export const paintProperties = ["fill", "stroke", "stop-color"]
+const shapeElements = new Set([
+  "circle",
+  "ellipse",
+  "line",
+  "path",
+  "polygon",
+  "polyline",
+  "rect",
+  "text",
+])
+
+/**
+ * Reads the paint properties set on an element, from its attributes and its
+ * inline `style`
+ */
+export function getPaintProperties(element: SvgElement): {
+  [property: string]: string
+} {
+  const paint: { [property: string]: string } = {}
+
+  for (const property of paintProperties) {
+    const value = element.attributes[property]
+    if (undefined !== value) {
+      paint[property] = value
+    }
+  }
+
+  for (const declaration of (element.attributes.style ?? "").split(";")) {
+    const [property = "", ...value] = declaration.split(":")
+    const name = property.trim().toLowerCase()
+    if (paintProperties.includes(name)) {
+      paint[name] = value.join(":")
+    }
+  }
+
+  return paint
+}
+
+// Children of these elements are never painted themselves
+const unpaintedElements = new Set(["clipPath", "mask"])
+
+/**
+ * Collects the distinct fill, stroke and gradient stop colors of an SVG,
+ * including those set in `<style>` sheets. Shapes without any fill count as
+ * black, the SVG default, unless a style sheet may color them.
+ * @param root - Root `<svg>` element
+ */
+export function getSvgColors(root: SvgElement): string[] {
+  const colors = new Set<string>()
+  const add = (value: string) => {
+    const color = normalizeColor(value)
+    if (color) {
+      colors.add(color)
+    }
+  }
+  let hasStyleSheet = false
+  let paintsDefaultFill = false
+
+  const visit = (
+    element: SvgElement,
+    inheritsFill: boolean,
+    isPainted: boolean,
+  ): void => {
+    const paint = getPaintProperties(element)
+
+    if (paint["stop-color"]) {
+      add(paint["stop-color"])
+    }
+    if (isPainted) {
+      add(paint.fill ?? "")
+      add(paint.stroke ?? "")
+    }
+
+    if ("style" === element.name) {
+      hasStyleSheet = true
+      const css = element.children
+        .map((child) => ("element" === child.type ? "" : child.value))
+        .join("")
+
+      for (const match of css.matchAll(
+        /(?:^|[{;\s])(?:fill|stroke|stop-color)\s*:\s*([^;}]+)/g,
+      )) {
+        add(match[1] ?? "")
+      }
+    }
+
+    const hasFill = inheritsFill || undefined !== paint.fill
+    if (isPainted && !hasFill && shapeElements.has(element.name)) {
+      paintsDefaultFill = true
+    }
+
+    for (const child of element.children) {
+      if ("element" === child.type) {
+        visit(child, hasFill, isPainted && !unpaintedElements.has(element.name))
+      }
+    }
+  }
+
+  visit(root, false, true)
+
+  if (paintsDefaultFill && !hasStyleSheet) {
+    colors.add("#000000")
+  }
+
+  return [...colors].sort()
+}
+
+/**
+ * Whether an SVG paints with a single color, so it can be recolored with
+ * `currentColor`
+ * @param root - Root `<svg>` element
+ */
+export function isMonochromeSvg(root: SvgElement): boolean {
+  return getSvgColors(root).length <= 1
+}
@@ -0,0 +1,165 @@
+import type { RasterImage } from "./raster.js"
+
+import { getPixel } from "./raster.js"
+
+export type ColorMode = "256" | "truecolor"
+
+export type ImageProtocol = "iterm" | "kitty"
+
+/**
+ * Whether the terminal takes 24-bit colors, per `COLORTERM`. Others get the
+ * nearest of the 256 xterm colors.
+ */
+export function getColorMode(env: NodeJS.ProcessEnv = process.env): ColorMode {
+  return ["24bit", "truecolor"].includes(env.COLORTERM ?? "")
+    ? "truecolor"
+    : "256"
+}
+
+/**
+ * Detects a terminal that draws images itself. Inside tmux images are not
+ * passed through, so half-blocks are used there.
+ * @returns The protocol, or null when only text can be drawn
+ */
+export function getImageProtocol(
+  env: NodeJS.ProcessEnv = process.env,
+): ImageProtocol | null {
+  if (env.TMUX) {
+    return null
+  }
+
+  if (
+    env.KITTY_WINDOW_ID ||
+    "xterm-kitty" === env.TERM ||
+    "ghostty" === env.TERM_PROGRAM
+  ) {
+    return "kitty"
+  }
+
+  if ("iTerm.app" === env.TERM_PROGRAM || "WezTerm" === env.TERM_PROGRAM) {
+    return "iterm"
+  }
+
+  return null
+}
+
+/**
+ * Index of the nearest color in the xterm 256 color palette, using the
+ * grayscale ramp for grays
+ */
+export function getAnsi256Color(r: number, g: number, b: number): number {
+  if (r === g && g === b) {
+    if (r < 8) {
+      return 16
+    }
+    if (r > 248) {
+      return 231
+    }
+
+    return 232 + Math.round(((r - 8) / 247) * 24)
+  }
+
+  const level = (value: number) => Math.round((value / 255) * 5)
+  return 16 + 36 * level(r) + 6 * level(g) + level(b)
+}
+
+function getColorCode(
+  [r, g, b]: [number, number, number, number],
+  colorMode: ColorMode,
+  isBackground: boolean,
+): string {
+  const layer = isBackground ? 48 : 38
+
+  if ("truecolor" === colorMode) {
+    return `\u001B[${layer};2;${r};${g};${b}m`
+  }
+
+  return `\u001B[${layer};5;${getAnsi256Color(r, g, b)}m`
+}
+
+/**
+ * Draws an image with Unicode half-blocks, two pixels per character: the
+ * upper one as the text color of `▀` and the lower one as its background.
+ * Pixels less than half opaque are left to the terminal background.
+ * @returns One line per two rows of pixels
+ */
+export function renderHalfBlocks(
+  image: RasterImage,
+  colorMode: ColorMode,
+): string[] {
+  const lines: string[] = []
+  const isVisible = (pixel: [number, number, number, number]) => 128 <= pixel[3]
+
+  for (let row = 0; row < image.height; row += 2) {
+    let line = ""
+
+    for (let column = 0; column < image.width; column++) {
+      const top = getPixel(image, (row * image.width + column) * 4)
+      const bottom =
+        row + 1 < image.height
+          ? getPixel(image, ((row + 1) * image.width + column) * 4)
+          : ([0, 0, 0, 0] as [number, number, number, number])
+
+      if (isVisible(top) && isVisible(bottom)) {
+        line += `${getColorCode(top, colorMode, false)}${getColorCode(bottom, colorMode, true)}▀\u001B[0m`
+      } else if (isVisible(top)) {
+        line += `${getColorCode(top, colorMode, false)}▀\u001B[0m`
+      } else if (isVisible(bottom)) {
+        line += `${getColorCode(bottom, colorMode, false)}▄\u001B[0m`
+      } else {
+        line += " "
+      }
+    }
+
+    lines.push(line)
+  }
+
+  return lines
+}
+
+// Kitty reads the base64 payload in chunks of at most 4096 bytes
+const kittyChunkSize = 4096
+
+/**
+ * Escape sequence that draws a PNG with the Kitty graphics protocol,
+ * stretched over a number of terminal cells
+ */
+export function renderKittyImage(
+  png: Buffer,
+  columns: number,
+  rows: number,
+): string {
+  const payload = png.toString("base64")
+  let output = ""
+
+  for (let start = 0; start < payload.length; start += kittyChunkSize) {
+    const chunk = payload.slice(start, start + kittyChunkSize)
+    const more = start + kittyChunkSize < payload.length ? 1 : 0
+    const keys =
+      0 === start ? `a=T,f=100,c=${columns},r=${rows},m=${more}` : `m=${more}`
+
+    output += `\u001B_G${keys};${chunk}\u001B\\`
+  }
+
+  return output
+}
+
+/**
+ * Escape sequence that draws a PNG inline with the iTerm2 image protocol,
+ * stretched over a number of terminal cells
+ */
+export function renderItermImage(
+  png: Buffer,
+  columns: number,
+  rows: number,
+): string {
+  const args = [
+    "inline=1",
+    `size=${png.length}`,
+    `width=${columns}`,
+    `height=${rows}`,
+    "preserveAspectRatio=0",
+  ]
+
+  return `\u001B]1337;File=${args.join(";")}:${png.toString("base64")}\u0007`
+}
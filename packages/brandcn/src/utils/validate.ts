@@ -1,16 +1,26 @@
 import { z } from "zod"
 
+import type { Framework, OutputFormat } from "../types/logos.js"
+
+import { frameworks, isFramework } from "./components.js"
+import { getLogoSlug } from "./registry.js"
+import { isOutputFormat, outputFormats } from "./stylesheet.js"
+import { normalizeColor } from "./svg.js"
+
 /**
  * Schema for validating logo names
- * Logo names must be alphanumeric and may contain hyphens or underscores
+ * Logo names must be alphanumeric and may contain dots, hyphens or
+ * underscores. They are parsed into the canonical slug of the library, so
+ * `Apollo.io` becomes `apollo-io`
  */
 export const logoNameSchema = z
   .string()
   .min(1, "Logo name cannot be empty")
   .regex(
-    /^[a-zA-Z0-9_-]+$/,
-    "Logo name must contain only alphanumeric characters, hyphens, or underscores",
+    /^[a-zA-Z0-9._-]+$/,
+    "Logo name must contain only alphanumeric characters, dots, hyphens, or underscores",
   )
+  .transform(getLogoSlug)
 
 export function parseLogoName(logoName: string) {
   return logoNameSchema.safeParse(logoName)
@@ -43,3 +53,147 @@ export function validateLogoNames(logoNames: string[]) {
     validNames,
   }
 }
+
+/**
+ * Validates the value of a `--framework` flag
+ * @throws When the value is not a supported framework
+ */
+export function parseFramework(
+  value: string | undefined,
+): Framework | undefined {
+  if (undefined === value) {
+    return undefined
+  }
+
+  if (!isFramework(value)) {
+    throw new Error(
+      `Unknown framework "${value}". Expected one of: ${frameworks.join(", ")}`,
+    )
+  }
+
+  return value
+}
+
+/**
+ * Validates the value of a `--format` flag of `add`
+ * @throws When the value is not an output format
+ */
+export function parseOutputFormat(
+  value: string | undefined,
+): OutputFormat | undefined {
+  if (undefined === value) {
+    return undefined
+  }
+
+  if (!isOutputFormat(value)) {
+    throw new Error(
+      `Unknown format "${value}". Expected one of: ${outputFormats.join(", ")}`,
+    )
+  }
+
+  return value
+}
+
+/**
+ * Normalizes a color given on the command line to a six digit hex color
+ * @param value - Hex color, black or white
+ * @returns The hex color, or null when the value is not one
+ */
+function toHexColor(value: string): null | string {
+  const color = normalizeColor(value)
+  return color && /^#[0-9a-f]{6}$/.test(color) ? color : null
+}
+
+/**
+ * Validates the value of a `--color` flag
+ * @throws When the value is not a hex color
+ */
+export function parseColor(value: string | undefined): string | undefined {
+  if (undefined === value) {
+    return undefined
+  }
+
+  const color = toHexColor(value)
+  if (!color) {
+    throw new Error(`Invalid color "${value}". Use a hex color, e.g. #6b7280`)
+  }
+
+  return color
+}
+
+/**
+ * Parses the value of a `--map` flag, e.g. `#000=#111,#fff=#fafafa`
+ * @returns Normalized colors mapped to their replacements
+ * @throws When a pair is not two hex colors joined by `=`
+ */
+export function parseColorMap(
+  value: string | undefined,
+): undefined | { [color: string]: string } {
+  if (undefined === value) {
+    return undefined
+  }
+
+  const colorMap: { [color: string]: string } = {}
+
+  for (const pair of value.split(",")) {
+    const [from = "", to = "", ...rest] = pair.split("=")
+    const fromColor = toHexColor(from)
+    const toColor = toHexColor(to)
+
+    if (!fromColor || !toColor || 0 < rest.length) {
+      throw new Error(
+        `Invalid color mapping "${pair.trim()}". Use pairs of hex colors, e.g. "#000=#111,#fff=#fafafa"`,
+      )
+    }
+
+    colorMap[fromColor] = toColor
+  }
+
+  return colorMap
+}
+
+/**
+ * Validates the value of a `--padding` flag
+ * @returns The padding as a percentage, 0 when not given
+ * @throws When the value is not a number from 0 to 50
+ */
+export function parsePadding(value: string | undefined): number {
+  if (undefined === value) {
+    return 0
+  }
+
+  const padding = Number(value.trim().replace(/%$/, ""))
+  if (
+    "" === value.trim() ||
+    !Number.isFinite(padding) ||
+    padding < 0 ||
+    padding > 50
+  ) {
+    throw new Error(
+      `Invalid padding "${value}". Use a percentage from 0 to 50, e.g. 10`,
+    )
+  }
+
+  return padding
+}
+
+/**
+ * Parses the value of a `--size` flag, e.g. `16,32,64`
+ * @returns Sizes in pixels, without duplicates
+ * @throws When a size is not a whole number from 1 to `maxSize`
+ */
+export function parseSizes(value: string, maxSize = 4096): number[] {
+  const sizes = value.split(",").map((size) => {
+    const pixels = Number(size.trim().replace(/px$/, ""))
+
+    if (!Number.isInteger(pixels) || pixels < 1 || pixels > maxSize) {
+      throw new Error(
+        `Invalid size "${size.trim()}". Use pixel sizes from 1 to ${maxSize}, e.g. 16,32,64`,
+      )
+    }
+
+    return pixels
+  })
+
+  return [...new Set(sizes)]
+}
@@ -0,0 +1,98 @@
+import type { ComponentOptions } from "../types/logos.js"
+import type { SvgViewBox } from "./svg.js"
+
+import { getSvgBounds } from "./raster.js"
+import { getSvgSize, getSvgViewBox, parseSvg, stringifySvg } from "./svg.js"
+
+export type TrimOptions = NonNullable<ComponentOptions["trim"]>
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Part of the bounds inside the `viewBox`, as the rest is never shown
+ */
+function intersect(bounds: SvgViewBox, viewBox: SvgViewBox): SvgViewBox {
+  const minX = Math.max(bounds.minX, viewBox.minX)
+  const minY = Math.max(bounds.minY, viewBox.minY)
+  const maxX = Math.min(
+    bounds.minX + bounds.width,
+    viewBox.minX + viewBox.width,
+  )
+  const maxY = Math.min(
+    bounds.minY + bounds.height,
+    viewBox.minY + viewBox.height,
+  )
+
+  return {
+    height: Math.max(0, maxY - minY),
+    minX,
+    minY,
+    width: Math.max(0, maxX - minX),
+  }
+}
+
+/**
+ * Fits the `viewBox` of an SVG to what it paints, trimming the whitespace
+ * around it. Absolute `width` and `height` are scaled along, so the logo keeps
+ * its size on the page.
+ * @param source - SVG markup
+ * @param options - Padding on every side, as a percentage of the longer side
+ * of the content, and whether to center the content in a square
+ * @returns The markup unchanged when nothing is painted
+ */
+export async function trimSvg(
+  source: string,
+  options: TrimOptions,
+): Promise<string> {
+  const root = parseSvg(source)
+  const viewBox = getSvgViewBox(root)
+  const size = getSvgSize(root)
+  const painted = await getSvgBounds(source)
+
+  const bounds = painted && viewBox ? intersect(painted, viewBox) : painted
+  if (!bounds || 0 === bounds.width || 0 === bounds.height) {
+    return source
+  }
+
+  const padding =
+    (Math.max(bounds.width, bounds.height) * options.padding) / 100
+  let box = {
+    height: bounds.height + padding * 2,
+    minX: bounds.minX - padding,
+    minY: bounds.minY - padding,
+    width: bounds.width + padding * 2,
+  }
+
+  if (options.square) {
+    const side = Math.max(box.width, box.height)
+    box = {
+      height: side,
+      minX: box.minX - (side - box.width) / 2,
+      minY: box.minY - (side - box.height) / 2,
+      width: side,
+    }
+  }
+
+  root.attributes.viewBox = [box.minX, box.minY, box.width, box.height]
+    .map(round)
+    .join(" ")
+
+  // Without a viewBox, user units are pixels
+  const scale =
+    size && viewBox
+      ? Math.min(size.width / viewBox.width, size.height / viewBox.height)
+      : 1
+  // Relative lengths such as 100% follow the page rather than the viewBox
+  const isAbsolute = (length = "") => /^\s*\d*\.?\d+(?:px)?\s*$/.test(length)
+
+  if (isAbsolute(root.attributes.width)) {
+    root.attributes.width = String(round(box.width * scale))
+  }
+  if (isAbsolute(root.attributes.height)) {
+    root.attributes.height = String(round(box.height * scale))
+  }
+
+  return stringifySvg(root)
+}
@@ -0,0 +1,56 @@
+import encode, { init } from "@jsquash/webp/encode.js"
+import fs from "fs-extra"
+const { readFile } = fs
+import { createRequire } from "node:module"
+
+import type { RasterImage } from "./raster.js"
+
+import { getPixel } from "./raster.js"
+
+let encoderReady: null | Promise<unknown> = null
+
+/**
+ * Loads the libwebp WebAssembly module once, from the installed package so
+ * encoding works offline. Node 18 and later run WebAssembly SIMD, which makes
+ * the encoder pick its SIMD build.
+ */
+function loadEncoder(): Promise<unknown> {
+  if (!encoderReady) {
+    const wasmPath = createRequire(import.meta.url).resolve(
+      "@jsquash/webp/codec/enc/webp_enc_simd.wasm",
+    )
+    encoderReady = readFile(wasmPath)
+      .then((wasm) => WebAssembly.compile(wasm))
+      .then((module) =>
+        init({
+          instantiateWasm(imports, callback) {
+            const instance = new WebAssembly.Instance(module, imports)
+            callback(instance)
+            return instance.exports
+          },
+        }),
+      )
+  }
+
+  return encoderReady
+}
+
+/**
+ * Encodes an image as a lossless WebP with libwebp
+ */
+export async function encodeWebp(image: RasterImage): Promise<Buffer> {
+  await loadEncoder()
+
+  // libwebp takes straight RGBA
+  const data = new Uint8ClampedArray(image.pixels.length)
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data.set(getPixel(image, offset), offset)
+  }
+
+  const webp = await encode(
+    { colorSpace: "srgb", data, height: image.height, width: image.width },
+    { exact: 1, lossless: 1 },
+  )
+
+  return Buffer.from(webp)
+}
@@ -1,6 +1,12 @@
-import { describe, expect, it } from "vitest"
+import { existsSync, mkdirSync, rmSync } from "node:fs"
+import path from "node:path"
+import { afterEach, describe, expect, it, vi } from "vitest"
 
-import { addCommand, parseAddArgs } from "../../src/commands/add.js"
+import {
+  addCommand,
+  parseAddArgs,
+  runAddCommand,
+} from "../../src/commands/add.js"
 import { validateLogoNames } from "../../src/utils/validate.js"
 
 describe("add command", () => {
@@ -16,16 +22,17 @@ describe("add command", () => {
     })
 
     it("should have usage", () => {
-      expect(addCommand.usage).toBe(
-        "brandcn add <logo-name> [logo-names...] [options]",
-      )
+      expect(addCommand.usage).toBe("brandcn add [logo-names...] [options]")
     })
 
     it("should expose expected flags", () => {
       expect(addCommand.flags.dark.char).toBe("d")
       expect(addCommand.flags.light.char).toBe("l")
       expect(addCommand.flags.wordmark.char).toBe("w")
+      expect(addCommand.flags.force.char).toBe("f")
+      expect(addCommand.flags.framework.char).toBe("F")
       expect(addCommand.flags.help.char).toBe("h")
+      expect(addCommand.flags.json.char).toBe("j")
     })
   })
 
@@ -37,9 +44,93 @@ describe("add command", () => {
       expect(parsed.flags.dark).toBe(true)
       expect(parsed.flags.wordmark).toBe(true)
       expect(parsed.flags.light).toBe(false)
+      expect(parsed.flags.force).toBe(false)
       expect(parsed.help).toBe(false)
     })
 
+    it("should parse --inline", () => {
+      expect(parseAddArgs(["vercel", "-i"]).flags.componentStyle).toBe("inline")
+      expect(parseAddArgs(["vercel"]).flags.componentStyle).toBeUndefined()
+    })
+
+    it("should parse --optimize", () => {
+      expect(parseAddArgs(["vercel", "-o"]).flags.optimize).toBe(true)
+      expect(parseAddArgs(["vercel"]).flags.optimize).toBeUndefined()
+    })
+
+    it("should parse --current-color as inline components", () => {
+      expect(parseAddArgs(["github", "-c"]).flags).toMatchObject({
+        componentStyle: "inline",
+        currentColor: true,
+      })
+      expect(parseAddArgs(["github"]).flags.currentColor).toBeUndefined()
+    })
+
+    it("should parse --color and --map", () => {
+      expect(parseAddArgs(["vercel", "-C", "#6B7280"]).flags.color).toBe(
+        "#6b7280",
+      )
+      expect(
+        parseAddArgs(["vercel", "--map", "#000=#111"]).flags.colorMap,
+      ).toEqual({ "#000000": "#111111" })
+    })
+
+    it("should throw when combining ways to recolor", () => {
+      expect(() =>
+        parseAddArgs(["vercel", "--color", "#000", "--map", "#000=#111"]),
+      ).toThrow("Use only one of --color, --map")
+    })
+
+    it("should parse --trim, --square and --padding", () => {
+      expect(parseAddArgs(["vercel", "-t"]).flags.trim).toEqual({
+        padding: 0,
+        square: false,
+      })
+      expect(parseAddArgs(["vercel", "-s", "-p", "10"]).flags.trim).toEqual({
+        padding: 10,
+        square: true,
+      })
+      expect(parseAddArgs(["vercel"]).flags.trim).toBeUndefined()
+    })
+
+    it("should parse --format", () => {
+      expect(parseAddArgs(["vercel", "-O", "css"]).flags.format).toBe("css")
+      expect(parseAddArgs(["vercel"]).flags.format).toBeUndefined()
+      expect(() => parseAddArgs(["vercel", "--format", "scss"])).toThrow(
+        'Unknown format "scss". Expected one of: component, css, sprite, tailwind',
+      )
+    })
+
+    it("should parse --sprite", () => {
+      expect(parseAddArgs(["vercel", "--sprite"]).flags.format).toBe("sprite")
+      expect(() => parseAddArgs(["vercel", "-S", "--format", "css"])).toThrow(
+        "Use either --sprite or --format",
+      )
+    })
+
+    it("should parse --framework", () => {
+      expect(
+        parseAddArgs(["vercel", "--framework", "vue"]).flags.framework,
+      ).toBe("vue")
+      expect(parseAddArgs(["vercel"]).flags.framework).toBeUndefined()
+    })
+
+    it("should throw for unknown frameworks", () => {
+      expect(() => parseAddArgs(["vercel", "-F", "ember"])).toThrow(
+        'Unknown framework "ember"',
+      )
+    })
+
+    it("should parse --json", () => {
+      expect(parseAddArgs(["vercel", "--json"]).flags.json).toBe(true)
+      expect(parseAddArgs(["vercel"]).flags.json).toBe(false)
+    })
+
+    it("should parse --force", () => {
+      const parsed = parseAddArgs(["vercel", "-f"])
+      expect(parsed.flags.force).toBe(true)
+    })
+
     it("should parse --help", () => {
       const parsed = parseAddArgs(["--help"])
       expect(parsed.help).toBe(true)
@@ -71,4 +162,90 @@ describe("add command", () => {
       expect(result.errors[0]?.name).toBe("invalid@name")
     })
   })
+
+  describe("--json", () => {
+    const testDir = path.resolve("./test-temp")
+    const originalCwd = process.cwd()
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+      process.chdir(originalCwd)
+      rmSync(testDir, { force: true, recursive: true })
+    })
+
+    const runJson = async (logoNames: string[]) => {
+      mkdirSync(testDir, { recursive: true })
+      process.chdir(testDir)
+      const output = vi
+        .spyOn(console, "log")
+        .mockImplementation(() => undefined)
+      const code = await runAddCommand(logoNames, { json: true })
+
+      expect(output).toHaveBeenCalledTimes(1)
+      return { code, results: JSON.parse(String(output.mock.calls[0]?.[0])) }
+    }
+
+    it("should print results with absolute paths", async () => {
+      const { code, results } = await runJson(["neon", "missing-logo"])
+
+      expect(code).toBe(0)
+      expect(results[0].logoName).toBe("neon")
+      expect(results[0].createdFiles).toEqual([
+        path.join(testDir, "neon.svg"),
+        path.join(testDir, "neon.tsx"),
+      ])
+      expect(existsSync(results[0].createdFiles[0])).toBe(true)
+      expect(results[1]).toMatchObject({
+        error: 'Logo "missing-logo" not found in library',
+        success: false,
+      })
+    })
+
+    it("should keep failing when every logo fails", async () => {
+      const { code, results } = await runJson(["missing-logo"])
+
+      expect(code).toBe(1)
+      expect(results).toHaveLength(1)
+    })
+
+    it("should print errors as JSON", async () => {
+      const { code, results } = await runJson([])
+
+      expect(code).toBe(1)
+      expect(results.error).toBe("No logo names provided")
+    })
+  })
+
+  describe("summary", () => {
+    const testDir = path.resolve("./test-temp")
+    const originalCwd = process.cwd()
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+      process.chdir(originalCwd)
+      rmSync(testDir, { force: true, recursive: true })
+    })
+
+    it("should not count themed components as logos", async () => {
+      mkdirSync(testDir, { recursive: true })
+      process.chdir(testDir)
+      const output = vi
+        .spyOn(process.stdout, "write")
+        .mockImplementation(() => true)
+
+      expect(await runAddCommand(["github"], { dark: true, light: true })).toBe(
+        0,
+      )
+      expect(existsSync("./github.tsx")).toBe(true)
+      expect(output.mock.calls.join("")).toContain(
+        "Successfully added 4 logos.",
+      )
+    })
+  })
+
+  describe("without logo names", () => {
+    it("should fail outside an interactive terminal", async () => {
+      expect(await runAddCommand([], {})).toBe(1)
+    })
+  })
 })
@@ -0,0 +1,75 @@
+import { mkdirSync, rmSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  diffCommand,
+  parseDiffArgs,
+  runDiffCommand,
+} from "../../src/commands/diff.js"
+import { processLogos } from "../../src/utils/fs.js"
+
+describe("diff command", () => {
+  describe("metadata", () => {
+    it("should have usage and examples", () => {
+      expect(diffCommand.usage).toBe("brandcn diff [logo-names...] [options]")
+      expect(diffCommand.examples).toContain("$ brandcn diff vercel")
+    })
+
+    it("should expose expected flags", () => {
+      expect(diffCommand.flags["name-only"].char).toBe("n")
+      expect(diffCommand.flags.help.char).toBe("h")
+    })
+  })
+
+  describe("argument parsing", () => {
+    it("should parse logo names", () => {
+      const parsed = parseDiffArgs(["vercel", "github_dark"])
+
+      expect(parsed.logoNames).toEqual(["vercel", "github_dark"])
+      expect(parsed.flags.nameOnly).toBe(false)
+    })
+
+    it("should parse --name-only", () => {
+      expect(parseDiffArgs(["vercel", "--name-only"]).flags.nameOnly).toBe(true)
+      expect(parseDiffArgs(["vercel", "-n"]).flags.nameOnly).toBe(true)
+    })
+  })
+
+  describe("runDiffCommand", () => {
+    const testDir = path.resolve("./test-temp")
+    const originalCwd = process.cwd()
+
+    beforeEach(() => {
+      mkdirSync(testDir, { recursive: true })
+      process.chdir(testDir)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+      process.chdir(originalCwd)
+      rmSync(testDir, { force: true, recursive: true })
+    })
+
+    it("should compare with the options the logo was installed with", async () => {
+      await processLogos(["neon"], { optimize: true })
+      const output = vi
+        .spyOn(console, "log")
+        .mockImplementation(() => undefined)
+
+      expect(await runDiffCommand(["neon"], { nameOnly: true })).toBe(0)
+      expect(output).not.toHaveBeenCalled()
+    })
+
+    it("should list every drifted logo in the lock file without names", async () => {
+      await processLogos(["neon", "vercel"], { dark: true })
+      writeFileSync("./vercel_dark.svg", "<svg>edited</svg>")
+      const output = vi
+        .spyOn(console, "log")
+        .mockImplementation(() => undefined)
+
+      expect(await runDiffCommand([], { nameOnly: true })).toBe(0)
+      expect(output.mock.calls).toEqual([["vercel_dark.svg"]])
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  exportCommand,
+  getExportFiles,
+  parseExportArgs,
+  renderExportFile,
+} from "../../src/commands/export.js"
+
+describe("export command", () => {
+  describe("metadata", () => {
+    it("should have usage and examples", () => {
+      expect(exportCommand.usage).toBe("brandcn export <logo-name> [options]")
+      expect(exportCommand.examples).toContain("$ brandcn export vercel")
+    })
+
+    it("should expose expected flags", () => {
+      expect(exportCommand.flags.favicon.char).toBe("i")
+      expect(exportCommand.flags.format.char).toBe("f")
+      expect(exportCommand.flags.out.char).toBe("o")
+      expect(exportCommand.flags.size.char).toBe("s")
+      expect(exportCommand.flags.help.char).toBe("h")
+    })
+  })
+
+  describe("argument parsing", () => {
+    it("should parse the logo name and flags", () => {
+      const parsed = parseExportArgs(["vercel", "-f", "webp", "-s", "64,512"])
+
+      expect(parsed.logoName).toBe("vercel")
+      expect(parsed.flags).toEqual({
+        favicon: false,
+        format: "webp",
+        out: undefined,
+        sizes: [64, 512],
+      })
+    })
+
+    it("should default the sizes per format", () => {
+      expect(parseExportArgs(["vercel"]).flags.sizes).toEqual([512])
+      expect(parseExportArgs(["vercel", "-f", "ico"]).flags.sizes).toEqual([
+        16, 32, 48,
+      ])
+    })
+
+    it("should reject unknown formats and oversized icons", () => {
+      expect(() => parseExportArgs(["vercel", "-f", "gif"])).toThrow(
+        'Unknown format "gif"',
+      )
+      expect(() =>
+        parseExportArgs(["vercel", "-f", "ico", "-s", "512"]),
+      ).toThrow('Invalid size "512"')
+    })
+
+    it("should not combine --favicon with a format", () => {
+      expect(() =>
+        parseExportArgs(["vercel", "--favicon", "-f", "png"]),
+      ).toThrow("Use either --favicon or --format and --size")
+    })
+  })
+
+  describe("getExportFiles", () => {
+    it("should write one image per size, or one icon with every size", () => {
+      const flags = parseExportArgs(["vercel", "-s", "16,32"]).flags
+
+      expect(getExportFiles("vercel", flags).map(({ file }) => file)).toEqual([
+        "vercel-16.png",
+        "vercel-32.png",
+      ])
+      expect(
+        getExportFiles("vercel", { ...flags, format: "ico" }),
+      ).toMatchObject([{ file: "vercel.ico", sizes: [16, 32], square: true }])
+    })
+
+    it("should write the favicon set", () => {
+      const flags = parseExportArgs(["vercel", "--favicon"]).flags
+
+      expect(getExportFiles("vercel", flags).map(({ file }) => file)).toEqual([
+        "favicon.ico",
+        "apple-touch-icon.png",
+        "icon-192.png",
+        "icon-512.png",
+      ])
+    })
+  })
+
+  describe("renderExportFile", () => {
+    const svg = '<svg viewBox="0 0 40 10"><rect width="40" height="10"/></svg>'
+
+    it("should fit the longer side to the size", async () => {
+      const png = await renderExportFile(svg, {
+        file: "wide-20.png",
+        format: "png",
+        sizes: [20],
+        square: false,
+      })
+
+      expect(png.readUInt32BE(16)).toBe(20)
+      expect(png.readUInt32BE(20)).toBe(5)
+    })
+
+    it("should center icons on a square", async () => {
+      const ico = await renderExportFile(svg, {
+        file: "wide.ico",
+        format: "ico",
+        sizes: [16, 32],
+        square: true,
+      })
+
+      expect(ico.readUInt16LE(4)).toBe(2)
+      expect([ico[6], ico[7], ico[22], ico[23]]).toEqual([16, 16, 32, 32])
+    })
+
+    it("should encode WebP images", async () => {
+      const webp = await renderExportFile(svg, {
+        file: "wide-20.webp",
+        format: "webp",
+        sizes: [20],
+        square: false,
+      })
+
+      expect(webp.subarray(8, 16).toString("ascii")).toBe("WEBPVP8L")
+    })
+  })
+})
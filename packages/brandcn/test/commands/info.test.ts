@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  infoCommand,
+  parseInfoArgs,
+  runInfoCommand,
+} from "../../src/commands/info.js"
+
+describe("info command", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("metadata", () => {
+    it("should have usage and examples", () => {
+      expect(infoCommand.usage).toBe("brandcn info <logo-name> [options]")
+      expect(infoCommand.examples).toContain("$ brandcn info vercel")
+    })
+
+    it("should expose expected flags", () => {
+      expect(infoCommand.flags.framework.char).toBe("F")
+      expect(infoCommand.flags.help.char).toBe("h")
+    })
+  })
+
+  describe("argument parsing", () => {
+    it("should parse the logo name and framework", () => {
+      const parsed = parseInfoArgs(["vercel", "--framework", "vue"])
+
+      expect(parsed.logoName).toBe("vercel")
+      expect(parsed.flags.framework).toBe("vue")
+    })
+
+    it("should reject more than one logo name", () => {
+      expect(() => parseInfoArgs(["vercel", "github"])).toThrow(
+        "Expected a single logo name",
+      )
+    })
+  })
+
+  describe("runInfoCommand", () => {
+    it("should fail for missing or unknown logos", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => undefined)
+
+      expect(await runInfoCommand(undefined, {})).toBe(1)
+      expect(await runInfoCommand("not-a-real-logo", {})).toBe(1)
+    })
+  })
+})
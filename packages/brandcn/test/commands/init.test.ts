@@ -0,0 +1,141 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import {
+  detectFramework,
+  getDefaultOutputDir,
+  initCommand,
+  parseInitArgs,
+  runInitCommand,
+} from "../../src/commands/init.js"
+
+describe("init command", () => {
+  const testDir = path.resolve("./test-temp")
+  const originalCwd = process.cwd()
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { force: true, recursive: true })
+    }
+
+    mkdirSync(testDir, { recursive: true })
+    process.chdir(testDir)
+  })
+
+  afterEach(() => {
+    process.chdir(originalCwd)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { force: true, recursive: true })
+    }
+  })
+
+  describe("metadata", () => {
+    it("should have usage and examples", () => {
+      expect(initCommand.usage).toBe("brandcn init [options]")
+      expect(initCommand.examples).toContain("$ brandcn init")
+    })
+
+    it("should expose expected flags", () => {
+      expect(initCommand.flags.force.char).toBe("f")
+      expect(initCommand.flags.framework.char).toBe("F")
+      expect(initCommand.flags["out-dir"].char).toBe("o")
+      expect(initCommand.flags.yes.char).toBe("y")
+    })
+  })
+
+  describe("argument parsing", () => {
+    it("should parse flags", () => {
+      const parsed = parseInitArgs([
+        "-y",
+        "--out-dir",
+        "src/logos",
+        "-F",
+        "vue",
+      ])
+
+      expect(parsed.flags).toMatchObject({
+        force: false,
+        framework: "vue",
+        outDir: "src/logos",
+        yes: true,
+      })
+    })
+
+    it("should reject positional arguments", () => {
+      expect(() => parseInitArgs(["vercel"])).toThrow(
+        "Unexpected positional arguments",
+      )
+    })
+  })
+
+  describe("defaults", () => {
+    it("should detect the framework from package.json", () => {
+      expect(detectFramework()).toBeUndefined()
+
+      writeFileSync(
+        "./package.json",
+        JSON.stringify({
+          dependencies: { astro: "^5.0.0", react: "^19.0.0" },
+        }),
+      )
+
+      expect(detectFramework()).toBe("astro")
+    })
+
+    it("should default to components/logos", () => {
+      expect(getDefaultOutputDir()).toBe(path.join("components", "logos"))
+    })
+
+    it("should default next to the shadcn ui alias", () => {
+      writeFileSync(
+        "./components.json",
+        JSON.stringify({ aliases: { ui: "@/components/ui" } }),
+      )
+      writeFileSync(
+        "./tsconfig.json",
+        JSON.stringify({ compilerOptions: { paths: { "@/*": ["./src/*"] } } }),
+      )
+
+      expect(getDefaultOutputDir()).toBe(
+        path.join("src", "components", "ui", "logos"),
+      )
+    })
+  })
+
+  describe("runInitCommand", () => {
+    it("should write brandcn.json", async () => {
+      const exitCode = await runInitCommand({
+        force: false,
+        framework: "solid",
+        yes: true,
+      })
+
+      expect(exitCode).toBe(0)
+      expect(JSON.parse(readFileSync("./brandcn.json", "utf8"))).toEqual({
+        componentStyle: "img",
+        fileNaming: "original",
+        framework: "solid",
+        optimize: false,
+        outDir: path.join("components", "logos"),
+        variants: { dark: false, light: false, wordmark: false },
+      })
+    })
+
+    it("should not overwrite brandcn.json without --force", async () => {
+      writeFileSync("./brandcn.json", "{}")
+
+      expect(await runInitCommand({ force: false, yes: true })).toBe(1)
+      expect(readFileSync("./brandcn.json", "utf8")).toBe("{}")
+
+      expect(await runInitCommand({ force: true, yes: true })).toBe(0)
+      expect(readFileSync("./brandcn.json", "utf8")).toContain('"outDir"')
+    })
+  })
+})
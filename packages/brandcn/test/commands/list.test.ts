@@ -1,6 +1,10 @@
-import { describe, expect, it } from "vitest"
+import { afterEach, describe, expect, it, vi } from "vitest"
 
-import { listCommand, parseListArgs } from "../../src/commands/list.js"
+import {
+  listCommand,
+  parseListArgs,
+  runListCommand,
+} from "../../src/commands/list.js"
 import { getVariantType } from "../../src/utils/fs.js"
 
 describe("list command", () => {
@@ -19,11 +23,12 @@ describe("list command", () => {
 
     it("should have usage", () => {
       expect(listCommand.usage).toBe(
-        "brandcn list [--search <term>] [--variants]",
+        "brandcn list [--search <term>] [--category <name>] [--variants] [--json]",
       )
     })
 
     it("should expose expected flags", () => {
+      expect(listCommand.flags.category.char).toBe("c")
       expect(listCommand.flags.search.char).toBe("s")
       expect(listCommand.flags.variants.char).toBe("v")
       expect(listCommand.flags.help.char).toBe("h")
@@ -39,6 +44,16 @@ describe("list command", () => {
       expect(parsed.help).toBe(false)
     })
 
+    it("should parse --category", () => {
+      const parsed = parseListArgs(["-c", "database"])
+      expect(parsed.flags.category).toBe("database")
+    })
+
+    it("should parse --json", () => {
+      expect(parseListArgs(["--json"]).flags.json).toBe(true)
+      expect(parseListArgs([]).flags.json).toBe(false)
+    })
+
     it("should parse --help", () => {
       const parsed = parseListArgs(["--help"])
       expect(parsed.help).toBe(true)
@@ -49,6 +64,43 @@ describe("list command", () => {
     })
   })
 
+  describe("--json", () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it("should print brands with typed variants and metadata", async () => {
+      const output = vi
+        .spyOn(console, "log")
+        .mockImplementation(() => undefined)
+
+      expect(await runListCommand({ json: true, search: "next.js" })).toBe(0)
+
+      const brands = JSON.parse(String(output.mock.calls[0]?.[0]))
+      expect(brands).toContainEqual({
+        aliases: ["next"],
+        categories: ["framework"],
+        id: "nextjs",
+        name: "Next.js",
+        variants: [
+          { name: "nextjs-icon_dark", type: "dark" },
+          { name: "nextjs-logo_dark", type: "dark" },
+          { name: "nextjs-logo_light", type: "light" },
+        ],
+        website: "https://nextjs.org",
+      })
+    })
+
+    it("should print an empty list when nothing matches", async () => {
+      const output = vi
+        .spyOn(console, "log")
+        .mockImplementation(() => undefined)
+
+      expect(await runListCommand({ json: true, search: "qqqqqq" })).toBe(0)
+      expect(JSON.parse(String(output.mock.calls[0]?.[0]))).toEqual([])
+    })
+  })
+
   describe("variant type detection", () => {
     it("should detect dark variant", () => {
       expect(getVariantType("react_dark", "react")).toBe("dark")
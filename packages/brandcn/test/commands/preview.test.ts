@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  getPreviewLayout,
+  parsePreviewArgs,
+  previewCommand,
+  runPreviewCommand,
+} from "../../src/commands/preview.js"
+
+describe("preview command", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("metadata", () => {
+    it("should have usage and examples", () => {
+      expect(previewCommand.usage).toBe("brandcn preview <logo-name> [options]")
+      expect(previewCommand.examples).toContain("$ brandcn preview vercel")
+    })
+
+    it("should expose expected flags", () => {
+      expect(previewCommand.flags.background.char).toBe("b")
+      expect(previewCommand.flags.variants.char).toBe("v")
+      expect(previewCommand.flags.help.char).toBe("h")
+    })
+  })
+
+  describe("argument parsing", () => {
+    it("should parse the logo name and flags", () => {
+      const parsed = parsePreviewArgs(["vercel", "-v", "--background", "#FFF"])
+
+      expect(parsed.logoName).toBe("vercel")
+      expect(parsed.flags).toEqual({ background: "#ffffff", variants: true })
+    })
+
+    it("should reject invalid backgrounds", () => {
+      expect(() => parsePreviewArgs(["vercel", "-b", "red"])).toThrow(
+        'Invalid background "red"',
+      )
+    })
+  })
+
+  describe("getPreviewLayout", () => {
+    it("should shrink wide logos to the terminal", () => {
+      expect(getPreviewLayout([1], 80)).toEqual({
+        columns: 24,
+        perLine: 3,
+        rows: 12,
+      })
+      expect(getPreviewLayout([5], 40)).toEqual({
+        columns: 40,
+        perLine: 1,
+        rows: 4,
+      })
+    })
+
+    it("should fit variants side by side", () => {
+      expect(getPreviewLayout([1, 5], 80)).toEqual({
+        columns: 32,
+        perLine: 2,
+        rows: 8,
+      })
+    })
+  })
+
+  describe("runPreviewCommand", () => {
+    it("should draw every variant with its name", async () => {
+      const logSpy = vi
+        .spyOn(console, "log")
+        .mockImplementation(() => undefined)
+
+      expect(await runPreviewCommand("vercel", { variants: true })).toBe(0)
+
+      const output = logSpy.mock.calls.map(([line]) => String(line)).join("\n")
+      expect(output).toContain("▀")
+      expect(output).toContain("vercel_wordmark_dark")
+    })
+
+    it("should fail for unknown logos", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => undefined)
+
+      expect(
+        await runPreviewCommand("not-a-real-logo", { variants: false }),
+      ).toBe(1)
+    })
+  })
+})
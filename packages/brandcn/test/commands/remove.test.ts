@@ -0,0 +1,93 @@
+import { existsSync, mkdirSync, rmSync } from "node:fs"
+import path from "node:path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  parseRemoveArgs,
+  removeCommand,
+  runRemoveCommand,
+} from "../../src/commands/remove.js"
+import { processLogos } from "../../src/utils/fs.js"
+
+describe("remove command", () => {
+  describe("metadata", () => {
+    it("should have correct description", () => {
+      expect(removeCommand.description).toBe(
+        "Remove brand logos from your project",
+      )
+    })
+
+    it("should have examples", () => {
+      expect(removeCommand.examples.length).toBeGreaterThan(0)
+      expect(removeCommand.examples).toContain("$ brandcn remove vercel")
+    })
+
+    it("should have usage", () => {
+      expect(removeCommand.usage).toBe(
+        "brandcn remove <logo-name> [logo-names...] [options]",
+      )
+    })
+
+    it("should expose expected flags", () => {
+      expect(removeCommand.flags.dark.char).toBe("d")
+      expect(removeCommand.flags.light.char).toBe("l")
+      expect(removeCommand.flags.wordmark.char).toBe("w")
+      expect(removeCommand.flags.force.char).toBe("f")
+      expect(removeCommand.flags.framework.char).toBe("F")
+      expect(removeCommand.flags.help.char).toBe("h")
+    })
+  })
+
+  describe("argument parsing", () => {
+    it("should parse logo names and flags", () => {
+      const parsed = parseRemoveArgs(["vercel", "github", "--dark", "-f"])
+
+      expect(parsed.logoNames).toEqual(["vercel", "github"])
+      expect(parsed.flags.dark).toBe(true)
+      expect(parsed.flags.force).toBe(true)
+      expect(parsed.flags.light).toBe(false)
+      expect(parsed.help).toBe(false)
+    })
+
+    it("should parse --framework", () => {
+      const parsed = parseRemoveArgs(["vercel", "-F", "svelte"])
+      expect(parsed.flags.framework).toBe("svelte")
+    })
+
+    it("should parse --help", () => {
+      const parsed = parseRemoveArgs(["--help"])
+      expect(parsed.help).toBe(true)
+      expect(parsed.logoNames).toEqual([])
+    })
+
+    it("should throw for unknown options", () => {
+      expect(() => parseRemoveArgs(["--unknown"])).toThrow()
+    })
+  })
+
+  describe("summary", () => {
+    const testDir = path.resolve("./test-temp")
+    const originalCwd = process.cwd()
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+      process.chdir(originalCwd)
+      rmSync(testDir, { force: true, recursive: true })
+    })
+
+    it("should not count themed components as logos", async () => {
+      mkdirSync(testDir, { recursive: true })
+      process.chdir(testDir)
+      await processLogos(["github"], { dark: true, light: true })
+      const output = vi
+        .spyOn(process.stdout, "write")
+        .mockImplementation(() => true)
+
+      expect(await runRemoveCommand(["github"], {})).toBe(0)
+      expect(existsSync("./github.tsx")).toBe(false)
+      expect(output.mock.calls.join("")).toContain(
+        "Successfully removed 4 logos.",
+      )
+    })
+  })
+})
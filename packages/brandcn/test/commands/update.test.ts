@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+
+import { parseUpdateArgs, updateCommand } from "../../src/commands/update.js"
+
+describe("update command", () => {
+  describe("metadata", () => {
+    it("should have usage and examples", () => {
+      expect(updateCommand.usage).toBe(
+        "brandcn update [logo-names...] [options]",
+      )
+      expect(updateCommand.examples).toContain("$ brandcn update")
+    })
+
+    it("should expose expected flags", () => {
+      expect(updateCommand.flags.force.char).toBe("f")
+      expect(updateCommand.flags.help.char).toBe("h")
+    })
+  })
+
+  describe("argument parsing", () => {
+    it("should allow updating every logo", () => {
+      const parsed = parseUpdateArgs([])
+
+      expect(parsed.logoNames).toEqual([])
+      expect(parsed.flags.force).toBe(false)
+    })
+
+    it("should parse logo names and --force", () => {
+      const parsed = parseUpdateArgs(["vercel", "github", "-f"])
+
+      expect(parsed.logoNames).toEqual(["vercel", "github"])
+      expect(parsed.flags.force).toBe(true)
+    })
+
+    it("should throw for unknown flags", () => {
+      expect(() => parseUpdateArgs(["--dark"])).toThrow()
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+
+import { createBarrelSource, getCustomRegion } from "../../src/utils/barrel.js"
+
+describe("barrel utilities", () => {
+  describe("createBarrelSource", () => {
+    it("should re-export components with a LogoName union and logos record", () => {
+      const source = createBarrelSource([
+        {
+          from: "./vercel",
+          isDefault: false,
+          logoName: "vercel",
+          name: "VercelLogo",
+        },
+        {
+          from: "./apple-music_icon",
+          isDefault: false,
+          logoName: "apple-music_icon",
+          name: "AppleMusicIconLogo",
+        },
+      ])
+
+      expect(source).toContain(
+        'import { AppleMusicIconLogo } from "./apple-music_icon"',
+      )
+      expect(source).toContain('import { VercelLogo } from "./vercel"')
+      expect(source).toContain(
+        'export type LogoName =\n  | "apple-music_icon"\n  | "vercel"',
+      )
+      expect(source).toContain('  "apple-music_icon": AppleMusicIconLogo,')
+      expect(source).toContain("  vercel: VercelLogo,")
+    })
+
+    it("should use default imports for single file components", () => {
+      const source = createBarrelSource([
+        {
+          from: "./vercel.vue",
+          isDefault: true,
+          logoName: "vercel",
+          name: "VercelLogo",
+        },
+      ])
+
+      expect(source).toContain('import VercelLogo from "./vercel.vue"')
+    })
+
+    it("should alias components whose names collide", () => {
+      const source = createBarrelSource([
+        {
+          from: "./soundcloud",
+          isDefault: false,
+          logoName: "soundcloud",
+          name: "SoundcloudLogo",
+        },
+        {
+          from: "./soundcloud-logo",
+          isDefault: false,
+          logoName: "soundcloud-logo",
+          name: "SoundcloudLogo",
+        },
+      ])
+
+      expect(source).toContain(
+        'import { SoundcloudLogo as SoundcloudLogo2 } from "./soundcloud-logo"',
+      )
+      expect(source).toContain('  "soundcloud-logo": SoundcloudLogo2,')
+    })
+
+    it("should export an empty record when no components are installed", () => {
+      const source = createBarrelSource([], "export const extra = 1")
+
+      expect(source).toContain("export type LogoName = never")
+      expect(source).toContain("export const logos = {} as const")
+      expect(getCustomRegion(source)).toBe("export const extra = 1")
+    })
+  })
+
+  describe("getCustomRegion", () => {
+    it("should return the custom region of a generated barrel", () => {
+      const source = createBarrelSource(
+        [],
+        "export * from './custom'\nexport const a = 1",
+      )
+
+      expect(getCustomRegion(source)).toBe(
+        "export * from './custom'\nexport const a = 1",
+      )
+    })
+
+    it("should return null for files not generated by brandcn", () => {
+      expect(getCustomRegion('export * from "./vercel"\n')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,316 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  createLogoComponentSource,
+  createSpriteComponentSource,
+  createThemedComponentSource,
+  getComponentExtension,
+  getComponentName,
+} from "../../src/utils/components.js"
+
+describe("component utilities", () => {
+  describe("getComponentName", () => {
+    it("should convert logo names to PascalCase component names", () => {
+      expect(getComponentName("vercel")).toBe("VercelLogo")
+      expect(getComponentName("apple-music_icon")).toBe("AppleMusicIconLogo")
+      expect(getComponentName("mistral-ai_logo")).toBe("MistralAiLogo")
+      expect(getComponentName("1password_dark")).toBe("Logo1passwordDarkLogo")
+    })
+  })
+
+  describe("createLogoComponentSource", () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:sketch="http://www.bohemiancoding.com/sketch/ns" viewBox="0 0 24 24"><path class="a" fill-rule="evenodd" sketch:type="MSShapeGroup" d="M0 0h24"/><use xlink:href="#a" style="fill: #fff; mix-blend-mode: multiply"/></svg>'
+
+    it("should default to an img component", () => {
+      const source = createLogoComponentSource("vercel", svg)
+
+      expect(source).toContain(
+        'const src = new URL("./vercel.svg", import.meta.url).toString()',
+      )
+      expect(source).toContain('<img src={src} alt="Vercel" {...props} />')
+    })
+
+    it("should inline the svg markup as JSX", () => {
+      const source = createLogoComponentSource("vercel", svg, {
+        componentStyle: "inline",
+      })
+
+      expect(source).toContain(
+        "export const VercelLogo = forwardRef<SVGSVGElement, VercelLogoProps>(",
+      )
+      expect(source).toContain(
+        "export type VercelLogoProps = SVGProps<SVGSVGElement>",
+      )
+      expect(source).toContain('xmlnsXlink="http://www.w3.org/1999/xlink"')
+      expect(source).toContain(
+        '<path className="a" fillRule="evenodd" d="M0 0h24" />',
+      )
+      expect(source).toContain(
+        '<use xlinkHref="#a" fill="#fff" style={{ mixBlendMode: "multiply" }} />',
+      )
+      expect(source).toContain(
+        'role="img" aria-label="Vercel" ref={ref} {...props}>',
+      )
+      expect(source).not.toContain("sketch")
+    })
+
+    it("should export the intrinsic size of the logo", () => {
+      expect(createLogoComponentSource("vercel", svg)).toContain(
+        "export const VercelLogoSize = { aspectRatio: 1, height: 24, width: 24 } as const",
+      )
+      expect(
+        createLogoComponentSource(
+          "vercel",
+          '<svg viewBox="0 0 90 30" width="180px" height="60"><path d="M0 0"/></svg>',
+          { componentStyle: "inline" },
+        ),
+      ).toContain(
+        "export const VercelLogoSize = { aspectRatio: 3, height: 60, width: 180 } as const",
+      )
+      expect(
+        createLogoComponentSource("vercel", '<svg><path d="M0 0"/></svg>'),
+      ).not.toContain("VercelLogoSize")
+    })
+
+    it("should keep inline styles when the svg has a style sheet", () => {
+      const source = createLogoComponentSource(
+        "vercel",
+        '<svg><style>.a{fill:red}</style><path style="fill:#000;fill-opacity:0.5;fill:#111" d="M0 0"/></svg>',
+        { componentStyle: "inline" },
+      )
+
+      expect(source).toContain('{".a{fill:red}"}')
+      expect(source).toContain('style={{ fill: "#111", fillOpacity: "0.5" }}')
+    })
+
+    it("should drop non-svg elements and editor metadata", () => {
+      const source = createLogoComponentSource(
+        "vercel",
+        '<svg><metadata><rdf:RDF/></metadata><script>alert(1)</script><sodipodi:namedview/><path d="M0 0"/></svg>',
+        { componentStyle: "inline" },
+      )
+
+      expect(source).not.toContain("metadata")
+      expect(source).not.toContain("script")
+      expect(source).not.toContain("namedview")
+      expect(source).toContain('<path d="M0 0" />')
+    })
+
+    it("should escape attribute values that are not safe JSX strings", () => {
+      const source = createLogoComponentSource(
+        "vercel",
+        '<svg aria-label=\'Say "hi"\'><path d="M0 0"/></svg>',
+        { componentStyle: "inline" },
+      )
+
+      expect(source).toContain('aria-label={"Say \\"hi\\""}')
+    })
+  })
+
+  describe("getComponentExtension", () => {
+    it("should return the component file extension per framework", () => {
+      expect(getComponentExtension()).toBe("tsx")
+      expect(getComponentExtension("solid")).toBe("tsx")
+      expect(getComponentExtension("vue")).toBe("vue")
+      expect(getComponentExtension("svelte")).toBe("svelte")
+      expect(getComponentExtension("astro")).toBe("astro")
+      expect(getComponentExtension("angular")).toBe("component.ts")
+    })
+  })
+
+  describe("framework generators", () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 24 24"><!-- Generator: Sketch --><path class="a" d="M0 0h24"/></svg>'
+
+    it("should generate Vue single file components", () => {
+      expect(
+        createLogoComponentSource("vercel", svg, { framework: "vue" }),
+      ).toContain('<img :src="src" alt="Vercel" />')
+
+      const source = createLogoComponentSource("vercel", svg, {
+        componentStyle: "inline",
+        framework: "vue",
+      })
+      expect(source).toContain(
+        'const content = "<path class=\\"a\\" d=\\"M0 0h24\\"/>"',
+      )
+      expect(source).toContain(
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" role="img" aria-label="Vercel" v-html="content" />',
+      )
+      expect(source).not.toContain("Generator")
+      expect(source).toContain(
+        '<script lang="ts">\nexport const VercelLogoSize = { aspectRatio: 1, height: 24, width: 24 } as const\n</script>',
+      )
+    })
+
+    it("should generate Svelte components", () => {
+      expect(
+        createLogoComponentSource("vercel", svg, { framework: "svelte" }),
+      ).toContain('<img {src} alt="Vercel" {...props} />')
+
+      const source = createLogoComponentSource("vercel", svg, {
+        componentStyle: "inline",
+        framework: "svelte",
+      })
+      expect(source).toContain(
+        "let props: SVGAttributes<SVGSVGElement> = $props()",
+      )
+      expect(source).toContain(
+        'aria-label="Vercel" {...props}>{@html content}</svg>',
+      )
+      expect(source).toContain(
+        '<script module lang="ts">\n  export const VercelLogoSize =',
+      )
+    })
+
+    it("should generate Solid components", () => {
+      const source = createLogoComponentSource("vercel", svg, {
+        componentStyle: "inline",
+        framework: "solid",
+      })
+
+      expect(source).toContain('import type { JSX } from "solid-js"')
+      expect(source).toContain(
+        'aria-label="Vercel" innerHTML={content} {...props} />',
+      )
+    })
+
+    it("should generate Astro components", () => {
+      expect(
+        createLogoComponentSource("vercel", svg, { framework: "astro" }),
+      ).toContain('import logo from "./vercel.svg"')
+
+      const source = createLogoComponentSource("vercel", svg, {
+        componentStyle: "inline",
+        framework: "astro",
+      })
+      expect(source).toContain('type Props = HTMLAttributes<"svg">')
+      expect(source).toContain("{...Astro.props} set:html={content} />")
+    })
+
+    it("should generate Angular standalone components", () => {
+      const source = createLogoComponentSource("apple-music_icon", svg, {
+        componentStyle: "inline",
+        framework: "angular",
+      })
+
+      expect(source).toContain('selector: "apple-music-icon-logo"')
+      expect(source).toContain("export class AppleMusicIconLogoComponent {")
+      expect(source).toContain('[innerHTML]="content"></svg>`')
+      expect(source).toContain("bypassSecurityTrustHtml(")
+      expect(source).toContain("export const AppleMusicIconLogoSize = {")
+    })
+
+    it("should give currentColor Angular components a color input", () => {
+      const source = createLogoComponentSource("vercel", svg, {
+        componentStyle: "inline",
+        currentColor: true,
+        framework: "angular",
+      })
+
+      expect(source).toContain("@Input() color?: string")
+      expect(source).toContain('[attr.color]="color" [innerHTML]="content"')
+    })
+
+    it("should escape template syntax in attribute values", () => {
+      const source = createLogoComponentSource(
+        "vercel",
+        '<svg aria-label="{{ x }} & \'y\'"><path d="M0 0"/></svg>',
+        { componentStyle: "inline", framework: "vue" },
+      )
+
+      expect(source).toContain(
+        "aria-label=\"&#123;&#123; x &#125;&#125; &amp; 'y'\"",
+      )
+    })
+
+    it("should escape the alt text of img components", () => {
+      // Names missing from the registry are shown as they are
+      const logoName = 'say"{hi}<'
+      const templateAlt = 'alt="say&quot;&#123;hi&#125;&lt;"'
+
+      expect(createLogoComponentSource(logoName, svg)).toContain(
+        'alt={"say\\"{hi}<"}',
+      )
+      expect(
+        createLogoComponentSource(logoName, svg, { framework: "solid" }),
+      ).toContain('alt={"say\\"{hi}<"}')
+
+      for (const framework of ["angular", "astro", "svelte", "vue"] as const) {
+        expect(
+          createLogoComponentSource(logoName, svg, { framework }),
+        ).toContain(templateAlt)
+      }
+    })
+  })
+
+  describe("createThemedComponentSource", () => {
+    const pair = { baseName: "aws", dark: "aws_dark", light: "aws_light" }
+
+    it("should switch between the dark and light components", () => {
+      const source = createThemedComponentSource(pair)
+
+      expect(source).toContain(
+        'export function AwsLogo({ theme = "auto", ...props }: AwsLogoProps) {',
+      )
+      expect(source).toContain(
+        '<AwsDarkLogo data-logo-variant="dark" {...props} />',
+      )
+      expect(source).toContain("prefers-color-scheme: dark")
+      expect(source).toContain(":not(.dark *)")
+    })
+
+    it("should import variant components with the framework's extension", () => {
+      expect(createThemedComponentSource(pair, { framework: "vue" })).toContain(
+        'import AwsDarkLogo from "./aws_dark.vue"',
+      )
+      expect(
+        createThemedComponentSource(pair, { framework: "angular" }),
+      ).toContain("imports: [AwsDarkLogoComponent, AwsLightLogoComponent],")
+    })
+  })
+
+  describe("createSpriteComponentSource", () => {
+    const symbols = [
+      {
+        label: "Apple Music",
+        logoName: "apple-music_icon",
+        viewBox: "0 0 24 24",
+      },
+      { label: "Vercel", logoName: "vercel", viewBox: "0 0 256 222" },
+    ]
+
+    it("should type the name prop as the installed logos", () => {
+      const source = createSpriteComponentSource(symbols, "logos.sprite.svg")
+
+      expect(source).toContain(
+        '  "apple-music_icon": { label: "Apple Music", viewBox: "0 0 24 24" },',
+      )
+      expect(source).toContain(
+        '  vercel: { label: "Vercel", viewBox: "0 0 256 222" },',
+      )
+      expect(source).toContain(
+        "export type SpriteLogoName = keyof typeof symbols",
+      )
+      expect(source).toContain("  name: SpriteLogoName")
+      expect(source).toContain("<use href={`${sprite}#${name}`} />")
+    })
+
+    it("should draw the symbol in every framework", () => {
+      const render = (framework: "angular" | "astro" | "svelte" | "vue") =>
+        createSpriteComponentSource(symbols, "logos.sprite.svg", { framework })
+
+      expect(render("vue")).toContain(
+        "const props = defineProps<{ name: SpriteLogoName }>()",
+      )
+      expect(render("svelte")).toContain('<use href="{sprite}#{name}" />')
+      expect(render("astro")).toContain(
+        'import sprite from "./logos.sprite.svg"',
+      )
+      expect(render("angular")).toContain(
+        "@Input({ required: true }) name!: SpriteLogoName",
+      )
+    })
+  })
+})
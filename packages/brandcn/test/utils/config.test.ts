@@ -0,0 +1,150 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import {
+  applyConfigDefaults,
+  applyVariantDefaults,
+  getConfigOutputDir,
+  loadConfig,
+  writeConfig,
+} from "../../src/utils/config.js"
+import { configSchema } from "../../src/types/config.js"
+
+describe("config utilities", () => {
+  const testDir = path.resolve("./test-temp")
+  const originalCwd = process.cwd()
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { force: true, recursive: true })
+    }
+
+    mkdirSync(testDir, { recursive: true })
+    process.chdir(testDir)
+  })
+
+  afterEach(() => {
+    process.chdir(originalCwd)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { force: true, recursive: true })
+    }
+  })
+
+  describe("loadConfig", () => {
+    it("should return null when there is no brandcn.json", () => {
+      expect(loadConfig()).toBeNull()
+      expect(getConfigOutputDir(null)).toBeNull()
+    })
+
+    it("should fill in defaults", () => {
+      writeFileSync("./brandcn.json", JSON.stringify({ outDir: "logos" }))
+
+      expect(loadConfig()?.config).toEqual({
+        componentStyle: "img",
+        fileNaming: "original",
+        framework: "react",
+        optimize: false,
+        outDir: "logos",
+        variants: { dark: false, light: false, wordmark: false },
+      })
+    })
+
+    it("should find brandcn.json in a parent directory", () => {
+      writeFileSync("./brandcn.json", JSON.stringify({ outDir: "src/logos" }))
+      mkdirSync("./packages/web", { recursive: true })
+      process.chdir("./packages/web")
+
+      expect(getConfigOutputDir(loadConfig())).toBe(
+        path.join(testDir, "src/logos"),
+      )
+    })
+
+    it("should throw for invalid JSON", () => {
+      writeFileSync("./brandcn.json", "{ outDir: ")
+
+      expect(() => loadConfig()).toThrow("Invalid brandcn.json")
+    })
+
+    it("should report schema errors by key", () => {
+      writeFileSync(
+        "./brandcn.json",
+        JSON.stringify({ framework: "ember", outDir: "logos" }),
+      )
+
+      expect(() => loadConfig()).toThrow(/framework: /)
+    })
+
+    it("should reject unknown keys", () => {
+      writeFileSync(
+        "./brandcn.json",
+        JSON.stringify({ outDir: "logos", output: "logos" }),
+      )
+
+      expect(() => loadConfig()).toThrow("Invalid brandcn.json")
+    })
+  })
+
+  describe("writeConfig", () => {
+    it("should write a config that loads back", async () => {
+      const config = configSchema.parse({
+        fileNaming: "kebab-case",
+        framework: "vue",
+        outDir: "components/logos",
+      })
+
+      const filePath = await writeConfig(config)
+
+      expect(filePath).toBe(path.join(testDir, "brandcn.json"))
+      expect(readFileSync(filePath, "utf8").endsWith("}\n")).toBe(true)
+      expect(loadConfig()?.config).toEqual(config)
+    })
+  })
+
+  describe("applyConfigDefaults", () => {
+    const config = configSchema.parse({
+      componentStyle: "inline",
+      fileNaming: "PascalCase",
+      framework: "svelte",
+      outDir: "logos",
+      variants: { dark: true },
+    })
+
+    it("should use config values for unset options", () => {
+      expect(applyConfigDefaults({}, config)).toEqual({
+        componentStyle: "inline",
+        fileNaming: "PascalCase",
+        framework: "svelte",
+        optimize: false,
+      })
+    })
+
+    it("should let flags win over the config", () => {
+      expect(applyConfigDefaults({ framework: "vue" }, config).framework).toBe(
+        "vue",
+      )
+    })
+
+    it("should return the flags unchanged without a config", () => {
+      const flags = { force: true }
+      expect(applyConfigDefaults(flags, null)).toBe(flags)
+    })
+
+    it("should apply default variants only without variant flags", () => {
+      expect(applyVariantDefaults({}, config)).toMatchObject({
+        dark: true,
+        light: false,
+        wordmark: false,
+      })
+      expect(applyVariantDefaults({ light: true }, config)).toEqual({
+        light: true,
+      })
+    })
+  })
+})
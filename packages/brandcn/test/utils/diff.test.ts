@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  createShortDiff,
+  createUnifiedDiff,
+  diffLines,
+} from "../../src/utils/diff.js"
+
+describe("diff utilities", () => {
+  describe("diffLines", () => {
+    it("should return only context lines for identical texts", () => {
+      const lines = diffLines("a\nb\nc\n", "a\nb\nc\n")
+
+      expect(lines).toEqual([
+        { type: "context", value: "a" },
+        { type: "context", value: "b" },
+        { type: "context", value: "c" },
+      ])
+    })
+
+    it("should detect added and removed lines", () => {
+      const lines = diffLines("a\nb\nc", "a\nx\nc\nd")
+
+      expect(lines).toEqual([
+        { type: "context", value: "a" },
+        { type: "removed", value: "b" },
+        { type: "added", value: "x" },
+        { type: "context", value: "c" },
+        { type: "added", value: "d" },
+      ])
+    })
+
+    it("should handle empty texts", () => {
+      expect(diffLines("", "")).toEqual([])
+      expect(diffLines("", "a")).toEqual([{ type: "added", value: "a" }])
+      expect(diffLines("a", "")).toEqual([{ type: "removed", value: "a" }])
+    })
+  })
+
+  describe("createShortDiff", () => {
+    it("should only include changed lines", () => {
+      const lines = createShortDiff("a\nb\nc", "a\nx\nc")
+
+      expect(lines).toHaveLength(2)
+      expect(lines[0]).toContain("- b")
+      expect(lines[1]).toContain("+ x")
+    })
+
+    it("should limit the number of rendered lines", () => {
+      const oldText = Array.from({ length: 20 }, (_, i) => `old ${i}`).join(
+        "\n",
+      )
+      const newText = Array.from({ length: 20 }, (_, i) => `new ${i}`).join(
+        "\n",
+      )
+
+      const lines = createShortDiff(oldText, newText, 5)
+
+      expect(lines).toHaveLength(6)
+      expect(lines[5]).toContain("35 more changed lines")
+    })
+  })
+
+  describe("createUnifiedDiff", () => {
+    const lines = (count: number): string[] =>
+      Array.from({ length: count }, (_, i) => `line ${i + 1}`)
+
+    it("should return nothing for identical texts", () => {
+      expect(createUnifiedDiff("a\nb", "a\nb\n", "old", "new")).toEqual([])
+    })
+
+    it("should render headers, hunk ranges and context", () => {
+      const oldText = lines(10).join("\n")
+      const newText = lines(10)
+        .map((line) => ("line 5" === line ? "line five" : line))
+        .join("\n")
+
+      expect(createUnifiedDiff(oldText, newText, "a.svg", "b.svg")).toEqual([
+        "--- a.svg",
+        "+++ b.svg",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+      ])
+    })
+
+    it("should split distant changes into separate hunks", () => {
+      const oldText = lines(20).join("\n")
+      const newText = lines(20)
+        .filter((line) => "line 2" !== line && "line 18" !== line)
+        .join("\n")
+
+      const hunks = createUnifiedDiff(oldText, newText, "a", "b").filter(
+        (line) => line.startsWith("@@"),
+      )
+
+      expect(hunks).toEqual(["@@ -1,5 +1,4 @@", "@@ -15,6 +14,5 @@"])
+    })
+
+    it("should point empty ranges at the preceding line", () => {
+      expect(createUnifiedDiff("", "a\nb", "a", "b")).toEqual([
+        "--- a",
+        "+++ b",
+        "@@ -0,0 +1,2 @@",
+        "+a",
+        "+b",
+      ])
+    })
+  })
+})
@@ -1,4 +1,11 @@
-import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs"
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
 import path from "node:path"
 import { afterEach, beforeEach, describe, expect, it } from "vitest"
 
@@ -7,14 +14,20 @@ import {
   ensureTargetDirectory,
   filterByVariants,
   findLogoVariants,
+  findThemedLogoPairs,
   getAvailableLogos,
   getLibraryPath,
+  getModifiedLogoFiles,
   getTargetLogosPath,
   logoComponentExistsInTarget,
   logoExistsInLibrary,
   logoExistsInTarget,
   processLogos,
+  removeLogos,
+  updateLogos,
 } from "../../src/utils/fs.js"
+import { hashContent } from "../../src/utils/lock.js"
+import { validateLogoNames } from "../../src/utils/validate.js"
 
 describe("fs utilities", () => {
   const testDir = path.resolve("./test-temp")
@@ -71,6 +84,18 @@ describe("fs utilities", () => {
         path.resolve(process.cwd(), "src/components/ui/logos"),
       )
     })
+
+    it("should prefer the outDir from brandcn.json", () => {
+      writeFileSync(
+        "./components.json",
+        JSON.stringify({ aliases: { ui: "@/components/ui" } }),
+      )
+      writeFileSync("./brandcn.json", JSON.stringify({ outDir: "app/logos" }))
+
+      expect(getTargetLogosPath()).toBe(
+        path.resolve(process.cwd(), "app/logos"),
+      )
+    })
   })
 
   describe("logoExistsInLibrary", () => {
@@ -100,35 +125,35 @@ describe("fs utilities", () => {
 
   describe("logoExistsInTarget", () => {
     it("should return false when logo does not exist in target", async () => {
-      const exists = await logoExistsInTarget("vercel")
+      const exists = await logoExistsInTarget(process.cwd(), "vercel")
       expect(exists).toBe(false)
     })
 
     it("should return true when logo exists in target (cwd)", async () => {
       writeFileSync("./vercel.svg", "<svg></svg>")
 
-      const exists = await logoExistsInTarget("vercel")
+      const exists = await logoExistsInTarget(process.cwd(), "vercel")
       expect(exists).toBe(true)
     })
   })
 
   describe("logoComponentExistsInTarget", () => {
     it("should return false when component does not exist in target", async () => {
-      const exists = await logoComponentExistsInTarget("vercel")
+      const exists = await logoComponentExistsInTarget(process.cwd(), "vercel")
       expect(exists).toBe(false)
     })
 
     it("should return true when component exists in target (cwd)", async () => {
       writeFileSync("./vercel.tsx", "export default function VercelLogo() {}")
 
-      const exists = await logoComponentExistsInTarget("vercel")
+      const exists = await logoComponentExistsInTarget(process.cwd(), "vercel")
       expect(exists).toBe(true)
     })
   })
 
   describe("ensureTargetDirectory", () => {
     it("should not fail when target directory already exists (cwd)", async () => {
-      await ensureTargetDirectory()
+      await ensureTargetDirectory(process.cwd())
 
       expect(existsSync(process.cwd())).toBe(true)
     })
@@ -160,15 +185,15 @@ describe("fs utilities", () => {
 
   describe("copyLogoToTarget", () => {
     it("should copy an existing logo to target directory (cwd)", async () => {
-      await copyLogoToTarget("vercel")
+      await copyLogoToTarget(process.cwd(), "vercel")
 
       expect(existsSync("./vercel.svg")).toBe(true)
     })
 
     it("should throw error for non-existing logo", async () => {
-      await expect(copyLogoToTarget("nonexistent-logo")).rejects.toThrow(
-        "not found in library",
-      )
+      await expect(
+        copyLogoToTarget(process.cwd(), "nonexistent-logo"),
+      ).rejects.toThrow("not found in library")
     })
   })
 
@@ -262,7 +287,55 @@ describe("fs utilities", () => {
     })
   })
 
+  describe("findThemedLogoPairs", () => {
+    it("should pair dark and light variants by base name", () => {
+      expect(
+        findThemedLogoPairs([
+          "axiom_dark",
+          "axiom_light",
+          "axiom_wordmark_dark",
+          "axiom_wordmark_light",
+          "dub_dark_wordmark",
+          "dub_light_wordmark",
+        ]),
+      ).toEqual([
+        { baseName: "axiom", dark: "axiom_dark", light: "axiom_light" },
+        {
+          baseName: "axiom_wordmark",
+          dark: "axiom_wordmark_dark",
+          light: "axiom_wordmark_light",
+        },
+        {
+          baseName: "dub_wordmark",
+          dark: "dub_dark_wordmark",
+          light: "dub_light_wordmark",
+        },
+      ])
+    })
+
+    it("should ignore variants without a counterpart", () => {
+      expect(
+        findThemedLogoPairs(["apple", "apple_dark", "ant-design_dark_theme"]),
+      ).toEqual([])
+    })
+  })
+
   describe("processLogos", () => {
+    it("should install into the directory it is given", async () => {
+      // The command validated brandcn.json already; it is not read again
+      writeFileSync("./brandcn.json", "{ outDir: ")
+
+      const results = await processLogos(["neon"], {}, path.resolve("logos"))
+
+      expect(results.every((result) => result.success)).toBe(true)
+      expect(readdirSync("./logos").sort()).toEqual([
+        "brandcn-lock.json",
+        "index.ts",
+        "neon.svg",
+        "neon.tsx",
+      ])
+    })
+
     it("should process multiple valid logos", async () => {
       const results = await processLogos(["vercel", "neon"])
 
@@ -277,6 +350,260 @@ describe("fs utilities", () => {
       expect(existsSync("./vercel.tsx")).toBe(true)
     })
 
+    it("should make every library file reachable through add", async () => {
+      const files = readdirSync(getLibraryPath()).filter((file) =>
+        file.endsWith(".svg"),
+      )
+      const validation = validateLogoNames(
+        files.map((file) => path.parse(file).name),
+      )
+
+      expect(validation.errors).toEqual([])
+
+      const results = await processLogos(validation.validNames)
+      const failed = results.filter((result) => !result.success)
+      const installed = readdirSync(".")
+
+      expect(failed).toEqual([])
+      for (const logoName of validation.validNames) {
+        expect(installed).toContain(`${logoName}.svg`)
+      }
+    })
+
+    it("should resolve names ignoring case", async () => {
+      await processLogos(["D3", "apollo-io", "beacon"])
+
+      expect(existsSync("./d3.svg")).toBe(true)
+      expect(existsSync("./apollo-io.svg")).toBe(true)
+      expect(existsSync("./beacon-logo.svg")).toBe(true)
+      expect(readFileSync("./apollo-io.svg", "utf8")).toBe(
+        readFileSync(path.join(getLibraryPath(), "apollo.io.svg"), "utf8"),
+      )
+    })
+
+    it("should suggest close matches for unknown logos", async () => {
+      const [result] = await processLogos(["vercl"])
+
+      expect(result?.success).toBe(false)
+      expect(result?.error).toBe('Logo "vercl" not found in library')
+      expect(result?.suggestions?.[0]).toBe("vercel")
+    })
+
+    it("should install every variant of a registry brand", async () => {
+      const results = await processLogos(["nextjs"])
+
+      expect(results.map((result) => result.logoName).sort()).toEqual([
+        "nextjs-icon_dark",
+        "nextjs-logo",
+        "nextjs-logo_dark",
+        "nextjs-logo_light",
+      ])
+      expect(existsSync("./nextjs-logo_dark.svg")).toBe(true)
+    })
+
+    it("should generate inline components", async () => {
+      await processLogos(["vercel"], { componentStyle: "inline" })
+
+      const component = readFileSync("./vercel.tsx", "utf8")
+      expect(component).toContain("forwardRef<SVGSVGElement")
+      expect(component).not.toContain("import.meta.url")
+    })
+
+    it("should generate components for the requested framework", async () => {
+      const results = await processLogos(["vercel"], { framework: "angular" })
+
+      expect(existsSync("./vercel.component.ts")).toBe(true)
+      expect(existsSync("./vercel.tsx")).toBe(false)
+      expect(results[0]?.createdFiles).toEqual([
+        "vercel.svg",
+        "vercel.component.ts",
+      ])
+    })
+
+    it("should record installed variants in brandcn-lock.json", async () => {
+      await processLogos(["vercel"], { dark: true, framework: "vue" })
+
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+      const entry = lock.logos.vercel_dark
+
+      expect(Object.keys(lock.logos)).toEqual([
+        "vercel_dark",
+        "vercel_wordmark_dark",
+      ])
+      expect(entry.source).toBe("vercel_dark.svg")
+      expect(entry.options).toEqual({
+        componentStyle: "img",
+        currentColor: false,
+        fileNaming: "original",
+        format: "component",
+        framework: "vue",
+        optimize: false,
+      })
+      expect(entry.svg).toEqual({
+        file: "vercel_dark.svg",
+        hash: hashContent(readFileSync("./vercel_dark.svg")),
+      })
+      expect(entry.component).toEqual({
+        file: "vercel_dark.vue",
+        hash: hashContent(readFileSync("./vercel_dark.vue")),
+      })
+    })
+
+    it("should keep the locked hash of files the user kept", async () => {
+      await processLogos(["vercel"], { dark: true })
+      const before = readFileSync("./brandcn-lock.json", "utf8")
+      writeFileSync("./vercel_dark.svg", "<svg>custom</svg>")
+
+      await processLogos(["vercel"], { dark: true })
+
+      expect(readFileSync("./brandcn-lock.json", "utf8")).toBe(before)
+    })
+
+    it("should refuse to install a locked logo under other file names", async () => {
+      await processLogos(["neon"])
+      const before = readFileSync("./brandcn-lock.json", "utf8")
+
+      const results = await processLogos(["neon"], { framework: "vue" })
+
+      expect(results[0]).toEqual({
+        error:
+          "neon is installed as neon.tsx with other options (remove it first to switch)",
+        logoName: "neon",
+        success: false,
+      })
+      expect(existsSync("./neon.vue")).toBe(false)
+      expect(readFileSync("./brandcn-lock.json", "utf8")).toBe(before)
+
+      const removed = await removeLogos(["neon"])
+      expect(removed[0]?.removedFiles).toEqual(["neon.svg", "neon.tsx"])
+    })
+
+    it("should name files after the requested file naming", async () => {
+      const results = await processLogos(["aws"], { fileNaming: "kebab-case" })
+
+      expect(existsSync("./aws-dark.svg")).toBe(true)
+      expect(existsSync("./aws-dark.tsx")).toBe(true)
+      expect(readFileSync("./aws-dark.tsx", "utf8")).toContain(
+        'new URL("./aws-dark.svg", import.meta.url)',
+      )
+      expect(readFileSync("./aws.tsx", "utf8")).toContain(
+        'import { AwsDarkLogo } from "./aws-dark"',
+      )
+      expect(readFileSync("./index.ts", "utf8")).toContain('"aws_dark"')
+      expect(results.every((result) => result.success)).toBe(true)
+    })
+
+    it("should generate a themed component for dark and light pairs", async () => {
+      const results = await processLogos(["aws"])
+
+      const component = readFileSync("./aws.tsx", "utf8")
+      expect(component).toContain('import { AwsDarkLogo } from "./aws_dark"')
+      expect(component).toContain('import { AwsLightLogo } from "./aws_light"')
+      expect(
+        results.some(
+          (result) =>
+            "aws" === result.logoName &&
+            result.createdFiles?.includes("aws.tsx"),
+        ),
+      ).toBe(true)
+    })
+
+    it("should generate the themed component once both variants are installed", async () => {
+      await processLogos(["aws"], { dark: true })
+      expect(existsSync("./aws.tsx")).toBe(false)
+
+      await processLogos(["aws"], { light: true })
+      expect(existsSync("./aws.tsx")).toBe(true)
+    })
+
+    it("should keep an index.ts barrel of the installed components", async () => {
+      await processLogos(["vercel"])
+      await processLogos(["neon"])
+
+      const barrel = readFileSync("./index.ts", "utf8")
+      expect(barrel).toContain('import { NeonLogo } from "./neon"')
+      expect(barrel).toContain('import { VercelLogo } from "./vercel"')
+      expect(barrel).toContain("  neon: NeonLogo,")
+    })
+
+    it("should export components of every framework from the barrel", async () => {
+      await processLogos(["vercel"], { dark: true, framework: "vue" })
+      await processLogos(["neon"])
+
+      const barrel = readFileSync("./index.ts", "utf8")
+      expect(barrel).toContain("VercelDarkLogo")
+      expect(barrel).toContain("vercel_dark.vue")
+      expect(barrel).toContain('import { NeonLogo } from "./neon"')
+    })
+
+    it("should leave an index.ts not generated by brandcn alone", async () => {
+      writeFileSync("./index.ts", 'export * from "./mine"\n')
+
+      const results = await processLogos(["neon"])
+
+      expect(readFileSync("./index.ts", "utf8")).toBe(
+        'export * from "./mine"\n',
+      )
+      expect(
+        results.some(
+          (result) => "index.ts" === result.logoName && result.skipped,
+        ),
+      ).toBe(true)
+    })
+
+    it("should install logos as classes in logos.css", async () => {
+      const results = await processLogos(["vercel", "neon"], {
+        dark: true,
+        format: "css",
+      })
+      const css = readFileSync("./logos.css", "utf8")
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+
+      expect(results[0]?.createdFiles).toEqual(["vercel_dark.svg"])
+      expect(existsSync("./vercel_dark.tsx")).toBe(false)
+      expect(existsSync("./index.ts")).toBe(false)
+      expect(css).toContain(".logo-vercel-dark {")
+      expect(css).toContain(".logo-neon {")
+      expect(lock.logos.vercel_dark.component).toBeNull()
+      expect(lock.logos.vercel_dark.options.format).toBe("css")
+    })
+
+    it("should write a Tailwind plugin next to the components", async () => {
+      await processLogos(["vercel"], { dark: true })
+      await processLogos(["neon"], { dark: true, format: "tailwind" })
+      const plugin = readFileSync("./logos.plugin.js", "utf8")
+
+      expect(plugin).toContain('".logo-neon": {')
+      expect(plugin).not.toContain("logo-vercel-dark")
+      expect(existsSync("./vercel_dark.tsx")).toBe(true)
+      expect(existsSync("./logos.css")).toBe(false)
+    })
+
+    it("should install logos into a sprite sheet with one component", async () => {
+      await processLogos(["vercel", "neon"], { dark: true, format: "sprite" })
+      const sprite = readFileSync("./logos.sprite.svg", "utf8")
+      const component = readFileSync("./logo.tsx", "utf8")
+
+      expect(existsSync("./vercel_dark.tsx")).toBe(false)
+      expect(sprite).toContain('<symbol id="vercel_dark"')
+      expect(sprite).toContain('<symbol id="neon"')
+      expect(component).toContain('  neon: { label: "Neon",')
+      expect(component).toContain('  vercel_dark: { label: "Vercel",')
+    })
+
+    it("should leave a logos.css not generated by brandcn alone", async () => {
+      writeFileSync("./logos.css", ".mine {}\n")
+
+      const results = await processLogos(["neon"], { format: "css" })
+
+      expect(readFileSync("./logos.css", "utf8")).toBe(".mine {}\n")
+      expect(
+        results.some(
+          (result) => "logos.css" === result.logoName && result.skipped,
+        ),
+      ).toBe(true)
+    })
+
     it("should handle non-existing logos gracefully", async () => {
       const results = await processLogos(["nonexistent-logo"])
 
@@ -302,6 +629,86 @@ describe("fs utilities", () => {
       ).toBe(true)
     })
 
+    it("should keep files that differ from the library without force", async () => {
+      writeFileSync("./vercel.svg", "<svg><!-- edited --></svg>")
+
+      const results = await processLogos(["vercel"])
+
+      expect(readFileSync("./vercel.svg", "utf8")).toBe(
+        "<svg><!-- edited --></svg>",
+      )
+      expect(results.every((result) => !result.updated)).toBe(true)
+    })
+
+    it("should overwrite files that differ from the library with force", async () => {
+      writeFileSync("./vercel.svg", "<svg><!-- edited --></svg>")
+      writeFileSync("./vercel.tsx", "export default function VercelLogo() {}")
+
+      const results = await processLogos(["vercel"], { force: true })
+
+      expect(readFileSync("./vercel.svg", "utf8")).toBe(
+        readFileSync(path.join(getLibraryPath(), "vercel.svg"), "utf8"),
+      )
+      expect(
+        results.some(
+          (result) =>
+            "vercel" === result.logoName &&
+            result.updated &&
+            result.updatedFiles?.includes("vercel.svg") &&
+            result.updatedFiles?.includes("vercel.tsx"),
+        ),
+      ).toBe(true)
+    })
+
+    it("should ask onConflict for each differing file", async () => {
+      writeFileSync("./vercel.svg", "<svg><!-- edited --></svg>")
+      writeFileSync("./vercel.tsx", "export default function VercelLogo() {}")
+      const conflicts: string[] = []
+
+      const results = await processLogos(["vercel"], {
+        onConflict: async (conflict) => {
+          conflicts.push(conflict.fileName)
+          return "vercel.svg" === conflict.fileName ? "overwrite" : "keep"
+        },
+      })
+
+      expect(conflicts).toEqual(["vercel.svg", "vercel.tsx"])
+      const result = results.find((r) => "vercel" === r.logoName)
+      expect(result?.updatedFiles).toEqual(["vercel.svg"])
+      expect(result?.skippedFiles).toEqual(["vercel.tsx"])
+    })
+
+    it("should stop asking after overwrite all", async () => {
+      await processLogos(["github"])
+      writeFileSync("./github_dark.svg", "<svg></svg>")
+      writeFileSync("./github_light.svg", "<svg></svg>")
+      let prompts = 0
+
+      const results = await processLogos(["github"], {
+        onConflict: async () => {
+          prompts++
+          return "overwrite-all"
+        },
+      })
+
+      expect(prompts).toBe(1)
+      expect(results.filter((result) => result.updated)).toHaveLength(2)
+    })
+
+    it("should not report unchanged files as conflicts", async () => {
+      await processLogos(["vercel"])
+      let prompts = 0
+
+      await processLogos(["vercel"], {
+        onConflict: async () => {
+          prompts++
+          return "keep"
+        },
+      })
+
+      expect(prompts).toBe(0)
+    })
+
     it("should create missing tsx component when svg already exists", async () => {
       writeFileSync("./vercel.svg", "<svg></svg>")
 
@@ -335,6 +742,134 @@ describe("fs utilities", () => {
       }
     })
 
+    it("should optimize SVGs and report the saved bytes", async () => {
+      const results = await processLogos(["nextjs"], { optimize: true })
+      const result = results.find(
+        (candidate) => "nextjs-logo_dark" === candidate.logoName,
+      )
+      const installed = readFileSync("./nextjs-logo_dark.svg", "utf8")
+      const library = readFileSync(
+        path.join(getLibraryPath(), "nextjs-logo_dark.svg"),
+        "utf8",
+      )
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+
+      expect(result?.savedBytes).toBe(
+        Buffer.byteLength(library) - Buffer.byteLength(installed),
+      )
+      expect(result?.savedBytes).toBeGreaterThan(0)
+      expect(lock.logos["nextjs-logo_dark"].options.optimize).toBe(true)
+      expect(lock.logos["nextjs-logo_dark"].svg.hash).toBe(
+        hashContent(installed),
+      )
+    })
+
+    it("should paint single-color logos with currentColor", async () => {
+      const results = await processLogos(["github"], {
+        componentStyle: "inline",
+        currentColor: true,
+        light: true,
+      })
+      const installed = readFileSync("./github_light.svg", "utf8")
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+
+      expect(results.every((result) => result.success)).toBe(true)
+      expect(installed).toContain('fill="currentColor"')
+      expect(installed).not.toMatch(/#fff|white/i)
+      expect(readFileSync("./github_light.tsx", "utf8")).toContain(
+        'fill="currentColor"',
+      )
+      expect(lock.logos.github_light.options.currentColor).toBe(true)
+      expect(
+        await getModifiedLogoFiles(process.cwd(), "github_light", {
+          componentStyle: "inline",
+          currentColor: true,
+        }),
+      ).toEqual([])
+    })
+
+    it("should refuse currentColor for multi-color logos", async () => {
+      const results = await processLogos(["google"], { currentColor: true })
+      const result = results.find(
+        (candidate) => "google" === candidate.logoName,
+      )
+
+      expect(result?.success).toBe(false)
+      expect(result?.error).toContain("only single-color logos")
+      expect(existsSync("./google.svg")).toBe(false)
+    })
+
+    it("should install recolored copies next to the library logo", async () => {
+      await processLogos(["vercel"], { dark: true })
+      const results = await processLogos(["vercel"], {
+        color: "#6b7280",
+        dark: true,
+      })
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+
+      expect(results.map((result) => result.logoName)).toEqual([
+        "vercel_mono",
+        "vercel_wordmark_mono",
+      ])
+      expect(readFileSync("./vercel_mono.svg", "utf8")).toContain(
+        'fill="#6b7280"',
+      )
+      expect(readFileSync("./vercel_mono.tsx", "utf8")).toContain(
+        "export function VercelMonoLogo(",
+      )
+      expect(existsSync("./vercel_dark.svg")).toBe(true)
+      expect(lock.logos.vercel_mono).toMatchObject({
+        options: { color: "#6b7280" },
+        source: "vercel_dark.svg",
+      })
+      expect(readFileSync("./index.ts", "utf8")).toContain(
+        'import { VercelMonoLogo } from "./vercel_mono"',
+      )
+    })
+
+    it("should install one copy for dark and light variants", async () => {
+      const results = await processLogos(["github"], { color: "#6b7280" })
+
+      expect(results.map((result) => result.logoName)).toEqual([
+        "github_mono",
+        "github_wordmark_mono",
+      ])
+    })
+
+    it("should pair dark and light copies with swapped colors", async () => {
+      await processLogos(["github"], {
+        colorMap: { "#000000": "#111111", "#ffffff": "#fafafa" },
+      })
+
+      expect(readFileSync("./github_custom_dark.svg", "utf8")).not.toMatch(
+        /#fff\b|#ffffff/i,
+      )
+      expect(readFileSync("./github_custom.tsx", "utf8")).toContain(
+        'import { GithubCustomDarkLogo } from "./github_custom_dark"',
+      )
+    })
+
+    it("should install trimmed square logos and remove them", async () => {
+      await processLogos(["vercel"], {
+        dark: true,
+        trim: { padding: 0, square: true },
+      })
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+
+      expect(readFileSync("./vercel_dark.tsx", "utf8")).toContain(
+        "export const VercelDarkLogoSize = { aspectRatio: 1,",
+      )
+      expect(lock.logos.vercel_dark.options.trim).toEqual({
+        padding: 0,
+        square: true,
+      })
+
+      const results = await removeLogos(["vercel"], { dark: true })
+
+      expect(results.every((result) => result.success)).toBe(true)
+      expect(existsSync("./vercel_dark.svg")).toBe(false)
+    })
+
     it("should handle brands with no matching variants", async () => {
       const results = await processLogos(["vercel"], {
         dark: true,
@@ -348,4 +883,368 @@ describe("fs utilities", () => {
       expect(hasSuccessful).toBe(true)
     })
   })
+
+  describe("removeLogos", () => {
+    it("should remove recolored copies by name or with their brand", async () => {
+      await processLogos(["vercel"], { color: "#6b7280", dark: true })
+      await processLogos(["vercel"], { dark: true })
+
+      await removeLogos(["vercel_wordmark_mono"])
+
+      expect(existsSync("./vercel_wordmark_mono.svg")).toBe(false)
+      expect(existsSync("./vercel_mono.svg")).toBe(true)
+
+      const results = await removeLogos(["vercel"], { dark: true })
+
+      expect(results.every((result) => result.success)).toBe(true)
+      expect(existsSync("./vercel_mono.svg")).toBe(false)
+      expect(existsSync("./vercel_dark.svg")).toBe(false)
+      expect(existsSync("./brandcn-lock.json")).toBe(false)
+    })
+
+    it("should remove installed svg and tsx files", async () => {
+      await processLogos(["vercel"])
+
+      const results = await removeLogos(["vercel"])
+
+      expect(existsSync("./vercel.svg")).toBe(false)
+      expect(existsSync("./vercel.tsx")).toBe(false)
+      expect(
+        results.some(
+          (result) =>
+            "vercel" === result.logoName &&
+            result.success &&
+            result.removedFiles?.includes("vercel.svg"),
+        ),
+      ).toBe(true)
+    })
+
+    it("should remove optimized SVGs without --force", async () => {
+      await processLogos(["vercel"], { dark: true, optimize: true })
+
+      const results = await removeLogos(["vercel"], { dark: true })
+
+      expect(results.every((result) => result.success)).toBe(true)
+      expect(existsSync("./vercel_dark.svg")).toBe(false)
+    })
+
+    it("should only remove variants matching the flags", async () => {
+      await processLogos(["github"])
+
+      await removeLogos(["github"], { dark: true })
+
+      expect(existsSync("./github_dark.svg")).toBe(false)
+      expect(existsSync("./github_light.svg")).toBe(true)
+    })
+
+    it("should remove components of the requested framework", async () => {
+      await processLogos(["vercel"], {
+        componentStyle: "inline",
+        framework: "vue",
+      })
+
+      const results = await removeLogos(["vercel"], { framework: "vue" })
+
+      expect(existsSync("./vercel.vue")).toBe(false)
+      expect(results[0]?.removedFiles).toEqual(["vercel.svg", "vercel.vue"])
+    })
+
+    it("should remove files installed with a custom file naming", async () => {
+      await processLogos(["vercel"], { fileNaming: "PascalCase" })
+
+      const results = await removeLogos(["vercel"], {
+        fileNaming: "PascalCase",
+      })
+
+      expect(existsSync("./VercelLogo.svg")).toBe(false)
+      expect(results[0]?.removedFiles).toEqual([
+        "VercelLogo.svg",
+        "VercelLogo.tsx",
+      ])
+    })
+
+    it("should remove files installed before the config changed", async () => {
+      await processLogos(["vercel"], {
+        dark: true,
+        fileNaming: "PascalCase",
+        framework: "vue",
+      })
+
+      const results = await removeLogos(["vercel"], {
+        dark: true,
+        fileNaming: "kebab-case",
+        framework: "react",
+      })
+
+      expect(results[0]?.success).toBe(true)
+      expect(results[0]?.removedFiles).toEqual([
+        "VercelDarkLogo.svg",
+        "VercelDarkLogo.vue",
+      ])
+      expect(existsSync("./brandcn-lock.json")).toBe(false)
+    })
+
+    it("should drop removed variants from brandcn-lock.json", async () => {
+      await processLogos(["github"])
+
+      await removeLogos(["github"], { dark: true })
+
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+      expect(lock.logos.github_dark).toBeUndefined()
+      expect(lock.logos.github_light).toBeDefined()
+
+      await removeLogos(["github"])
+
+      expect(existsSync("./brandcn-lock.json")).toBe(false)
+    })
+
+    it("should remove the themed component when a variant is removed", async () => {
+      await processLogos(["aws"])
+
+      const results = await removeLogos(["aws"], { dark: true })
+
+      expect(existsSync("./aws.tsx")).toBe(false)
+      expect(existsSync("./aws_light.tsx")).toBe(true)
+      expect(
+        results.some(
+          (result) =>
+            "aws" === result.logoName &&
+            result.removedFiles?.includes("aws.tsx"),
+        ),
+      ).toBe(true)
+    })
+
+    it("should update the barrel and keep its custom region", async () => {
+      await processLogos(["neon", "vercel"])
+      const barrel = readFileSync("./index.ts", "utf8").replace(
+        "// brandcn:custom-start\n",
+        "// brandcn:custom-start\nexport const extra = 1\n",
+      )
+      writeFileSync("./index.ts", barrel)
+
+      await removeLogos(["vercel"])
+
+      const updated = readFileSync("./index.ts", "utf8")
+      expect(updated).not.toContain("VercelLogo")
+      expect(updated).toContain("NeonLogo")
+      expect(updated).toContain("export const extra = 1")
+    })
+
+    it("should delete the barrel once the last logo is removed", async () => {
+      await processLogos(["neon"])
+
+      await removeLogos(["neon"])
+
+      expect(existsSync("./index.ts")).toBe(false)
+    })
+
+    it("should rewrite logos.css and delete it with its last logo", async () => {
+      await processLogos(["vercel", "neon"], { dark: true, format: "css" })
+
+      await removeLogos(["vercel"], { dark: true })
+      expect(readFileSync("./logos.css", "utf8")).not.toContain("logo-vercel")
+
+      const results = await removeLogos(["neon"], { dark: true })
+      expect(results.every((result) => result.success)).toBe(true)
+      expect(existsSync("./logos.css")).toBe(false)
+    })
+
+    it("should delete the sprite and its component with the last logo", async () => {
+      await processLogos(["vercel", "neon"], { dark: true, format: "sprite" })
+
+      await removeLogos(["neon"])
+      expect(readFileSync("./logos.sprite.svg", "utf8")).not.toContain(
+        'id="neon"',
+      )
+      expect(readFileSync("./logo.tsx", "utf8")).not.toContain("neon")
+
+      await removeLogos(["vercel"], { dark: true })
+      expect(existsSync("./logos.sprite.svg")).toBe(false)
+      expect(existsSync("./logo.tsx")).toBe(false)
+    })
+
+    it("should keep the components of other frameworks", async () => {
+      await processLogos(["vercel"], { dark: true, framework: "vue" })
+      await processLogos(["neon"])
+      await processLogos(["stripe"], { format: "sprite", framework: "vue" })
+      await processLogos(["aws"], { format: "sprite", light: true })
+
+      await removeLogos(["neon"])
+      await removeLogos(["stripe"])
+
+      expect(readFileSync("./index.ts", "utf8")).toContain("vercel_dark.vue")
+      expect(existsSync("./logo.vue")).toBe(false)
+      expect(readFileSync("./logo.tsx", "utf8")).toContain("aws_light")
+      expect(readFileSync("./logos.sprite.svg", "utf8")).not.toContain(
+        'id="stripe"',
+      )
+    })
+
+    it("should skip logos that are not installed", async () => {
+      const results = await removeLogos(["vercel"])
+
+      expect(results).toHaveLength(1)
+      expect(results[0]?.success).toBe(true)
+      expect(results[0]?.skipped).toBe(true)
+    })
+
+    it("should refuse to remove files edited since install", async () => {
+      await processLogos(["neon"])
+      writeFileSync("./neon.svg", "<svg><!-- edited --></svg>")
+
+      const results = await removeLogos(["neon"])
+
+      expect(results[0]?.success).toBe(false)
+      expect(results[0]?.error).toContain("--force")
+      expect(existsSync("./neon.svg")).toBe(true)
+      expect(existsSync("./neon.tsx")).toBe(true)
+    })
+
+    it("should remove files installed from an older library", async () => {
+      await processLogos(["neon"])
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+      writeFileSync("./neon.svg", "<svg>old</svg>")
+      lock.logos.neon.svg.hash = hashContent("<svg>old</svg>")
+      writeFileSync("./brandcn-lock.json", JSON.stringify(lock))
+
+      const results = await removeLogos(["neon"])
+
+      expect(results[0]?.success).toBe(true)
+      expect(existsSync("./neon.svg")).toBe(false)
+    })
+
+    it("should remove edited files with force", async () => {
+      await processLogos(["neon"])
+      writeFileSync("./neon.svg", "<svg><!-- edited --></svg>")
+
+      const results = await removeLogos(["neon"], { force: true })
+
+      expect(results[0]?.success).toBe(true)
+      expect(existsSync("./neon.svg")).toBe(false)
+    })
+
+    it("should handle non-existing logos gracefully", async () => {
+      const results = await removeLogos(["nonexistent-logo"])
+
+      expect(results[0]?.success).toBe(false)
+      expect(results[0]?.error).toContain("not found in library")
+    })
+  })
+
+  describe("updateLogos", () => {
+    // Pretends `file` was installed from an older library with `content`
+    const installOlderVersion = (file: string, content: string): void => {
+      const lock = JSON.parse(readFileSync("./brandcn-lock.json", "utf8"))
+      const key = file.endsWith(".svg") ? "svg" : "component"
+
+      writeFileSync(`./${file}`, content)
+      lock.logos[path.parse(file).name][key].hash = hashContent(content)
+      writeFileSync("./brandcn-lock.json", JSON.stringify(lock))
+    }
+
+    it("should report installed logos as up to date", async () => {
+      await processLogos(["vercel"], { dark: true })
+
+      const results = await updateLogos(["vercel"])
+
+      expect(results.every((result) => result.skipped)).toBe(true)
+      expect(results[0]?.reason).toBe("Up to date")
+    })
+
+    it("should rewrite unmodified files that changed in the library", async () => {
+      await processLogos(["vercel"], { dark: true })
+      const librarySvg = readFileSync("./vercel_dark.svg", "utf8")
+      installOlderVersion("vercel_dark.svg", "<svg>old</svg>")
+
+      const results = await updateLogos([])
+
+      expect(readFileSync("./vercel_dark.svg", "utf8")).toBe(librarySvg)
+      expect(
+        results.find((result) => "vercel_dark" === result.logoName),
+      ).toMatchObject({ updated: true, updatedFiles: ["vercel_dark.svg"] })
+    })
+
+    it("should refresh logos installed as classes", async () => {
+      await processLogos(["vercel"], { dark: true, format: "css" })
+      const css = readFileSync("./logos.css", "utf8")
+      installOlderVersion("vercel_dark.svg", "<svg>old</svg>")
+      writeFileSync("./logos.css", css.replace("logo-vercel", "logo-old"))
+
+      const results = await updateLogos(["vercel_dark"])
+
+      expect(results[0]).toMatchObject({ updatedFiles: ["vercel_dark.svg"] })
+      expect(existsSync("./vercel_dark.tsx")).toBe(false)
+      expect(readFileSync("./logos.css", "utf8")).toBe(css)
+    })
+
+    it("should regenerate components when the template changed", async () => {
+      await processLogos(["vercel"], { dark: true, framework: "svelte" })
+      const component = readFileSync("./vercel_dark.svelte", "utf8")
+      installOlderVersion("vercel_dark.svelte", "<img />")
+
+      await updateLogos(["vercel_dark"])
+
+      expect(readFileSync("./vercel_dark.svelte", "utf8")).toBe(component)
+    })
+
+    it("should keep the barrel and sprite of every framework", async () => {
+      await processLogos(["vercel"], { dark: true, framework: "vue" })
+      await processLogos(["stripe"], { format: "sprite", framework: "vue" })
+      await processLogos(["neon"], { format: "sprite" })
+      installOlderVersion("neon.svg", "<svg>old</svg>")
+
+      await updateLogos(["neon"])
+
+      expect(readFileSync("./index.ts", "utf8")).toContain("vercel_dark.vue")
+      expect(readFileSync("./logo.vue", "utf8")).toContain("stripe")
+      expect(readFileSync("./logo.tsx", "utf8")).not.toContain("stripe")
+    })
+
+    it("should refresh recolored copies from their library logo", async () => {
+      await processLogos(["vercel"], { color: "#6b7280", dark: true })
+      const recolored = readFileSync("./vercel_mono.svg", "utf8")
+      installOlderVersion("vercel_mono.svg", "<svg>old</svg>")
+
+      const results = await updateLogos(["vercel"])
+
+      expect(readFileSync("./vercel_mono.svg", "utf8")).toBe(recolored)
+      expect(
+        results.find((result) => "vercel_mono" === result.logoName),
+      ).toMatchObject({ updated: true, updatedFiles: ["vercel_mono.svg"] })
+    })
+
+    it("should keep local changes unless the conflict is resolved", async () => {
+      await processLogos(["vercel"], { dark: true })
+      installOlderVersion("vercel_dark.svg", "<svg>old</svg>")
+      writeFileSync("./vercel_dark.svg", "<svg>mine</svg>")
+
+      const kept = await updateLogos(["vercel_dark"])
+
+      expect(readFileSync("./vercel_dark.svg", "utf8")).toBe("<svg>mine</svg>")
+      expect(kept[0]?.skippedFiles).toEqual(["vercel_dark.svg"])
+
+      installOlderVersion("vercel_dark.svg", "<svg>old</svg>")
+      writeFileSync("./vercel_dark.svg", "<svg>mine</svg>")
+
+      const conflicts: string[] = []
+      await updateLogos(["vercel_dark"], {
+        onConflict: async (conflict) => {
+          conflicts.push(conflict.fileName)
+          return "overwrite"
+        },
+      })
+
+      expect(conflicts).toEqual(["vercel_dark.svg"])
+      expect(readFileSync("./vercel_dark.svg", "utf8")).not.toBe(
+        "<svg>mine</svg>",
+      )
+    })
+
+    it("should fail for logos missing from the lock file", async () => {
+      const results = await updateLogos(["vercel"])
+
+      expect(results[0]?.success).toBe(false)
+      expect(results[0]?.error).toContain("not recorded in brandcn-lock.json")
+    })
+  })
 })
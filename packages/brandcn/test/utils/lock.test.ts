@@ -0,0 +1,112 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import {
+  createLockEntry,
+  hashContent,
+  readLockFile,
+  writeLockFile,
+} from "../../src/utils/lock.js"
+
+describe("lock utilities", () => {
+  const testDir = path.resolve("./test-temp")
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { force: true, recursive: true })
+    }
+
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { force: true, recursive: true })
+    }
+  })
+
+  describe("hashContent", () => {
+    it("should produce a prefixed sha256 digest", () => {
+      expect(hashContent("")).toBe(
+        "sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=",
+      )
+      expect(hashContent("<svg/>")).toBe(hashContent(Buffer.from("<svg/>")))
+    })
+  })
+
+  describe("createLockEntry", () => {
+    it("should record files, hashes and defaulted options", () => {
+      const entry = createLockEntry(
+        "vercel_dark.svg",
+        { content: "<svg/>", file: "vercel-dark.svg" },
+        { content: "export {}", file: "vercel-dark.tsx" },
+        { fileNaming: "kebab-case" },
+      )
+
+      expect(entry).toMatchObject({
+        component: { file: "vercel-dark.tsx", hash: hashContent("export {}") },
+        options: {
+          componentStyle: "img",
+          currentColor: false,
+          fileNaming: "kebab-case",
+          framework: "react",
+          optimize: false,
+        },
+        source: "vercel_dark.svg",
+        svg: { file: "vercel-dark.svg", hash: hashContent("<svg/>") },
+      })
+    })
+  })
+
+  describe("readLockFile / writeLockFile", () => {
+    it("should return an empty lock when the file is missing", async () => {
+      expect(await readLockFile(testDir)).toEqual({
+        lockfileVersion: 1,
+        logos: {},
+      })
+    })
+
+    it("should round-trip entries sorted by variant", async () => {
+      const entry = createLockEntry(
+        "vercel",
+        { content: "<svg/>", file: "vercel.svg" },
+        { content: "export {}", file: "vercel.tsx" },
+        {},
+      )
+
+      await writeLockFile(testDir, {
+        lockfileVersion: 1,
+        logos: { vercel: entry, aws_dark: entry },
+      })
+
+      const lock = await readLockFile(testDir)
+      expect(Object.keys(lock.logos)).toEqual(["aws_dark", "vercel"])
+      expect(lock.logos.vercel).toEqual(entry)
+    })
+
+    it("should delete the file once no variant is left", async () => {
+      writeFileSync(path.join(testDir, "brandcn-lock.json"), "{}")
+
+      await writeLockFile(testDir, { lockfileVersion: 1, logos: {} })
+
+      expect(existsSync(path.join(testDir, "brandcn-lock.json"))).toBe(false)
+    })
+
+    it("should throw for an invalid lock file", async () => {
+      const filePath = path.join(testDir, "brandcn-lock.json")
+      writeFileSync(filePath, JSON.stringify({ logos: {}, lockfileVersion: 2 }))
+
+      await expect(readLockFile(testDir)).rejects.toThrow(
+        "Invalid brandcn-lock.json",
+      )
+      expect(readFileSync(filePath, "utf8")).toContain('"lockfileVersion":2')
+    })
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+
+import { optimizeSvg } from "../../src/utils/optimize.js"
+
+describe("optimizeSvg", () => {
+  it("should strip metadata, comments and empty groups", () => {
+    const optimized = optimizeSvg(
+      '<?xml version="1.0"?><!-- Generator: Sketch --><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><metadata>editor</metadata><g><g><path d="M0.123456 0L24 24"/></g></g><g/></svg>',
+      "logo",
+    )
+
+    expect(optimized).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M.123 0 24 24"/></svg>',
+    )
+  })
+
+  it("should dedupe definitions and point references at the kept one", () => {
+    const optimized = optimizeSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><defs><linearGradient id="first"><stop offset="0" stop-color="#f00"/><stop offset="1" stop-color="#00f"/></linearGradient><linearGradient id="second"><stop offset="0" stop-color="#f00"/><stop offset="1" stop-color="#00f"/></linearGradient></defs><path fill="url(#first)" d="M0 0h12v12H0z"/><path fill="url(#second)" d="M12 12h12v12H12z"/></svg>',
+      "logo",
+    )
+
+    expect(optimized.match(/<linearGradient/g)).toHaveLength(1)
+    expect(optimized.match(/url\(#logo-a\)/g)).toHaveLength(2)
+  })
+
+  it("should prefix ids and class names", () => {
+    const optimized = optimizeSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><style>.shape{fill:red}</style><clipPath id="clip"><path d="M0 0h24v24H0z"/></clipPath><path class="shape" clip-path="url(#clip)" d="M0 0h12v12H0z"/><path class="shape" d="M12 12h12v12H12z"/></svg>',
+      "vercel_dark",
+    )
+
+    expect(optimized).toContain('id="vercel_dark-clip"')
+    expect(optimized).toContain("url(#vercel_dark-clip)")
+    expect(optimized).toContain("vercel_dark-shape")
+  })
+})
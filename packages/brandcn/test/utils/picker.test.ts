@@ -0,0 +1,48 @@
+import { PassThrough } from "node:stream"
+import { describe, expect, it } from "vitest"
+
+import { getAvailableLogos } from "../../src/utils/fs.js"
+import { pickLogos } from "../../src/utils/picker.js"
+
+const down = "\u001B[B"
+
+/**
+ * Runs the picker against a fake terminal and types `keys` into it
+ */
+async function pick(keys: string[]): Promise<null | string[]> {
+  const input = new PassThrough()
+  const output = new PassThrough()
+  output.resume()
+
+  const result = pickLogos(await getAvailableLogos(), { input, output })
+  for (const key of keys) {
+    input.write(key)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+
+  return result
+}
+
+describe("pickLogos", () => {
+  it("should filter brands by the search and pick rows", async () => {
+    const result = await pick(["vercel", " ", down, " ", "\r"])
+
+    expect(result).toEqual(["vercel"])
+  })
+
+  it("should pick single variants of a brand", async () => {
+    const result = await pick(["vercel", down, " ", "\r"])
+
+    expect(result).toEqual(["vercel_dark"])
+  })
+
+  it("should require a selection before confirming", async () => {
+    const result = await pick(["\r", "neon", " ", "\r"])
+
+    expect(result).toEqual(["neon"])
+  })
+
+  it("should return null when cancelled", async () => {
+    expect(await pick(["\u001B"])).toBeNull()
+  })
+})
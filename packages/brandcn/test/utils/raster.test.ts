@@ -0,0 +1,96 @@
+import { inflateSync } from "node:zlib"
+import { describe, expect, it } from "vitest"
+
+import {
+  createCanvas,
+  drawImage,
+  encodeIco,
+  encodePng,
+  getPixel,
+  getSvgBounds,
+  rasterizeSvg,
+} from "../../src/utils/raster.js"
+
+describe("raster utilities", () => {
+  describe("rasterizeSvg", () => {
+    it("should fit wide SVGs to the width of the box", async () => {
+      const image = await rasterizeSvg(
+        '<svg viewBox="0 0 40 10"><rect width="40" height="10" fill="#f00"/></svg>',
+        20,
+        20,
+      )
+
+      expect(image.width).toBe(20)
+      expect(image.height).toBe(5)
+      expect(getPixel(image, 0)).toEqual([255, 0, 0, 255])
+    })
+
+    it("should fit tall SVGs to the height of the box", async () => {
+      const image = await rasterizeSvg(
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 40"><path d="M0 0h10v40H0z"/></svg>',
+        20,
+        20,
+      )
+
+      expect(image.width).toBe(5)
+      expect(image.height).toBe(20)
+      expect(getPixel(image, 0)).toEqual([0, 0, 0, 255])
+    })
+  })
+
+  describe("getSvgBounds", () => {
+    it("should measure painted content including strokes", async () => {
+      expect(
+        await getSvgBounds(
+          '<svg viewBox="0 0 100 100"><rect x="20" y="40" width="60" height="20" stroke="#000" stroke-width="2"/></svg>',
+        ),
+      ).toEqual({ height: 22, minX: 19, minY: 39, width: 62 })
+    })
+
+    it("should return null when nothing is painted", async () => {
+      expect(await getSvgBounds('<svg viewBox="0 0 10 10"/>')).toBeNull()
+    })
+  })
+
+  describe("drawImage", () => {
+    it("should blend images over the canvas and clip them", () => {
+      const canvas = createCanvas(2, 1, [0, 0, 255, 255])
+      const image = createCanvas(2, 1, [255, 0, 0, 128])
+
+      drawImage(canvas, image, 1, 0)
+
+      expect(getPixel(canvas, 0)).toEqual([0, 0, 255, 255])
+      expect(getPixel(canvas, 4)).toEqual([128, 0, 127, 255])
+    })
+  })
+
+  describe("encodePng", () => {
+    it("should write an RGBA PNG with straight alpha", () => {
+      const png = encodePng(createCanvas(1, 1, [255, 0, 0, 128]))
+
+      expect(png.subarray(1, 4).toString("ascii")).toBe("PNG")
+      expect(png.readUInt32BE(16)).toBe(1)
+      expect(png.readUInt32BE(20)).toBe(1)
+
+      const dataLength = png.readUInt32BE(33)
+      const data = inflateSync(png.subarray(41, 41 + dataLength))
+      expect([...data]).toEqual([0, 255, 0, 0, 128])
+    })
+  })
+
+  describe("encodeIco", () => {
+    it("should embed a PNG per size after the directory", () => {
+      const ico = encodeIco([createCanvas(16, 16), createCanvas(256, 256)])
+
+      expect([ico.readUInt16LE(0), ico.readUInt16LE(2)]).toEqual([0, 1])
+      expect(ico.readUInt16LE(4)).toBe(2)
+      // 256 pixels is stored as 0
+      expect([ico[6], ico[22]]).toEqual([16, 0])
+
+      const offset = ico.readUInt32LE(18)
+      expect(offset).toBe(6 + 16 * 2)
+      expect(ico.subarray(offset + 1, offset + 4).toString("ascii")).toBe("PNG")
+      expect(ico.readUInt32LE(34)).toBe(offset + ico.readUInt32LE(14))
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  convertToCurrentColor,
+  getRecoloredLogoName,
+  recolorSvg,
+  swapSvgColors,
+} from "../../src/utils/recolor.js"
+
+describe("convertToCurrentColor", () => {
+  it("should replace fills and strokes in attributes and styles", () => {
+    expect(
+      convertToCurrentColor(
+        '<svg viewBox="0 0 24 24"><path fill="#FFF" d="M0 0"/><path style="stroke: white; stroke-width: 2" fill="none" d="M1 1"/></svg>',
+      ),
+    ).toBe(
+      '<svg viewBox="0 0 24 24" fill="currentColor"><path fill="currentColor" d="M0 0"/><path style="stroke:currentColor; stroke-width: 2" fill="none" d="M1 1"/></svg>',
+    )
+  })
+
+  it("should paint shapes without a fill through the root", () => {
+    expect(convertToCurrentColor('<svg><path d="M0 0"/></svg>')).toBe(
+      '<svg fill="currentColor"><path d="M0 0"/></svg>',
+    )
+  })
+
+  it("should replace colors in style sheets and gradient stops", () => {
+    const converted = convertToCurrentColor(
+      '<svg><style>.a{fill:#000;opacity:.5}</style><linearGradient id="g"><stop stop-color="#000"/><stop offset="1" stop-color="#000" stop-opacity="0"/></linearGradient><path class="a" d="M0 0"/><path fill="url(#g)" d="M1 1"/></svg>',
+    )
+
+    expect(converted).toContain(
+      "<style>.a{fill:currentColor;opacity:.5}</style>",
+    )
+    expect(converted.match(/stop-color="currentColor"/g)).toHaveLength(2)
+    expect(converted).toContain('fill="url(#g)"')
+  })
+
+  it("should leave masks alone", () => {
+    const converted = convertToCurrentColor(
+      '<svg><mask id="m"><rect fill="white" width="24" height="24"/></mask><path fill="#000" mask="url(#m)" d="M0 0"/></svg>',
+    )
+
+    expect(converted).toContain('<rect fill="white"')
+    expect(converted).toContain('<path fill="currentColor"')
+  })
+
+  it("should refuse logos with several colors", () => {
+    expect(() =>
+      convertToCurrentColor(
+        '<svg><path fill="#ea4335" d="M0 0"/><path fill="#4285f4" d="M1 1"/></svg>',
+      ),
+    ).toThrow(
+      "Uses 2 colors (#4285f4, #ea4335), only single-color logos can use currentColor",
+    )
+  })
+})
+
+describe("recolorSvg", () => {
+  it("should paint every color with one color", () => {
+    expect(
+      recolorSvg(
+        '<svg><path fill="#ea4335" d="M0 0"/><path style="stroke:#4285f4" d="M1 1"/></svg>',
+        "#6b7280",
+      ),
+    ).toBe(
+      '<svg fill="#6b7280"><path fill="#6b7280" d="M0 0"/><path style="stroke:#6b7280" d="M1 1"/></svg>',
+    )
+  })
+})
+
+describe("swapSvgColors", () => {
+  it("should only swap mapped colors", () => {
+    expect(
+      swapSvgColors(
+        '<svg><path fill="#FFF" d="M0 0"/><path fill="#ea4335" d="M1 1"/><path d="M2 2"/></svg>',
+        { "#000000": "#111111", "#ffffff": "#fafafa" },
+      ),
+    ).toBe(
+      '<svg fill="#111111"><path fill="#fafafa" d="M0 0"/><path fill="#ea4335" d="M1 1"/><path d="M2 2"/></svg>',
+    )
+  })
+})
+
+describe("getRecoloredLogoName", () => {
+  it("should merge themes of single-color copies", () => {
+    expect(getRecoloredLogoName("vercel_dark", { color: "#000000" })).toBe(
+      "vercel_mono",
+    )
+    expect(
+      getRecoloredLogoName("vercel_wordmark_light", { color: "#000000" }),
+    ).toBe("vercel_wordmark_mono")
+  })
+
+  it("should keep the theme of copies with swapped colors", () => {
+    const colorMap = { "#000000": "#111111" }
+
+    expect(getRecoloredLogoName("vercel_dark", { colorMap })).toBe(
+      "vercel_custom_dark",
+    )
+    expect(getRecoloredLogoName("stripe", { colorMap })).toBe("stripe_custom")
+  })
+
+  it("should keep the name of logos that are not recolored", () => {
+    expect(getRecoloredLogoName("vercel_dark", {})).toBe("vercel_dark")
+  })
+})
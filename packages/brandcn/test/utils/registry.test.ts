@@ -0,0 +1,91 @@
+import { readdirSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+
+import { getLibraryPath } from "../../src/utils/fs.js"
+import {
+  brandMatches,
+  findBrand,
+  findBrandByVariant,
+  getBrands,
+  getLogoDisplayName,
+  getLogoSlug,
+  isLogoCategory,
+} from "../../src/utils/registry.js"
+
+describe("registry utilities", () => {
+  const libraryLogos = readdirSync(getLibraryPath())
+    .filter((file) => file.endsWith(".svg"))
+    .map((file) => getLogoSlug(file.replace(/\.svg$/, "")))
+
+  describe("getBrands", () => {
+    it("should list every library logo in exactly one brand", () => {
+      const variants = getBrands().flatMap((brand) => brand.variants)
+
+      expect(variants.sort()).toEqual(libraryLogos.sort())
+      expect(new Set(variants).size).toBe(variants.length)
+    })
+
+    it("should not reuse ids as aliases of other brands", () => {
+      const names = getBrands().flatMap((brand) => [
+        brand.id,
+        ...brand.aliases.map((alias) => alias.toLowerCase()),
+      ])
+
+      expect(new Set(names).size).toBe(names.length)
+    })
+  })
+
+  describe("findBrand", () => {
+    it("should find a brand by id or alias ignoring case", () => {
+      expect(findBrand("nextjs")?.name).toBe("Next.js")
+      expect(findBrand("Next")?.id).toBe("nextjs")
+      expect(findBrand("not-a-brand")).toBeUndefined()
+    })
+
+    it("should find the brand of a variant", () => {
+      expect(findBrandByVariant("soundcloud-logo_dark")?.id).toBe("soundcloud")
+    })
+  })
+
+  describe("getLogoSlug", () => {
+    it("should lower-case file names and replace dots", () => {
+      expect(getLogoSlug("apollo.io")).toBe("apollo-io")
+      expect(getLogoSlug("cP-orange")).toBe("cp-orange")
+      expect(getLogoSlug("vercel_dark")).toBe("vercel_dark")
+    })
+  })
+
+  describe("getLogoDisplayName", () => {
+    it("should return the brand name of a variant", () => {
+      expect(getLogoDisplayName("nextjs-logo_dark")).toBe("Next.js")
+      expect(getLogoDisplayName("1password_dark")).toBe("1Password")
+    })
+
+    it("should return the brand name of a recolored copy", () => {
+      expect(getLogoDisplayName("github_mono")).toBe("GitHub")
+      expect(getLogoDisplayName("nextjs-logo_custom_dark")).toBe("Next.js")
+    })
+
+    it("should fall back to the file name", () => {
+      expect(getLogoDisplayName("custom-logo")).toBe("custom-logo")
+      expect(getLogoDisplayName("custom_mono")).toBe("custom_mono")
+    })
+  })
+
+  describe("brandMatches", () => {
+    it("should match names, aliases and categories", () => {
+      const nextjs = findBrand("nextjs")
+
+      expect(nextjs && brandMatches(nextjs, "next.js")).toBe(true)
+      expect(nextjs && brandMatches(nextjs, "framework")).toBe(true)
+      expect(nextjs && brandMatches(nextjs, "database")).toBe(false)
+    })
+  })
+
+  describe("isLogoCategory", () => {
+    it("should validate categories", () => {
+      expect(isLogoCategory("database")).toBe(true)
+      expect(isLogoCategory("Database")).toBe(false)
+    })
+  })
+})
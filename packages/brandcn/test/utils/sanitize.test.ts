@@ -0,0 +1,72 @@
+import { readFileSync, readdirSync } from "node:fs"
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+
+import { getLibraryPath } from "../../src/utils/fs.js"
+import { sanitizeSvg } from "../../src/utils/sanitize.js"
+
+describe("sanitizeSvg", () => {
+  it("should leave safe markup untouched", () => {
+    const source =
+      '<?xml version="1.0"?>\n<svg xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 24 24"><defs><path id="p" d="M0 0h24v24H0z"/></defs><use xlink:href="#p"/><image href="data:image/png;base64,AAAA"/></svg>\n'
+
+    expect(sanitizeSvg(source)).toEqual({ content: source, warnings: [] })
+  })
+
+  it("should remove scripts, foreign objects and event handlers", () => {
+    const result = sanitizeSvg(
+      '<svg onload="alert(1)"><script>alert(2)</script><g><foreignObject><div/></foreignObject><path onClick="alert(3)" d="M0 0"/></g></svg>',
+    )
+
+    expect(result.content).toBe('<svg><g><path d="M0 0"/></g></svg>')
+    expect(result.warnings).toEqual([
+      "Removed <script> from <svg>",
+      "Removed event handler onload from <svg>",
+      "Removed <foreignObject> from <g>",
+      "Removed event handler onClick from <path>",
+    ])
+  })
+
+  it("should remove javascript: URLs and external references", () => {
+    const result = sanitizeSvg(
+      '<svg><a href="java&#x09;script:alert(1)"><path d="M0 0"/></a><use xlink:href="https://example.com/logo.svg#a"/><image href="data:image/svg+xml;base64,AAAA"/><path style="fill:url(javascript:alert(1))"/></svg>',
+    )
+
+    expect(result.content).toBe(
+      '<svg><a><path d="M0 0"/></a><use/><image/><path/></svg>',
+    )
+    expect(result.warnings).toEqual([
+      "Removed javascript: URL in href from <a>",
+      "Removed external reference xlink:href from <use>",
+      "Removed external reference href from <image>",
+      "Removed javascript: URL in style from <path>",
+    ])
+  })
+
+  it("should remove @import from style sheets", () => {
+    const result = sanitizeSvg(
+      '<svg><style>@import url("https://example.com/a.css");.a{fill:red}</style></svg>',
+    )
+
+    expect(result.content).toBe("<svg><style>.a{fill:red}</style></svg>")
+    expect(result.warnings).toEqual(["Removed @import from <style>"])
+  })
+
+  it("should throw for markup it cannot parse", () => {
+    expect(() => sanitizeSvg("<svg><g></svg>")).toThrow("Invalid SVG")
+  })
+
+  it("should only find the known issues in the bundled library", () => {
+    const libraryPath = getLibraryPath()
+    const findings = readdirSync(libraryPath)
+      .filter((file) => file.endsWith(".svg"))
+      .flatMap((file) =>
+        sanitizeSvg(
+          readFileSync(path.join(libraryPath, file), "utf8"),
+        ).warnings.map((warning) => `${file}: ${warning}`),
+      )
+
+    // Known issues, removed from the logos when they are installed
+    expect(findings).toEqual(["litecoin.svg: Removed <script> from <svg>"])
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  createSpriteSource,
+  getSpriteComponentFileName,
+  getSpriteSymbols,
+  isGeneratedSpriteFile,
+} from "../../src/utils/sprite.js"
+
+const vercel = {
+  logoName: "vercel_dark",
+  svg: '<svg xmlns="http://www.w3.org/2000/svg" width="48" height="42" viewBox="0 0 256 222"><path fill="#fff" d="m128 0 128 221.705H0z"/></svg>',
+}
+const gradient = {
+  logoName: "neon",
+  svg: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><style>.shape{fill:url(#a)}</style><linearGradient id="a"><stop stop-color="#00e599"/></linearGradient><path class="shape" d="M0 0h24v24H0z"/></svg>',
+}
+
+describe("sprite utilities", () => {
+  describe("createSpriteSource", () => {
+    it("should turn every logo into a symbol named after it", () => {
+      const source = createSpriteSource([vercel, gradient])
+
+      expect(source).toContain(
+        '  <symbol id="vercel_dark" viewBox="0 0 256 222"><path fill="#fff" d="m128 0 128 221.705H0z"/></symbol>',
+      )
+      expect(source.indexOf('id="neon"')).toBeLessThan(
+        source.indexOf('id="vercel_dark"'),
+      )
+      expect(isGeneratedSpriteFile(source)).toBe(true)
+    })
+
+    it("should prefix ids and class names with the logo name", () => {
+      const source = createSpriteSource([gradient])
+
+      expect(source).toContain('<linearGradient id="neon__a">')
+      expect(source).toContain(".neon__shape{fill:url(#neon__a)}")
+      expect(source).toContain('<path class="neon__shape"')
+    })
+  })
+
+  describe("getSpriteSymbols", () => {
+    it("should describe the label and viewBox of every symbol", () => {
+      expect(getSpriteSymbols([vercel, gradient])).toEqual([
+        { label: "Neon", logoName: "neon", viewBox: "0 0 24 24" },
+        { label: "Vercel", logoName: "vercel_dark", viewBox: "0 0 256 222" },
+      ])
+    })
+  })
+
+  describe("getSpriteComponentFileName", () => {
+    it("should follow the framework and file naming", () => {
+      expect(getSpriteComponentFileName()).toBe("logo.tsx")
+      expect(
+        getSpriteComponentFileName({
+          fileNaming: "PascalCase",
+          framework: "vue",
+        }),
+      ).toBe("Logo.vue")
+    })
+  })
+})
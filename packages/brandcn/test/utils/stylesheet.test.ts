@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  createCssSource,
+  createTailwindPluginSource,
+  getLogoClassName,
+  isGeneratedStylesheet,
+} from "../../src/utils/stylesheet.js"
+
+const monochrome = {
+  logoName: "vercel_dark",
+  svg: '<svg viewBox="0 0 24 12"><path fill="#000" d="M0 0h24v12H0z"/></svg>',
+}
+const multicolor = {
+  logoName: "neon",
+  svg: '<svg viewBox="0 0 10 10"><path fill="#00e599" d="M0 0h5v5H0z"/><path fill="#fff" d="M5 5h5v5H5z"/></svg>',
+}
+
+describe("stylesheet utilities", () => {
+  describe("getLogoClassName", () => {
+    it("should prefix the kebab-case file name", () => {
+      expect(getLogoClassName("vercel_dark")).toBe("logo-vercel-dark")
+      expect(getLogoClassName("apple-music_icon")).toBe("logo-apple-music-icon")
+    })
+  })
+
+  describe("createCssSource", () => {
+    it("should mask single-color logos over currentColor", () => {
+      const css = createCssSource([monochrome])
+
+      expect(css).toContain("@layer components {\n  .logo-vercel-dark {")
+      expect(css).toContain("    background-color: currentColor;")
+      expect(css).toContain("    mask: var(--logo) center / contain no-repeat;")
+      expect(css).toContain("    aspect-ratio: 24 / 12;")
+      expect(css).toContain(
+        '--logo: url("data:image/svg+xml,%3Csvg viewBox=%220 0 24 12%22',
+      )
+      expect(css).toContain("xmlns=%22http://www.w3.org/2000/svg%22")
+    })
+
+    it("should keep the colors of multi-color logos as a background", () => {
+      const css = createCssSource([multicolor])
+
+      expect(css).toContain(
+        "    background: var(--logo) center / contain no-repeat;",
+      )
+      expect(css).not.toContain("mask")
+      expect(css).toContain("fill=%22%2300e599%22")
+    })
+
+    it("should sort the classes by logo name", () => {
+      const css = createCssSource([monochrome, multicolor])
+
+      expect(css.indexOf(".logo-neon")).toBeLessThan(
+        css.indexOf(".logo-vercel-dark"),
+      )
+      expect(isGeneratedStylesheet(css)).toBe(true)
+    })
+  })
+
+  describe("createTailwindPluginSource", () => {
+    it("should add a utility per logo", () => {
+      const source = createTailwindPluginSource([monochrome])
+
+      expect(source).toContain('import plugin from "tailwindcss/plugin"')
+      expect(source).toContain('  addUtilities({\n    ".logo-vercel-dark": {')
+      expect(source).toContain('      "background-color": "currentColor",')
+      expect(isGeneratedStylesheet(source)).toBe(true)
+    })
+  })
+
+  describe("isGeneratedStylesheet", () => {
+    it("should not claim files written by hand", () => {
+      expect(isGeneratedStylesheet(".logo { color: red }")).toBe(false)
+    })
+  })
+})
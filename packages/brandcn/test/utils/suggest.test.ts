@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+
+import { getAvailableLogos } from "../../src/utils/fs.js"
+import { getEditDistance, suggestLogoNames } from "../../src/utils/suggest.js"
+
+describe("suggest utilities", () => {
+  describe("getEditDistance", () => {
+    it("should count insertions, deletions and substitutions", () => {
+      expect(getEditDistance("vercel", "vercel")).toBe(0)
+      expect(getEditDistance("vercl", "vercel")).toBe(1)
+      expect(getEditDistance("kitten", "sitting")).toBe(3)
+      expect(getEditDistance("", "neon")).toBe(4)
+    })
+  })
+
+  describe("suggestLogoNames", () => {
+    it("should suggest brands for typos", async () => {
+      const logos = await getAvailableLogos()
+
+      expect(suggestLogoNames("vercl", logos)[0]).toBe("vercel")
+      expect(suggestLogoNames("nextjs13", logos)[0]).toBe("nextjs")
+      expect(suggestLogoNames("githb", logos)[0]).toBe("github")
+    })
+
+    it("should suggest the brand of a misspelled alias", async () => {
+      const logos = await getAvailableLogos()
+
+      expect(suggestLogoNames("tailwnd", logos)[0]).toBe("tailwindcss")
+    })
+
+    it("should leave out variants of suggested brands", async () => {
+      const suggestions = suggestLogoNames("vercell", await getAvailableLogos())
+
+      expect(suggestions).toContain("vercel")
+      expect(suggestions).not.toContain("vercel_dark")
+    })
+
+    it("should return nothing for unrelated names", async () => {
+      expect(suggestLogoNames("qqqqqqqq", await getAvailableLogos())).toEqual(
+        [],
+      )
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  decodeEntities,
+  getSvgColors,
+  getSvgViewBox,
+  isMonochromeSvg,
+  normalizeColor,
+  parseSvg,
+  stringifySvg,
+  walkSvg,
+} from "../../src/utils/svg.js"
+
+describe("svg utilities", () => {
+  describe("parseSvg", () => {
+    it("should parse elements, attributes and text", () => {
+      const root = parseSvg(
+        '<svg viewBox="0 0 24 24"><title>Logo</title><path d="M0 0h24"/></svg>',
+      )
+
+      expect(root.name).toBe("svg")
+      expect(root.attributes.viewBox).toBe("0 0 24 24")
+      expect(root.children).toEqual([
+        {
+          attributes: {},
+          children: [{ type: "text", value: "Logo" }],
+          name: "title",
+          type: "element",
+        },
+        {
+          attributes: { d: "M0 0h24" },
+          children: [],
+          name: "path",
+          type: "element",
+        },
+      ])
+    })
+
+    it("should skip the xml prolog and doctype", () => {
+      const root = parseSvg(
+        '<?xml version="1.0"?>\n<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "x" [\n<!ENTITY a "b">\n]>\n<svg/>',
+      )
+
+      expect(root.name).toBe("svg")
+    })
+
+    it("should keep comments and CDATA sections", () => {
+      const root = parseSvg(
+        "<svg><!-- note --><style><![CDATA[.a{fill:red}]]></style></svg>",
+      )
+
+      expect(root.children[0]).toEqual({ type: "comment", value: " note " })
+      expect(stringifySvg(root)).toContain("<![CDATA[.a{fill:red}]]>")
+    })
+
+    it("should decode entities in attributes and text", () => {
+      const root = parseSvg(
+        "<svg aria-label='A &amp; B'><title>&lt;3 &#x41;</title></svg>",
+      )
+
+      expect(root.attributes["aria-label"]).toBe("A & B")
+      expect(root.children[0]).toMatchObject({
+        children: [{ type: "text", value: "<3 A" }],
+      })
+    })
+
+    it("should throw for malformed markup", () => {
+      expect(() => parseSvg("<svg><g></svg>")).toThrow("Invalid SVG")
+      expect(() => parseSvg("<svg>")).toThrow("unclosed")
+      expect(() => parseSvg("<div></div>")).toThrow("missing root <svg>")
+    })
+  })
+
+  describe("stringifySvg", () => {
+    it("should round-trip markup and escape special characters", () => {
+      const source =
+        '<svg aria-label="&quot;A&quot; &amp; B"><g fill="#000"><path d="M0 0"/></g><text>a &lt; b</text></svg>'
+
+      expect(stringifySvg(parseSvg(source))).toBe(source)
+    })
+  })
+
+  describe("walkSvg", () => {
+    it("should visit every element with its parent", () => {
+      const visited: string[] = []
+
+      walkSvg(parseSvg("<svg><g><path/></g><rect/></svg>"), (element, parent) =>
+        visited.push(`${parent?.name ?? "-"}>${element.name}`),
+      )
+
+      expect(visited).toEqual(["->svg", "svg>g", "g>path", "svg>rect"])
+    })
+  })
+
+  describe("getSvgViewBox", () => {
+    it("should parse the viewBox", () => {
+      expect(getSvgViewBox(parseSvg('<svg viewBox="0 0 394 80"/>'))).toEqual({
+        height: 80,
+        minX: 0,
+        minY: 0,
+        width: 394,
+      })
+    })
+
+    it("should fall back to width and height", () => {
+      expect(
+        getSvgViewBox(parseSvg('<svg width="24px" height="12"/>')),
+      ).toEqual({ height: 12, minX: 0, minY: 0, width: 24 })
+      expect(getSvgViewBox(parseSvg("<svg/>"))).toBeNull()
+    })
+  })
+
+  describe("normalizeColor", () => {
+    it("should normalize equal colors to the same value", () => {
+      expect(normalizeColor("#FFF")).toBe("#ffffff")
+      expect(normalizeColor("white")).toBe("#ffffff")
+      expect(normalizeColor("#000000FF")).toBe("#000000")
+      expect(normalizeColor("currentcolor")).toBe("currentColor")
+    })
+
+    it("should ignore values that paint nothing", () => {
+      expect(normalizeColor("none")).toBeNull()
+      expect(normalizeColor("url(#gradient)")).toBeNull()
+    })
+  })
+
+  describe("getSvgColors", () => {
+    it("should collect fills, strokes, stop colors and style sheet colors", () => {
+      const root = parseSvg(
+        '<svg><style>.a{fill:#F00}</style><linearGradient><stop stop-color="#00f"/></linearGradient><path class="a"/><path style="stroke: #0f0" fill="none"/></svg>',
+      )
+
+      expect(getSvgColors(root)).toEqual(["#0000ff", "#00ff00", "#ff0000"])
+    })
+
+    it("should count unfilled shapes as black and skip clip paths", () => {
+      const root = parseSvg(
+        '<svg><clipPath><rect fill="#fff"/></clipPath><path d="M0 0"/></svg>',
+      )
+
+      expect(getSvgColors(root)).toEqual(["#000000"])
+      expect(isMonochromeSvg(root)).toBe(true)
+    })
+
+    it("should not count shapes that inherit a fill", () => {
+      const root = parseSvg(
+        '<svg><g fill="#fff"><path/></g><path fill="#f00"/></svg>',
+      )
+
+      expect(getSvgColors(root)).toEqual(["#ff0000", "#ffffff"])
+      expect(isMonochromeSvg(root)).toBe(false)
+    })
+  })
+
+  describe("decodeEntities", () => {
+    it("should leave unknown entities untouched", () => {
+      expect(decodeEntities("&ns_svg; &amp;")).toBe("&ns_svg; &")
+    })
+  })
+})
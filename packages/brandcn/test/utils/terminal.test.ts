@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+
+import { createCanvas, drawImage } from "../../src/utils/raster.js"
+import {
+  getAnsi256Color,
+  getColorMode,
+  getImageProtocol,
+  renderHalfBlocks,
+  renderItermImage,
+  renderKittyImage,
+} from "../../src/utils/terminal.js"
+
+describe("terminal utilities", () => {
+  describe("getColorMode", () => {
+    it("should use truecolor only when COLORTERM says so", () => {
+      expect(getColorMode({ COLORTERM: "truecolor" })).toBe("truecolor")
+      expect(getColorMode({ COLORTERM: "24bit" })).toBe("truecolor")
+      expect(getColorMode({})).toBe("256")
+    })
+  })
+
+  describe("getImageProtocol", () => {
+    it("should detect Kitty and iTerm2", () => {
+      expect(getImageProtocol({ TERM: "xterm-kitty" })).toBe("kitty")
+      expect(getImageProtocol({ KITTY_WINDOW_ID: "1" })).toBe("kitty")
+      expect(getImageProtocol({ TERM_PROGRAM: "iTerm.app" })).toBe("iterm")
+      expect(getImageProtocol({ TERM: "xterm-256color" })).toBeNull()
+    })
+
+    it("should fall back to text inside tmux", () => {
+      expect(
+        getImageProtocol({ TERM_PROGRAM: "iTerm.app", TMUX: "/tmp/tmux" }),
+      ).toBeNull()
+    })
+  })
+
+  describe("getAnsi256Color", () => {
+    it("should map colors to the cube and grays to the ramp", () => {
+      expect(getAnsi256Color(255, 0, 0)).toBe(196)
+      expect(getAnsi256Color(0, 0, 0)).toBe(16)
+      expect(getAnsi256Color(255, 255, 255)).toBe(231)
+      expect(getAnsi256Color(128, 128, 128)).toBe(244)
+    })
+  })
+
+  describe("renderHalfBlocks", () => {
+    it("should draw two rows of pixels per line", () => {
+      const image = createCanvas(3, 2)
+      // Top left red, bottom middle blue, right column empty
+      drawImage(image, createCanvas(1, 1, [255, 0, 0, 255]), 0, 0)
+      drawImage(image, createCanvas(1, 1, [0, 0, 255, 255]), 1, 1)
+
+      expect(renderHalfBlocks(image, "truecolor")).toEqual([
+        "\u001B[38;2;255;0;0m▀\u001B[0m\u001B[38;2;0;0;255m▄\u001B[0m ",
+      ])
+    })
+
+    it("should use 256 colors and both halves of a cell", () => {
+      const image = createCanvas(1, 3, [255, 255, 255, 255])
+
+      expect(renderHalfBlocks(image, "256")).toEqual([
+        "\u001B[38;5;231m\u001B[48;5;231m▀\u001B[0m",
+        "\u001B[38;5;231m▀\u001B[0m",
+      ])
+    })
+  })
+
+  describe("image protocols", () => {
+    it("should split Kitty payloads into chunks", () => {
+      const output = renderKittyImage(Buffer.alloc(4000), 10, 4)
+      const chunks = output.split("\u001B\\").filter(Boolean)
+
+      expect(chunks).toHaveLength(2)
+      expect(chunks[0]?.startsWith("\u001B_Ga=T,f=100,c=10,r=4,m=1;")).toBe(
+        true,
+      )
+      expect(chunks[1]?.startsWith("\u001B_Gm=0;")).toBe(true)
+    })
+
+    it("should size iTerm2 images in cells", () => {
+      expect(renderItermImage(Buffer.from("png"), 10, 4)).toBe(
+        "\u001B]1337;File=inline=1;size=3;width=10;height=4;preserveAspectRatio=0:cG5n\u0007",
+      )
+    })
+  })
+})
@@ -1,6 +1,13 @@
 import { describe, expect, it } from "vitest"
 
-import { parseLogoName, validateLogoNames } from "../../src/utils/validate"
+import {
+  parseColor,
+  parseColorMap,
+  parseLogoName,
+  parsePadding,
+  parseSizes,
+  validateLogoNames,
+} from "../../src/utils/validate"
 
 describe("validate utilities", () => {
   describe("validateLogoNames", () => {
@@ -22,11 +29,16 @@ describe("validate utilities", () => {
       }
     })
 
+    it("should parse logo names into library slugs", () => {
+      expect(parseLogoName("apollo.io").data).toBe("apollo-io")
+      expect(parseLogoName("Beacon-Logo").data).toBe("beacon-logo")
+      expect(parseLogoName("jetbrainsSolid").data).toBe("jetbrainssolid")
+    })
+
     it("should reject invalid logo names", () => {
       const invalidNames = [
         "",
         "logo@name",
-        "logo.name",
         "logo name",
         "logo+name",
         "logo#name",
@@ -76,7 +88,7 @@ describe("validate utilities", () => {
     })
 
     it("should handle all invalid names", () => {
-      const invalidNames = ["invalid@name", "logo.name", ""]
+      const invalidNames = ["invalid@name", "logo name", ""]
 
       const result = validateLogoNames(invalidNames)
 
@@ -85,4 +97,65 @@ describe("validate utilities", () => {
       expect(result.hasErrors).toBe(true)
     })
   })
+
+  describe("parseColor", () => {
+    it("should normalize hex colors", () => {
+      expect(parseColor("#6B7280")).toBe("#6b7280")
+      expect(parseColor("#fff")).toBe("#ffffff")
+      expect(parseColor("black")).toBe("#000000")
+      expect(parseColor(undefined)).toBeUndefined()
+    })
+
+    it("should reject anything else", () => {
+      expect(() => parseColor("gray")).toThrow('Invalid color "gray"')
+      expect(() => parseColor("#12345")).toThrow('Invalid color "#12345"')
+    })
+  })
+
+  describe("parseColorMap", () => {
+    it("should parse pairs of colors", () => {
+      expect(parseColorMap("#000=#111, #FFF = #fafafa")).toEqual({
+        "#000000": "#111111",
+        "#ffffff": "#fafafa",
+      })
+      expect(parseColorMap(undefined)).toBeUndefined()
+    })
+
+    it("should reject malformed pairs", () => {
+      expect(() => parseColorMap("#000=#111,#fff")).toThrow(
+        'Invalid color mapping "#fff"',
+      )
+      expect(() => parseColorMap("#000=#111=#222")).toThrow(
+        'Invalid color mapping "#000=#111=#222"',
+      )
+    })
+  })
+
+  describe("parsePadding", () => {
+    it("should parse percentages", () => {
+      expect(parsePadding("10")).toBe(10)
+      expect(parsePadding("12.5%")).toBe(12.5)
+      expect(parsePadding(undefined)).toBe(0)
+    })
+
+    it("should reject values outside 0 to 50", () => {
+      for (const value of ["", "-1", "51", "ten"]) {
+        expect(() => parsePadding(value)).toThrow(`Invalid padding "${value}"`)
+      }
+    })
+  })
+
+  describe("parseSizes", () => {
+    it("should parse pixel sizes without duplicates", () => {
+      expect(parseSizes("16, 32,32,64px")).toEqual([16, 32, 64])
+    })
+
+    it("should reject sizes out of range", () => {
+      expect(() => parseSizes("16,0")).toThrow('Invalid size "0"')
+      expect(() => parseSizes("1.5")).toThrow('Invalid size "1.5"')
+      expect(() => parseSizes("512", 256)).toThrow(
+        "Use pixel sizes from 1 to 256",
+      )
+    })
+  })
 })
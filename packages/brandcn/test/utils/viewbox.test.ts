@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+
+import { trimSvg } from "../../src/utils/viewbox.js"
+
+describe("viewbox utilities", () => {
+  describe("trimSvg", () => {
+    const svg =
+      '<svg viewBox="0 0 100 100" width="200" height="200"><rect x="20" y="40" width="60" height="20"/></svg>'
+
+    it("should fit the viewBox to the painted content", async () => {
+      expect(await trimSvg(svg, { padding: 0, square: false })).toBe(
+        '<svg viewBox="20 40 60 20" width="120" height="40"><rect x="20" y="40" width="60" height="20"/></svg>',
+      )
+    })
+
+    it("should pad and center the content in a square", async () => {
+      expect(await trimSvg(svg, { padding: 10, square: true })).toBe(
+        '<svg viewBox="14 14 72 72" width="144" height="144"><rect x="20" y="40" width="60" height="20"/></svg>',
+      )
+    })
+
+    it("should ignore content outside the viewBox", async () => {
+      expect(
+        await trimSvg(
+          '<svg viewBox="0 0 10 10"><rect x="5" y="5" width="20" height="20"/></svg>',
+          { padding: 0, square: false },
+        ),
+      ).toBe(
+        '<svg viewBox="5 5 5 5"><rect x="5" y="5" width="20" height="20"/></svg>',
+      )
+    })
+
+    it("should keep relative sizes", async () => {
+      expect(
+        await trimSvg(
+          '<svg viewBox="0 0 10 10" width="100%"><rect x="2" y="2" width="6" height="6"/></svg>',
+          { padding: 0, square: false },
+        ),
+      ).toContain('viewBox="2 2 6 6" width="100%"')
+    })
+
+    it("should leave SVGs that paint nothing unchanged", async () => {
+      const empty = '<svg viewBox="0 0 10 10"><g/></svg>'
+      expect(await trimSvg(empty, { padding: 0, square: false })).toBe(empty)
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import decode, { init } from "@jsquash/webp/decode.js"
+import { readFileSync } from "node:fs"
+import { createRequire } from "node:module"
+import { describe, expect, it } from "vitest"
+
+import type { RasterImage } from "../../src/utils/raster.js"
+
+import { createCanvas, drawImage, getPixel } from "../../src/utils/raster.js"
+import { encodeWebp } from "../../src/utils/webp.js"
+
+/**
+ * Width, height and alpha hint from the header of a lossless WebP
+ */
+function readHeader(webp: Buffer) {
+  const bits = webp.readUInt32LE(21)
+
+  return {
+    alpha: (bits >>> 28) & 1,
+    height: ((bits >>> 14) & 0x3f_ff) + 1,
+    width: (bits & 0x3f_ff) + 1,
+  }
+}
+
+/**
+ * Decodes a WebP with libwebp, loading its WebAssembly module from disk
+ */
+async function decodeWebp(webp: Buffer): Promise<number[]> {
+  const wasmPath = createRequire(import.meta.url).resolve(
+    "@jsquash/webp/codec/dec/webp_dec.wasm",
+  )
+  await init(await WebAssembly.compile(readFileSync(wasmPath)))
+  const image = await decode(new Uint8Array(webp).buffer)
+
+  return [...image.data]
+}
+
+/**
+ * Straight RGBA of every pixel, as a decoder returns them
+ */
+const getPixels = (image: RasterImage): number[] =>
+  Array.from({ length: image.width * image.height }, (_, index) =>
+    getPixel(image, index * 4),
+  ).flat()
+
+describe("webp utilities", () => {
+  describe("encodeWebp", () => {
+    it("should write a lossless WebP in a RIFF container", async () => {
+      const webp = await encodeWebp(createCanvas(3, 2, [255, 0, 0, 128]))
+
+      expect(webp.subarray(0, 4).toString("ascii")).toBe("RIFF")
+      expect(webp.readUInt32LE(4)).toBe(webp.length - 8)
+      expect(webp.subarray(8, 16).toString("ascii")).toBe("WEBPVP8L")
+      // Chunks are padded to an even length
+      const chunkLength = webp.readUInt32LE(16)
+      expect(webp.length).toBe(20 + chunkLength + (chunkLength % 2))
+      expect(webp[20]).toBe(0x2f)
+      expect(readHeader(webp)).toEqual({ alpha: 1, height: 2, width: 3 })
+    })
+
+    it("should decode to the pixels it was given", async () => {
+      const image = createCanvas(24, 16, [0, 128, 255, 255])
+      drawImage(image, createCanvas(10, 6, [255, 0, 0, 128]), 4, 3)
+      // A transparent bottom row
+      image.pixels.fill(0, 24 * 15 * 4)
+      for (let offset = 0; offset < 24 * 4; offset += 4) {
+        image.pixels.set([offset, 255 - offset, offset / 2, 255], offset)
+      }
+
+      expect(await decodeWebp(await encodeWebp(image))).toEqual(
+        getPixels(image),
+      )
+    })
+
+    it("should flag opaque images", async () => {
+      expect(
+        readHeader(await encodeWebp(createCanvas(5, 7, [0, 0, 0, 255]))),
+      ).toEqual({ alpha: 0, height: 7, width: 5 })
+    })
+  })
+})